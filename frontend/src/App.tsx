@@ -1,8 +1,13 @@
 import { useEffect, useState } from 'react';
-import { BrowserRouter, Routes, Route } from 'react-router-dom';
+import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import Dashboard from './components/Dashboard';
+import DatasetCatalog from './components/DatasetCatalog';
 import DatasetDetail from './components/DatasetDetail';
-import { dataService } from './core/MockDataService';
+import RunHistory from './components/RunHistory';
+import NotificationSettings from './components/NotificationSettings';
+import { dataService, DEMO_DATASET } from './core/MockDataService';
+import { startNotificationDispatcher } from './core/notificationDispatcher';
+import { datasetRowsPath, notificationsPath } from './lib/routes';
 
 function App() {
   const [initialized, setInitialized] = useState(false);
@@ -19,6 +24,11 @@ function App() {
     initDB();
   }, []);
 
+  useEffect(() => {
+    if (!initialized) return;
+    return startNotificationDispatcher();
+  }, [initialized]);
+
   if (!initialized) {
     return (
       <div className="flex items-center justify-center h-screen bg-slate-950">
@@ -30,8 +40,12 @@ function App() {
   return (
     <BrowserRouter>
       <Routes>
-        <Route path="/" element={<Dashboard />} />
-        <Route path="/dataset" element={<DatasetDetail />} />
+        <Route path="/" element={<DatasetCatalog />} />
+        <Route path="/datasets/:name" element={<Dashboard />} />
+        <Route path="/datasets/:name/rows" element={<DatasetDetail />} />
+        <Route path="/datasets/:name/history" element={<RunHistory />} />
+        <Route path={notificationsPath} element={<NotificationSettings />} />
+        <Route path="/dataset" element={<Navigate to={datasetRowsPath(DEMO_DATASET)} replace />} />
       </Routes>
     </BrowserRouter>
   );
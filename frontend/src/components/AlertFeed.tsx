@@ -1,12 +1,50 @@
-import React from 'react';
-import { AlertTriangle, AlertCircle, Info, Clock } from 'lucide-react';
-import { Alert } from '../core/MockDataService';
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, AlertCircle, Info, Clock, Search, User } from 'lucide-react';
+import { Alert, AlertStatus } from '../core/MockDataService';
+import {
+  AlertFilter,
+  acknowledgeAlert,
+  assignAlert,
+  effectiveStatus,
+  filterAlerts,
+  reopenAlert,
+  resolveAlert,
+  snoozeAlert,
+} from '../core/alertLifecycle';
 
 interface AlertFeedProps {
   alerts: Alert[];
+  onAlertChange?: (alert: Alert) => Promise<void>;
+  /** Opens the rows behind an alert, e.g. in the dataset explorer. */
+  onAlertSelect?: (alert: Alert) => void;
 }
 
-const AlertFeed: React.FC<AlertFeedProps> = ({ alerts }) => {
+type PendingAction = { id: string; action: 'resolve' | 'snooze' | 'assign'; value: string };
+
+const selectClass = 'bg-slate-950 border border-slate-700 text-slate-300 text-xs font-mono px-2 py-1';
+const actionClass = 'text-slate-400 hover:text-slate-200 underline';
+
+const STATUS_STYLES: Record<AlertStatus, string> = {
+  open: 'border-red-800 text-red-400',
+  acknowledged: 'border-yellow-800 text-yellow-400',
+  snoozed: 'border-slate-700 text-slate-400',
+  resolved: 'border-emerald-800 text-emerald-400',
+};
+
+const tomorrow = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  return date.toISOString().slice(0, 10);
+};
+
+const AlertFeed: React.FC<AlertFeedProps> = ({ alerts, onAlertChange, onAlertSelect }) => {
+  const [filter, setFilter] = useState<AlertFilter>({ status: 'active', severity: 'all', search: '' });
+  const [pending, setPending] = useState<PendingAction | null>(null);
+
+  const columns = useMemo(() => Array.from(new Set(alerts.map((a) => a.column))).sort(), [alerts]);
+  const types = useMemo(() => Array.from(new Set(alerts.map((a) => a.type))).sort(), [alerts]);
+  const visible = filterAlerts(alerts, filter);
+
   const getSeverityIcon = (severity: string) => {
     switch (severity) {
       case 'critical':
@@ -39,51 +77,235 @@ const AlertFeed: React.FC<AlertFeedProps> = ({ alerts }) => {
     });
   };
 
+  const update = async (alert: Alert) => {
+    try {
+      await onAlertChange?.(alert);
+      setPending(null);
+    } catch (error) {
+      console.error('Failed to update alert:', error);
+    }
+  };
+
+  const confirmPending = (alert: Alert) => {
+    if (!pending) return;
+    switch (pending.action) {
+      case 'resolve':
+        return update(resolveAlert(alert, pending.value));
+      case 'snooze':
+        if (!pending.value) return;
+        return update(snoozeAlert(alert, new Date(`${pending.value}T00:00:00`)));
+      case 'assign':
+        return update(assignAlert(alert, pending.value));
+    }
+  };
+
+  const renderPending = (alert: Alert) => {
+    if (pending?.id !== alert.id) return null;
+    const placeholder = { resolve: 'resolution note', snooze: '', assign: 'owner' }[pending.action];
+
+    return (
+      <div className="flex items-center gap-2 mt-3" onClick={(e) => e.stopPropagation()}>
+        <input
+          data-testid="alert-action-input"
+          type={pending.action === 'snooze' ? 'date' : 'text'}
+          value={pending.value}
+          onChange={(e) => setPending({ ...pending, value: e.target.value })}
+          placeholder={placeholder}
+          className={`${selectClass} flex-1`}
+          autoFocus
+        />
+        <button data-testid="alert-action-confirm" onClick={() => confirmPending(alert)} className={actionClass}>
+          {pending.action}
+        </button>
+        <button onClick={() => setPending(null)} className={actionClass}>cancel</button>
+      </div>
+    );
+  };
+
+  const renderActions = (alert: Alert, status: AlertStatus) => {
+    if (!onAlertChange) return null;
+
+    return (
+      <div className="flex items-center gap-3 text-xs font-mono" onClick={(e) => e.stopPropagation()}>
+        {status === 'open' && (
+          <button data-testid="alert-ack-btn" onClick={() => update(acknowledgeAlert(alert))} className={actionClass}>
+            acknowledge
+          </button>
+        )}
+        {status !== 'resolved' && (
+          <>
+            <button
+              data-testid="alert-resolve-btn"
+              onClick={() => setPending({ id: alert.id, action: 'resolve', value: '' })}
+              className={actionClass}
+            >
+              resolve
+            </button>
+            <button
+              data-testid="alert-snooze-btn"
+              onClick={() => setPending({ id: alert.id, action: 'snooze', value: tomorrow() })}
+              className={actionClass}
+            >
+              snooze
+            </button>
+          </>
+        )}
+        {status !== 'open' && (
+          <button data-testid="alert-reopen-btn" onClick={() => update(reopenAlert(alert))} className={actionClass}>
+            reopen
+          </button>
+        )}
+        <button
+          data-testid="alert-assign-btn"
+          onClick={() => setPending({ id: alert.id, action: 'assign', value: alert.owner ?? '' })}
+          className={actionClass}
+        >
+          assign
+        </button>
+      </div>
+    );
+  };
+
   return (
     <div className="bg-slate-900 border border-slate-800 p-6">
       <h3 className="text-lg font-bold text-slate-100 mb-4 font-mono flex items-center gap-2">
         <AlertTriangle size={20} className="text-slate-500" />
         Alert Feed
       </h3>
-      
-      {alerts.length === 0 ? (
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <div className="flex items-center gap-1 flex-1 min-w-[160px] bg-slate-950 border border-slate-700 px-2">
+          <Search size={12} className="text-slate-500" />
+          <input
+            data-testid="alert-search-input"
+            value={filter.search}
+            onChange={(e) => setFilter({ ...filter, search: e.target.value })}
+            placeholder="search alerts"
+            className="bg-transparent text-slate-300 text-xs font-mono py-1 w-full outline-none"
+          />
+        </div>
+        <select
+          data-testid="alert-status-filter"
+          value={filter.status}
+          onChange={(e) => setFilter({ ...filter, status: e.target.value as AlertFilter['status'] })}
+          className={selectClass}
+        >
+          <option value="active">active</option>
+          <option value="open">open</option>
+          <option value="acknowledged">acknowledged</option>
+          <option value="snoozed">snoozed</option>
+          <option value="resolved">resolved</option>
+          <option value="all">all statuses</option>
+        </select>
+        <select
+          data-testid="alert-severity-filter"
+          value={filter.severity}
+          onChange={(e) => setFilter({ ...filter, severity: e.target.value as AlertFilter['severity'] })}
+          className={selectClass}
+        >
+          <option value="all">all severities</option>
+          <option value="critical">critical</option>
+          <option value="warning">warning</option>
+          <option value="info">info</option>
+        </select>
+        <select
+          data-testid="alert-column-filter"
+          value={filter.column ?? ''}
+          onChange={(e) => setFilter({ ...filter, column: e.target.value || undefined })}
+          className={selectClass}
+        >
+          <option value="">all columns</option>
+          {columns.map((column) => (
+            <option key={column} value={column}>{column}</option>
+          ))}
+        </select>
+        <select
+          data-testid="alert-type-filter"
+          value={filter.type ?? ''}
+          onChange={(e) => setFilter({ ...filter, type: e.target.value || undefined })}
+          className={selectClass}
+        >
+          <option value="">all types</option>
+          {types.map((type) => (
+            <option key={type} value={type}>{type}</option>
+          ))}
+        </select>
+      </div>
+
+      {visible.length === 0 ? (
         <div className="text-center py-12">
           <Info className="mx-auto mb-3 text-slate-700" size={32} />
-          <p className="text-slate-500 font-mono text-sm">No alerts detected</p>
+          <p className="text-slate-500 font-mono text-sm">
+            {alerts.length === 0 ? 'No alerts detected' : 'No alerts match the filters'}
+          </p>
         </div>
       ) : (
         <div className="space-y-3 max-h-[600px] overflow-y-auto pr-2">
-          {alerts.map((alert) => (
-            <div
-              key={alert.id}
-              data-testid="alert-item"
-              className={`border p-4 ${getSeverityColor(alert.severity)}`}
-            >
-              <div className="flex items-start gap-3">
-                <div className="mt-0.5">{getSeverityIcon(alert.severity)}</div>
-                <div className="flex-1">
-                  <div className="flex items-center justify-between mb-2">
-                    <span className="text-xs font-mono text-slate-400 uppercase tracking-wider">
-                      {alert.type}
-                    </span>
-                    <span className="text-xs font-mono text-slate-500 flex items-center gap-1">
-                      <Clock size={12} />
-                      {formatTimestamp(alert.timestamp)}
-                    </span>
-                  </div>
-                  <p className="text-slate-200 text-sm font-mono mb-2">{alert.message}</p>
-                  <div className="flex items-center gap-4 text-xs font-mono text-slate-500">
-                    <span>Column: <span className="text-slate-400">{alert.column}</span></span>
-                    <span>Affected: <span className="text-slate-400">{alert.affectedRows} rows</span></span>
+          {visible.map((alert) => {
+            const status = effectiveStatus(alert);
+            return (
+              <div
+                key={alert.id}
+                data-testid="alert-item"
+                onClick={onAlertSelect && (() => onAlertSelect(alert))}
+                title={onAlertSelect && 'Show affected rows'}
+                className={`border p-4 ${getSeverityColor(alert.severity)} ${status === 'resolved' ? 'opacity-60' : ''} ${
+                  onAlertSelect ? 'cursor-pointer hover:brightness-125' : ''
+                }`}
+              >
+                <div className="flex items-start gap-3">
+                  <div className="mt-0.5">{getSeverityIcon(alert.severity)}</div>
+                  <div className="flex-1">
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-xs font-mono text-slate-400 uppercase tracking-wider flex items-center gap-2">
+                        {alert.type}
+                        <span data-testid="alert-status" className={`px-1.5 border normal-case ${STATUS_STYLES[status]}`}>
+                          {status}
+                          {status === 'snoozed' && alert.snoozedUntil && ` until ${new Date(alert.snoozedUntil).toLocaleDateString()}`}
+                        </span>
+                        {alert.occurrences > 1 && (
+                          <span data-testid="alert-occurrences" className="text-slate-500 normal-case">
+                            ×{alert.occurrences}
+                          </span>
+                        )}
+                        {alert.escalatedFrom && (
+                          <span data-testid="alert-escalated" className="text-slate-500 normal-case">
+                            escalated from {alert.escalatedFrom}
+                          </span>
+                        )}
+                      </span>
+                      <span className="text-xs font-mono text-slate-500 flex items-center gap-1">
+                        <Clock size={12} />
+                        {formatTimestamp(alert.timestamp)}
+                      </span>
+                    </div>
+                    <p className="text-slate-200 text-sm font-mono mb-2">{alert.message}</p>
+                    <div className="flex items-center gap-4 text-xs font-mono text-slate-500 mb-2">
+                      <span>Column: <span className="text-slate-400">{alert.column}</span></span>
+                      <span>Affected: <span className="text-slate-400">{alert.affectedRows} rows</span></span>
+                      {alert.occurrences > 1 && (
+                        <span>Since: <span className="text-slate-400">{formatTimestamp(alert.firstSeen)}</span></span>
+                      )}
+                      {alert.owner && (
+                        <span className="flex items-center gap-1">
+                          <User size={12} /> <span className="text-slate-400">{alert.owner}</span>
+                        </span>
+                      )}
+                    </div>
+                    {status === 'resolved' && alert.resolutionNote && (
+                      <p className="text-emerald-500/80 text-xs font-mono mb-2">Resolved: {alert.resolutionNote}</p>
+                    )}
+                    {renderActions(alert, status)}
+                    {renderPending(alert)}
                   </div>
                 </div>
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       )}
     </div>
   );
 };
 
-export default AlertFeed;
\ No newline at end of file
+export default AlertFeed;
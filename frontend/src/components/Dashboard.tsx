@@ -1,9 +1,17 @@
 import { useEffect, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { Database, AlertTriangle, CheckCircle, Activity } from 'lucide-react';
-import { dataService, Alert } from '../core/MockDataService';
-import { ValidationEngine } from '../core/ValidationEngine';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Database, AlertTriangle, CheckCircle, Activity } from 'lucide-react';
+import { dataService, Alert, ValidationRule, ValidationRun } from '../core/MockDataService';
+import { isUnresolved } from '../core/alertLifecycle';
+import { DEFAULT_CHUNK_SIZE, ValidationProgress } from '../core/chunkedValidation';
+import { DimensionWeights, scoreQuality } from '../core/qualityScore';
+import { VolumeTrend, volumeTrend } from '../core/volume';
+import { ValidationJob, isCancellation, startValidation } from '../core/validationWorkerClient';
+import { datasetHistoryPath, datasetRowsPath } from '../lib/routes';
 import AlertFeed from './AlertFeed';
+import QualityDimensions from './QualityDimensions';
+import RuleSuggestions from './RuleSuggestions';
+import RulesEditor from './RulesEditor';
 import { Button } from './ui/button';
 
 interface MetricCardProps {
@@ -38,78 +46,108 @@ const MetricCard: React.FC<MetricCardProps> = ({ title, value, subtitle, icon, t
 
 const Dashboard: React.FC = () => {
   const navigate = useNavigate();
+  const { name = '' } = useParams();
   const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<ValidationProgress | null>(null);
+  const [activeJob, setActiveJob] = useState<ValidationJob | null>(null);
   const [seeded, setSeeded] = useState(false);
   const [metrics, setMetrics] = useState({
     totalRows: 0,
     alertCount: 0,
     criticalAlerts: 0,
-    dataQualityScore: 100,
   });
   const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [rules, setRules] = useState<ValidationRule[]>([]);
+  const [columns, setColumns] = useState<string[]>([]);
+  const [latestRun, setLatestRun] = useState<ValidationRun | null>(null);
+  const [rowTrend, setRowTrend] = useState<VolumeTrend | null>(null);
+  const [dimensionWeights, setDimensionWeights] = useState<DimensionWeights>({});
 
   useEffect(() => {
     loadMetrics();
-  }, []);
+
+    // The editor's column picker only needs the first chunk, not a full scan.
+    let stale = false;
+    setColumns([]);
+    dataService.getRowChunk(name, 0, DEFAULT_CHUNK_SIZE)
+      .then((rows) => {
+        if (!stale) setColumns(Array.from(new Set(rows.flatMap((row) => Object.keys(row)))));
+      })
+      .catch((error) => console.error('Failed to load columns:', error));
+    return () => {
+      stale = true;
+    };
+  }, [name]);
 
   const loadMetrics = async () => {
     try {
-      const dataset = await dataService.getDataset();
-      const alertList = await dataService.getAlerts();
-      const criticalCount = alertList.filter(a => a.severity === 'critical').length;
-      
-      const qualityScore = dataset.length > 0 
-        ? Math.max(0, 100 - (alertList.length / dataset.length) * 100)
-        : 100;
+      const alertList = await dataService.getAlerts(name);
+      const unresolved = alertList.filter(isUnresolved);
+      const criticalCount = unresolved.filter(a => a.severity === 'critical').length;
+      const runs = await dataService.getRuns(name);
+      const info = await dataService.getDatasetInfo(name);
+      const rowCount = info?.rowCount ?? 0;
 
       setMetrics({
-        totalRows: dataset.length,
-        alertCount: alertList.length,
+        totalRows: rowCount,
+        alertCount: unresolved.length,
         criticalAlerts: criticalCount,
-        dataQualityScore: Math.round(qualityScore),
       });
+      setLatestRun(runs.length > 0 ? runs[runs.length - 1] : null);
+      setRowTrend(volumeTrend(
+        runs.map((run) => ({ time: new Date(run.startedAt).getTime(), count: run.rowCount })),
+        { time: Date.now(), count: rowCount }
+      ));
+      setDimensionWeights(info?.dimensionWeights ?? {});
       setAlerts(alertList);
-      setSeeded(dataset.length > 0);
+      setSeeded(rowCount > 0);
+      await loadRules();
     } catch (error) {
       console.error('Failed to load metrics:', error);
     }
   };
 
-  const handleSeedData = async () => {
-    setLoading(true);
+  const loadRules = async () => {
+    setRules(await dataService.getRules(name));
+  };
+
+  const handleAlertChange = async (alert: Alert) => {
     try {
-      await dataService.seedDemoData();
-      await dataService.clearAlerts();
-      
-      const dataset = await dataService.getDataset();
-      const engine = new ValidationEngine();
-      
-      const validationConfigs = [
-        { strategy: 'Completeness', column: 'email' },
-        { strategy: 'Uniqueness', column: 'orderId' },
-        { strategy: 'NumericalRange', column: 'price', threshold: 3 },
-      ];
-
-      const results = engine.validateAll(dataset, validationConfigs);
-
-      for (const result of results) {
-        if (!result.isValid) {
-          await dataService.addAlert({
-            timestamp: new Date(),
-            severity: result.severity,
-            type: validationConfigs.find(c => result.message.includes(c.column))?.strategy || 'Unknown',
-            message: result.message,
-            column: validationConfigs.find(c => result.message.includes(c.column))?.column || 'Unknown',
-            affectedRows: result.failedRows.length,
-          });
-        }
-      }
+      await dataService.updateAlert(alert);
+    } catch (error) {
+      console.error('Failed to update alert:', error);
+    }
+    await loadMetrics();
+  };
+
+  const handleWeightsChange = async (weights: DimensionWeights) => {
+    setDimensionWeights(weights);
+    try {
+      await dataService.setDimensionWeights(name, weights);
+    } catch (error) {
+      console.error('Failed to save dimension weights:', error);
+    }
+  };
+
+  // Re-scored from the latest run so weight changes show without revalidating.
+  const quality = latestRun ? scoreQuality(latestRun.rules, latestRun.results, dimensionWeights) : null;
+  const dqScore = quality ? Math.round(quality.score) : null;
 
+  const handleValidate = async () => {
+    const job = startValidation(name, setProgress);
+    setLoading(true);
+    setActiveJob(job);
+    try {
+      await job.promise;
       await loadMetrics();
     } catch (error) {
-      console.error('Failed to seed data:', error);
+      if (!isCancellation(error)) {
+        console.error('Failed to validate dataset:', error);
+      }
     } finally {
       setLoading(false);
+      setActiveJob(null);
+      setProgress(null);
     }
   };
 
@@ -117,38 +155,84 @@ const Dashboard: React.FC = () => {
     <div className="min-h-screen bg-slate-950 p-8">
       <div className="max-w-7xl mx-auto">
         <div className="mb-8 flex items-center justify-between">
-          <div>
-            <h1 className="text-4xl font-bold text-slate-100 mb-2 tracking-tight">Data Quality Guard</h1>
-            <p className="text-slate-500 font-mono text-sm">Real-time metadata monitoring platform</p>
+          <div className="flex items-center gap-4">
+            <Button
+              data-testid="back-btn"
+              onClick={() => navigate('/')}
+              variant="outline"
+              className="border-slate-700 text-slate-300 hover:bg-slate-800"
+            >
+              <ArrowLeft size={16} className="mr-2" /> Catalog
+            </Button>
+            <div>
+              <h1 className="text-4xl font-bold text-slate-100 mb-2 tracking-tight">{name}</h1>
+              <p className="text-slate-500 font-mono text-sm">Dataset quality monitor</p>
+            </div>
           </div>
           <div className="flex gap-3">
             <Button
-              data-testid="seed-demo-btn"
-              onClick={handleSeedData}
-              disabled={loading}
+              data-testid="validate-btn"
+              onClick={handleValidate}
+              disabled={loading || !seeded}
               className="bg-slate-800 hover:bg-slate-700 text-slate-100 border border-slate-700 font-mono"
             >
-              {loading ? 'Seeding...' : seeded ? 'Reseed Demo Data' : 'Seed Demo Data'}
+              {loading ? 'Validating...' : 'Run Validation'}
             </Button>
+            {activeJob && (
+              <Button
+                data-testid="cancel-validation-btn"
+                onClick={activeJob.cancel}
+                variant="outline"
+                className="border-slate-700 text-slate-300 hover:bg-slate-800 font-mono"
+              >
+                Cancel
+              </Button>
+            )}
             {seeded && (
               <Button
                 data-testid="view-dataset-btn"
-                onClick={() => navigate('/dataset')}
+                onClick={() => navigate(datasetRowsPath(name))}
                 variant="outline"
                 className="border-slate-700 text-slate-300 hover:bg-slate-800 font-mono"
               >
                 View Dataset
               </Button>
             )}
+            <Button
+              data-testid="view-history-btn"
+              onClick={() => navigate(datasetHistoryPath(name))}
+              variant="outline"
+              className="border-slate-700 text-slate-300 hover:bg-slate-800 font-mono"
+            >
+              Run History
+            </Button>
           </div>
         </div>
 
+        {progress && (
+          <div data-testid="validation-progress" className="bg-slate-900 border border-slate-800 p-4 mb-8">
+            <div className="flex justify-between text-xs font-mono text-slate-400 mb-2">
+              <span>{progress.phase === 'loading' ? 'Reading rows' : 'Evaluating rules'}</span>
+              <span>{progress.done.toLocaleString()} / {progress.total.toLocaleString()}</span>
+            </div>
+            <div className="h-2 bg-slate-950 border border-slate-800">
+              <div
+                className="h-full bg-emerald-600 transition-all"
+                style={{ width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
           <MetricCard
             title="Total Rows"
             value={metrics.totalRows.toLocaleString()}
+            subtitle={rowTrend
+              ? `${rowTrend.change >= 0 ? '+' : ''}${(rowTrend.change * 100).toFixed(1)}% vs ≈${Math.round(rowTrend.expected).toLocaleString()} expected${rowTrend.anomaly ? ` · ${rowTrend.anomaly}` : ''}`
+              : 'No run history yet'}
             icon={<Database size={32} />}
-            trend="stable"
+            trend={rowTrend?.direction}
           />
           <MetricCard
             title="Active Alerts"
@@ -159,14 +243,15 @@ const Dashboard: React.FC = () => {
           />
           <MetricCard
             title="DQ Score"
-            value={`${metrics.dataQualityScore}%`}
+            value={dqScore === null ? '—' : `${dqScore}%`}
+            subtitle={dqScore === null ? 'Not validated yet' : `${quality!.dimensions.length} dimensions scored`}
             icon={<CheckCircle size={32} />}
-            trend={metrics.dataQualityScore > 95 ? 'up' : metrics.dataQualityScore < 80 ? 'down' : 'stable'}
+            trend={dqScore === null ? undefined : dqScore > 95 ? 'up' : dqScore < 80 ? 'down' : 'stable'}
           />
           <MetricCard
             title="Validation Rules"
-            value="3"
-            subtitle="Active monitors"
+            value={rules.filter((rule) => rule.enabled).length}
+            subtitle={`Active monitors · ${rules.length} configured`}
             icon={<Activity size={32} />}
             trend="stable"
           />
@@ -176,31 +261,23 @@ const Dashboard: React.FC = () => {
           <div className="bg-slate-900 border border-slate-800 p-12 text-center mb-8">
             <Database className="mx-auto mb-4 text-slate-600" size={48} />
             <h3 className="text-xl font-bold text-slate-300 mb-2">No Data Loaded</h3>
-            <p className="text-slate-500 font-mono text-sm mb-6">Click "Seed Demo Data" to generate 100 rows with 3 DQ failures</p>
+            <p className="text-slate-500 font-mono text-sm mb-6">Dataset "{name}" has no rows. Seed or import it from the catalog.</p>
           </div>
         )}
 
         {seeded && (
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
             <div className="lg:col-span-2">
-              <AlertFeed alerts={alerts} />
+              <AlertFeed
+                alerts={alerts}
+                onAlertChange={handleAlertChange}
+                onAlertSelect={(alert) => navigate(datasetRowsPath(name, alert.id))}
+              />
             </div>
-            <div className="bg-slate-900 border border-slate-800 p-6">
-              <h3 className="text-lg font-bold text-slate-100 mb-4 font-mono">Validation Rules</h3>
-              <div className="space-y-3">
-                <div className="bg-slate-950 border border-slate-800 p-4">
-                  <p className="text-slate-300 font-mono text-sm mb-1">Completeness Check</p>
-                  <p className="text-slate-500 text-xs font-mono">email column</p>
-                </div>
-                <div className="bg-slate-950 border border-slate-800 p-4">
-                  <p className="text-slate-300 font-mono text-sm mb-1">Uniqueness Check</p>
-                  <p className="text-slate-500 text-xs font-mono">orderId column</p>
-                </div>
-                <div className="bg-slate-950 border border-slate-800 p-4">
-                  <p className="text-slate-300 font-mono text-sm mb-1">Anomaly Detection</p>
-                  <p className="text-slate-500 text-xs font-mono">price (z-score &gt; 3)</p>
-                </div>
-              </div>
+            <div className="space-y-8">
+              <QualityDimensions quality={quality} weights={dimensionWeights} onWeightsChange={handleWeightsChange} />
+              <RulesEditor dataset={name} columns={columns} rules={rules} onRulesChanged={loadRules} />
+              <RuleSuggestions dataset={name} rules={rules} onRulesChanged={loadRules} />
             </div>
           </div>
         )}
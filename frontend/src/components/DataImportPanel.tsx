@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { Upload, FileWarning, CheckCircle } from 'lucide-react';
+import { DataRow } from '../core/MockDataService';
+import {
+  DatasetFormat,
+  ParseResult,
+  csvDelimiter,
+  datasetNameFromFile,
+  detectFormat,
+  parseDataset,
+} from '../core/datasetParser';
+import { Button } from './ui/button';
+
+interface DataImportPanelProps {
+  onImport: (name: string, rows: DataRow[]) => Promise<void>;
+}
+
+const PREVIEW_ROWS = 10;
+const MAX_LISTED_ERRORS = 20;
+
+const formatCell = (value: unknown) => {
+  if (value === null || value === undefined) return <span className="text-red-500">NULL</span>;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const DataImportPanel: React.FC<DataImportPanelProps> = ({ onImport }) => {
+  const [fileName, setFileName] = useState('');
+  const [datasetName, setDatasetName] = useState('');
+  const [text, setText] = useState('');
+  const [format, setFormat] = useState<DatasetFormat>('csv');
+  const [result, setResult] = useState<ParseResult | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  const parse = (content: string, selectedFormat: DatasetFormat, name: string) => {
+    setResult(parseDataset(content, selectedFormat, { delimiter: csvDelimiter(name) }));
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const content = await file.text();
+    const detected = detectFormat(file.name, content);
+    setFileName(file.name);
+    setDatasetName(datasetNameFromFile(file.name));
+    setText(content);
+    setFormat(detected);
+    parse(content, detected, file.name);
+  };
+
+  const handleFormatChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const selected = event.target.value as DatasetFormat;
+    setFormat(selected);
+    if (text) parse(text, selected, fileName);
+  };
+
+  const handleImport = async () => {
+    if (!result) return;
+    setImporting(true);
+    try {
+      await onImport(datasetName.trim(), result.rows);
+      setResult(null);
+      setText('');
+      setFileName('');
+      setDatasetName('');
+    } catch (error) {
+      console.error('Failed to import dataset:', error);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-slate-100 font-mono flex items-center gap-2">
+          <Upload size={20} className="text-slate-500" />
+          Import Dataset
+        </h3>
+        <div className="flex items-center gap-3">
+          <select
+            data-testid="import-format-select"
+            value={format}
+            onChange={handleFormatChange}
+            className="bg-slate-950 border border-slate-700 text-slate-300 text-sm font-mono px-2 py-1"
+          >
+            <option value="csv">CSV</option>
+            <option value="json">JSON</option>
+            <option value="ndjson">NDJSON</option>
+          </select>
+          <label className="cursor-pointer bg-slate-800 hover:bg-slate-700 text-slate-100 border border-slate-700 font-mono text-sm px-4 py-1.5">
+            Choose File
+            <input
+              data-testid="import-file-input"
+              type="file"
+              accept=".csv,.tsv,.json,.ndjson,.jsonl"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </label>
+        </div>
+      </div>
+
+      {!result && (
+        <p className="text-slate-500 font-mono text-sm">
+          CSV with a header row, a JSON array of objects, or newline-delimited JSON.
+        </p>
+      )}
+
+      {result && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <p className="text-slate-400 font-mono text-sm">
+              {fileName}: {result.rows.length} rows, {result.columns.length} columns
+              {result.errors.length > 0 && (
+                <span className="text-yellow-500"> · {result.errors.length} errors</span>
+              )}
+            </p>
+            <div className="flex items-center gap-3">
+              <input
+                data-testid="import-name-input"
+                value={datasetName}
+                onChange={(event) => setDatasetName(event.target.value)}
+                placeholder="dataset name"
+                className="bg-slate-950 border border-slate-700 text-slate-300 text-sm font-mono px-2 py-1"
+              />
+              <Button
+                data-testid="import-confirm-btn"
+                onClick={handleImport}
+                disabled={importing || result.rows.length === 0 || datasetName.trim() === ''}
+                className="bg-slate-800 hover:bg-slate-700 text-slate-100 border border-slate-700 font-mono"
+              >
+                <CheckCircle size={16} />
+                {importing ? 'Importing...' : `Import ${result.rows.length} Rows`}
+              </Button>
+            </div>
+          </div>
+
+          {result.errors.length > 0 && (
+            <div className="bg-yellow-950/20 border border-yellow-900 p-4 max-h-40 overflow-y-auto">
+              {result.errors.slice(0, MAX_LISTED_ERRORS).map((error, index) => (
+                <p key={index} data-testid="import-error" className="text-yellow-400 text-xs font-mono flex items-center gap-2">
+                  <FileWarning size={12} />
+                  Line {error.line}: {error.message}
+                </p>
+              ))}
+              {result.errors.length > MAX_LISTED_ERRORS && (
+                <p className="text-yellow-600 text-xs font-mono mt-1">
+                  and {result.errors.length - MAX_LISTED_ERRORS} more
+                </p>
+              )}
+            </div>
+          )}
+
+          {result.rows.length > 0 && (
+            <div className="overflow-x-auto border border-slate-800">
+              <table className="w-full">
+                <thead className="bg-slate-950 border-b border-slate-800">
+                  <tr>
+                    {result.columns.map((column) => (
+                      <th key={column} className="px-3 py-2 text-left text-xs font-mono text-slate-400 uppercase tracking-wider">
+                        {column}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-800">
+                  {result.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                    <tr key={index} data-testid="import-preview-row">
+                      {result.columns.map((column) => (
+                        <td key={column} className="px-3 py-2 text-xs font-mono text-slate-300">
+                          {formatCell(row[column])}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataImportPanel;
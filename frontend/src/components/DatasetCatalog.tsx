@@ -0,0 +1,209 @@
+import { Fragment, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell, Database, Trash2, ChevronRight } from 'lucide-react';
+import { dataService, DataRow, DatasetInfo, DEMO_DATASET } from '../core/MockDataService';
+import { startValidation } from '../core/validationWorkerClient';
+import { datasetPath, notificationsPath } from '../lib/routes';
+import DataImportPanel from './DataImportPanel';
+import { Button } from './ui/button';
+
+const formatTimestamp = (timestamp: Date | null) => {
+  if (!timestamp) return 'Never';
+  return new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+const scoreColor = (score: number | null) => {
+  if (score === null) return 'text-slate-500';
+  if (score > 95) return 'text-emerald-400';
+  if (score < 80) return 'text-red-400';
+  return 'text-yellow-400';
+};
+
+const DatasetCatalog: React.FC = () => {
+  const navigate = useNavigate();
+  const [datasets, setDatasets] = useState<DatasetInfo[]>([]);
+  const [loading, setLoading] = useState(false);
+  // Deleting cascades through everything stored for the dataset, so it waits for a second click.
+  const [pendingDelete, setPendingDelete] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadCatalog();
+  }, []);
+
+  const loadCatalog = async () => {
+    try {
+      setDatasets(await dataService.listDatasets());
+    } catch (error) {
+      console.error('Failed to load dataset catalog:', error);
+    }
+  };
+
+  const handleSeedData = async () => {
+    setLoading(true);
+    try {
+      await dataService.seedDemoData();
+      await startValidation(DEMO_DATASET).promise;
+      await loadCatalog();
+    } catch (error) {
+      console.error('Failed to seed data:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async (name: string, rows: DataRow[]) => {
+    await dataService.importDataset(name, rows);
+    await startValidation(name).promise;
+    await loadCatalog();
+  };
+
+  const handleDelete = async (name: string) => {
+    try {
+      await dataService.deleteDataset(name);
+      setPendingDelete(null);
+      await loadCatalog();
+    } catch (error) {
+      console.error('Failed to delete dataset:', error);
+    }
+  };
+
+  const demoSeeded = datasets.some((d) => d.name === DEMO_DATASET);
+
+  return (
+    <div className="min-h-screen bg-slate-950 p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8 flex items-center justify-between">
+          <div>
+            <h1 className="text-4xl font-bold text-slate-100 mb-2 tracking-tight">Data Quality Guard</h1>
+            <p className="text-slate-500 font-mono text-sm">Real-time metadata monitoring platform</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              data-testid="notifications-btn"
+              onClick={() => navigate(notificationsPath)}
+              variant="outline"
+              className="border-slate-700 text-slate-300 hover:bg-slate-800 font-mono"
+            >
+              <Bell size={16} className="mr-2" /> Notifications
+            </Button>
+            <Button
+              data-testid="seed-demo-btn"
+              onClick={handleSeedData}
+              disabled={loading}
+              className="bg-slate-800 hover:bg-slate-700 text-slate-100 border border-slate-700 font-mono"
+            >
+              {loading ? 'Seeding...' : demoSeeded ? 'Reseed Demo Data' : 'Seed Demo Data'}
+            </Button>
+          </div>
+        </div>
+
+        <DataImportPanel onImport={handleImport} />
+
+        <div className="bg-slate-900 border border-slate-800 overflow-hidden">
+          <div className="p-6 border-b border-slate-800">
+            <h3 className="text-lg font-bold text-slate-100 font-mono flex items-center gap-2">
+              <Database size={20} className="text-slate-500" />
+              Dataset Catalog
+            </h3>
+          </div>
+
+          {datasets.length === 0 ? (
+            <div className="p-12 text-center">
+              <Database className="mx-auto mb-4 text-slate-600" size={48} />
+              <h3 className="text-xl font-bold text-slate-300 mb-2">No Data Loaded</h3>
+              <p className="text-slate-500 font-mono text-sm">
+                Click "Seed Demo Data" to generate 100 rows with 3 DQ failures, or import a file above
+              </p>
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-slate-950 border-b border-slate-800">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-mono text-slate-400 uppercase tracking-wider">Dataset</th>
+                  <th className="px-4 py-3 text-left text-xs font-mono text-slate-400 uppercase tracking-wider">Source</th>
+                  <th className="px-4 py-3 text-right text-xs font-mono text-slate-400 uppercase tracking-wider">Rows</th>
+                  <th className="px-4 py-3 text-left text-xs font-mono text-slate-400 uppercase tracking-wider">Last Validated</th>
+                  <th className="px-4 py-3 text-right text-xs font-mono text-slate-400 uppercase tracking-wider">DQ Score</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800">
+                {datasets.map((dataset) => (
+                  <Fragment key={dataset.name}>
+                    <tr
+                      data-testid="catalog-row"
+                      onClick={() => navigate(datasetPath(dataset.name))}
+                      className="hover:bg-slate-800/50 cursor-pointer"
+                    >
+                      <td className="px-4 py-3 text-sm font-mono text-slate-200">{dataset.name}</td>
+                      <td className="px-4 py-3 text-sm font-mono text-slate-400">{dataset.source}</td>
+                      <td className="px-4 py-3 text-sm font-mono text-slate-300 text-right">
+                        {dataset.rowCount.toLocaleString()}
+                      </td>
+                      <td className="px-4 py-3 text-sm font-mono text-slate-400">{formatTimestamp(dataset.lastValidated)}</td>
+                      <td className={`px-4 py-3 text-sm font-mono text-right ${scoreColor(dataset.dqScore)}`}>
+                        {dataset.dqScore === null ? '—' : `${dataset.dqScore}%`}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          <button
+                            data-testid="delete-dataset-btn"
+                            onClick={(event) => {
+                              event.stopPropagation();
+                              setPendingDelete(dataset.name);
+                            }}
+                            className="text-slate-600 hover:text-red-400"
+                            aria-label={`Delete ${dataset.name}`}
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                          <ChevronRight size={16} className="text-slate-600" />
+                        </div>
+                      </td>
+                    </tr>
+                    {pendingDelete === dataset.name && (
+                      <tr data-testid="delete-dataset-confirmation" className="bg-red-950/20">
+                        <td colSpan={6} className="px-4 py-3">
+                          <div className="flex items-center justify-between gap-4">
+                            <p className="text-red-300 text-sm font-mono">
+                              Delete "{dataset.name}"? Its {dataset.rowCount.toLocaleString()} rows, alerts, validation rules,
+                              drift baselines, run history and saved profiles will be removed. This cannot be undone.
+                            </p>
+                            <div className="flex gap-2 shrink-0">
+                              <Button
+                                data-testid="delete-dataset-confirm-btn"
+                                onClick={() => handleDelete(dataset.name)}
+                                className="bg-red-900 hover:bg-red-800 text-red-100 border border-red-800 font-mono"
+                              >
+                                Delete
+                              </Button>
+                              <Button
+                                data-testid="delete-dataset-cancel-btn"
+                                onClick={() => setPendingDelete(null)}
+                                variant="outline"
+                                className="border-slate-700 text-slate-300 hover:bg-slate-800 font-mono"
+                              >
+                                Cancel
+                              </Button>
+                            </div>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DatasetCatalog;
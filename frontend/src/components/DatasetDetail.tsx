@@ -1,42 +1,163 @@
-import { useEffect, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, Database, TrendingUp } from 'lucide-react';
-import { dataService, EcommerceRow } from '../core/MockDataService';
-import { calculateStats, generateDistributionData } from '../core/statsUtils';
-import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Database, BarChart3, Filter, X } from 'lucide-react';
+import { dataService, Alert, DataRow, ValidationRun } from '../core/MockDataService';
+import { DEFAULT_CHUNK_SIZE } from '../core/chunkedValidation';
+import { CellFinding, describeFindings, indexFindings, rowsForAlert } from '../core/rowFindings';
+import { ruleIdOf } from '../core/ValidationEngine';
+import { datasetPath, datasetRowsPath } from '../lib/routes';
+import ProfilePanel from './ProfilePanel';
+import { describeRule } from './RulesEditor';
 import { Button } from './ui/button';
 
+/** Rows shown, and read from storage, at a time. */
+const PAGE_SIZE = 100;
+
 const DatasetDetail: React.FC = () => {
   const navigate = useNavigate();
-  const [dataset, setDataset] = useState<EcommerceRow[]>([]);
-  const [priceStats, setPriceStats] = useState<any>(null);
-  const [priceDistribution, setPriceDistribution] = useState<any[]>([]);
+  const { name = '' } = useParams();
+  const [searchParams] = useSearchParams();
+  const alertFilter = searchParams.get('alert');
+  const [rowCount, setRowCount] = useState(0);
+  const [page, setPage] = useState(0);
+  const [pageRows, setPageRows] = useState<{ index: number; row: DataRow }[]>([]);
+  const [runs, setRuns] = useState<ValidationRun[]>([]);
+  const [alert, setAlert] = useState<Alert | null>(null);
+  const [updatedAt, setUpdatedAt] = useState<Date | null>(null);
+  const [columns, setColumns] = useState<string[]>([]);
+  const [tab, setTab] = useState<'data' | 'profile'>('data');
+  // The profile reads every row, so it is built the first time its tab opens and then kept.
+  const [profileOpened, setProfileOpened] = useState(false);
 
   useEffect(() => {
     loadDataset();
-  }, []);
+    setProfileOpened(false);
 
-  const loadDataset = async () => {
-    try {
-      const data = await dataService.getDataset();
-      setDataset(data);
+    // Column headers only need the first chunk, not the whole store.
+    let stale = false;
+    setColumns([]);
+    dataService.getRowChunk(name, 0, DEFAULT_CHUNK_SIZE)
+      .then((rows) => {
+        if (!stale) setColumns(Array.from(new Set(rows.flatMap((row) => Object.keys(row)))));
+      })
+      .catch((error) => console.error('Failed to load columns:', error));
+    return () => {
+      stale = true;
+    };
+  }, [name]);
 
-      const prices = data.map(row => row.price).filter(p => !isNaN(p));
-      const stats = calculateStats(prices);
-      setPriceStats(stats);
+  useEffect(() => {
+    if (tab === 'profile') setProfileOpened(true);
+  }, [tab]);
 
-      const distribution = generateDistributionData(prices, 20);
-      setPriceDistribution(distribution);
+  // Drilling down from an alert always lands on the rows.
+  useEffect(() => {
+    if (alertFilter) setTab('data');
+    setPage(0);
+    loadAlert();
+  }, [name, alertFilter]);
+
+  const loadDataset = async () => {
+    try {
+      const info = await dataService.getDatasetInfo(name);
+      setRowCount(info?.rowCount ?? 0);
+      setRuns(await dataService.getRuns(name));
+      setUpdatedAt(info ? new Date(info.updatedAt) : null);
     } catch (error) {
       console.error('Failed to load dataset:', error);
     }
   };
 
-  const highlightAnomalies = (row: EcommerceRow) => {
-    const anomalies = [];
-    if (!row.email || row.email === '') anomalies.push('email');
-    if (row.price > 10000) anomalies.push('price');
-    return anomalies;
+  const loadAlert = async () => {
+    try {
+      const alerts = alertFilter ? await dataService.getAlerts(name) : [];
+      setAlert(alerts.find((a) => a.id === alertFilter) ?? null);
+    } catch (error) {
+      console.error('Failed to load alert:', error);
+    }
+  };
+
+  const alertRows = useMemo(() => (alert ? rowsForAlert(runs, alert) : null), [runs, alert]);
+  // Highlights come from the run being shown: the alert's own, or the latest.
+  const shownRun = alertFilter ? alertRows?.run ?? null : runs[runs.length - 1] ?? null;
+  // Row indices in a run only line up with the rows it validated.
+  const runIsStale = !!shownRun && !!updatedAt && new Date(shownRun.startedAt) < updatedAt;
+
+  const findings = useMemo(() => indexFindings(shownRun?.results ?? []), [shownRun]);
+  const ruleLabels = useMemo(() => new Map(
+    (shownRun?.rules ?? []).map((rule) => {
+      const { title, detail } = describeRule(rule);
+      return [ruleIdOf(rule), `${title}: ${detail}`];
+    })
+  ), [shownRun]);
+
+  const flaggedRows = useMemo(
+    () => (alertRows?.rows ?? []).filter((index) => index < rowCount),
+    [alertRows, rowCount]
+  );
+  const shownCount = alertFilter ? flaggedRows.length : rowCount;
+  const pageCount = Math.max(1, Math.ceil(shownCount / PAGE_SIZE));
+
+  // A drill-down reads only the flagged rows on the current page; otherwise the page is one cursor chunk.
+  useEffect(() => {
+    let stale = false;
+    const from = page * PAGE_SIZE;
+    const read = alertFilter
+      ? dataService.getRows(name, flaggedRows.slice(from, from + PAGE_SIZE))
+      : dataService.getRowChunk(name, from, PAGE_SIZE).then((rows) => rows.map((row, i) => ({ index: from + i, row })));
+    read
+      .then((rows) => {
+        if (!stale) setPageRows(rows);
+      })
+      .catch((error) => console.error('Failed to load rows:', error));
+    return () => {
+      stale = true;
+    };
+  }, [name, page, alertFilter, flaggedRows]);
+
+  const alertLabel = alert
+    ? `${ruleLabels.get(alert.ruleId) ?? alert.ruleId}${alert.violation ? ` (${alert.violation})` : ''}`
+    : 'this alert';
+
+  const renderCell = (row: DataRow, column: string, cellFindings: CellFinding[] = []) => {
+    const value = row[column];
+    const flagged = cellFindings.length > 0;
+    const tooltip = flagged ? describeFindings(cellFindings, ruleLabels) : undefined;
+    const critical = cellFindings.some((finding) => finding.severity === 'critical');
+    const flaggedClass = critical ? 'bg-red-950/40 text-red-400 font-bold' : 'bg-yellow-950/30 text-yellow-400 font-bold';
+
+    if (value === null || value === undefined || value === '') {
+      return (
+        <td key={column} title={tooltip} data-flagged={flagged || undefined} className={`px-4 py-3 text-sm font-mono text-red-400 ${flagged ? flaggedClass : ''}`}>
+          <span className="text-red-500">NULL</span>
+        </td>
+      );
+    }
+
+    if (column === 'status' && !flagged) {
+      return (
+        <td key={column} className="px-4 py-3 text-sm font-mono text-slate-300">
+          <span className={`px-2 py-1 text-xs border ${
+            value === 'completed' ? 'border-emerald-800 text-emerald-400' :
+            value === 'pending' ? 'border-yellow-800 text-yellow-400' :
+            value === 'shipped' ? 'border-blue-800 text-blue-400' :
+            'border-slate-700 text-slate-400'
+          }`}>
+            {String(value)}
+          </span>
+        </td>
+      );
+    }
+
+    return (
+      <td key={column} title={tooltip} data-flagged={flagged || undefined} className={`px-4 py-3 text-sm font-mono ${
+        flagged ? flaggedClass : column === 'id' ? 'text-slate-400' : 'text-slate-300'
+      }`}>
+        {column === 'price' && typeof value === 'number'
+          ? `$${value.toFixed(2)}`
+          : typeof value === 'object' ? JSON.stringify(value) : String(value)}
+      </td>
+    );
   };
 
   return (
@@ -46,7 +167,7 @@ const DatasetDetail: React.FC = () => {
           <div className="flex items-center gap-4">
             <Button
               data-testid="back-btn"
-              onClick={() => navigate('/')}
+              onClick={() => navigate(datasetPath(name))}
               variant="outline"
               className="border-slate-700 text-slate-300 hover:bg-slate-800"
             >
@@ -54,126 +175,129 @@ const DatasetDetail: React.FC = () => {
             </Button>
             <div>
               <h1 className="text-3xl font-bold text-slate-100 tracking-tight">Dataset Explorer</h1>
-              <p className="text-slate-500 font-mono text-sm">{dataset.length} rows loaded</p>
+              <p className="text-slate-500 font-mono text-sm">{name} · {rowCount.toLocaleString()} rows</p>
             </div>
           </div>
         </div>
 
-        {priceStats && (
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
-            <div className="bg-slate-900 border border-slate-800 p-6">
-              <h3 className="text-lg font-bold text-slate-100 mb-4 font-mono flex items-center gap-2">
-                <TrendingUp size={20} className="text-slate-500" />
-                Price Distribution
-              </h3>
-              <ResponsiveContainer width="100%" height={200}>
-                <BarChart data={priceDistribution}>
-                  <XAxis 
-                    dataKey="bin" 
-                    tick={{ fill: '#64748b', fontSize: 10, fontFamily: 'monospace' }}
-                  />
-                  <YAxis 
-                    tick={{ fill: '#64748b', fontSize: 10, fontFamily: 'monospace' }}
-                  />
-                  <Tooltip 
-                    contentStyle={{ 
-                      backgroundColor: '#0f172a', 
-                      border: '1px solid #334155',
-                      fontFamily: 'monospace',
-                      fontSize: 12,
-                    }}
-                  />
-                  <Bar dataKey="count" fill="#475569" />
-                </BarChart>
-              </ResponsiveContainer>
-            </div>
+        <div className="flex gap-2 mb-6">
+          {([['data', Database, 'Raw Data'], ['profile', BarChart3, 'Profile']] as const).map(([key, Icon, label]) => (
+            <button
+              key={key}
+              data-testid={`${key}-tab`}
+              onClick={() => setTab(key)}
+              className={`px-4 py-2 font-mono text-sm border flex items-center gap-2 ${
+                tab === key ? 'border-slate-500 text-slate-100 bg-slate-800' : 'border-slate-800 text-slate-400 hover:text-slate-200'
+              }`}
+            >
+              <Icon size={14} /> {label}
+            </button>
+          ))}
+        </div>
 
-            <div className="bg-slate-900 border border-slate-800 p-6">
-              <h3 className="text-lg font-bold text-slate-100 mb-4 font-mono">Statistical Summary</h3>
-              <div className="grid grid-cols-2 gap-4">
-                <div className="bg-slate-950 border border-slate-800 p-3">
-                  <p className="text-slate-500 text-xs font-mono mb-1">MEAN</p>
-                  <p className="text-slate-200 text-lg font-mono">${priceStats.mean.toFixed(2)}</p>
-                </div>
-                <div className="bg-slate-950 border border-slate-800 p-3">
-                  <p className="text-slate-500 text-xs font-mono mb-1">STD DEV</p>
-                  <p className="text-slate-200 text-lg font-mono">${priceStats.stdDev.toFixed(2)}</p>
-                </div>
-                <div className="bg-slate-950 border border-slate-800 p-3">
-                  <p className="text-slate-500 text-xs font-mono mb-1">MIN</p>
-                  <p className="text-slate-200 text-lg font-mono">${priceStats.min.toFixed(2)}</p>
-                </div>
-                <div className="bg-slate-950 border border-slate-800 p-3">
-                  <p className="text-slate-500 text-xs font-mono mb-1">MAX</p>
-                  <p className="text-slate-200 text-lg font-mono">${priceStats.max.toFixed(2)}</p>
-                </div>
-              </div>
-            </div>
+        {profileOpened && (
+          <div className={tab === 'profile' ? '' : 'hidden'}>
+            <ProfilePanel dataset={name} />
           </div>
         )}
 
-        <div className="bg-slate-900 border border-slate-800 overflow-hidden">
-          <div className="p-6 border-b border-slate-800">
-            <h3 className="text-lg font-bold text-slate-100 font-mono flex items-center gap-2">
-              <Database size={20} className="text-slate-500" />
-              Raw Data View
-            </h3>
+        {tab === 'data' && alertFilter && (
+          <div data-testid="rule-filter-banner" className="bg-slate-900 border border-slate-700 p-4 mb-6 flex items-center justify-between">
+            <p className="text-slate-300 font-mono text-sm flex items-center gap-2">
+              <Filter size={16} className="text-slate-500" />
+              {alertRows?.run
+                ? `${flaggedRows.length} rows flagged by ${alertLabel} in the run of ${new Date(alertRows.run.startedAt).toLocaleString()}`
+                : `The run behind ${alertLabel} is no longer in the history`}
+            </p>
+            <button
+              data-testid="clear-rule-filter-btn"
+              onClick={() => navigate(datasetRowsPath(name))}
+              className="text-slate-400 hover:text-slate-200 font-mono text-xs flex items-center gap-1"
+            >
+              <X size={14} /> show all rows
+            </button>
           </div>
-          <div className="overflow-x-auto">
-            <table className="w-full">
-              <thead className="bg-slate-950 border-b border-slate-800">
-                <tr>
-                  <th className="px-4 py-3 text-left text-xs font-mono text-slate-400 uppercase tracking-wider">ID</th>
-                  <th className="px-4 py-3 text-left text-xs font-mono text-slate-400 uppercase tracking-wider">Order ID</th>
-                  <th className="px-4 py-3 text-left text-xs font-mono text-slate-400 uppercase tracking-wider">Email</th>
-                  <th className="px-4 py-3 text-left text-xs font-mono text-slate-400 uppercase tracking-wider">Product</th>
-                  <th className="px-4 py-3 text-left text-xs font-mono text-slate-400 uppercase tracking-wider">Quantity</th>
-                  <th className="px-4 py-3 text-left text-xs font-mono text-slate-400 uppercase tracking-wider">Price</th>
-                  <th className="px-4 py-3 text-left text-xs font-mono text-slate-400 uppercase tracking-wider">Status</th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-slate-800">
-                {dataset.map((row) => {
-                  const anomalies = highlightAnomalies(row);
-                  return (
-                    <tr 
-                      key={row.id} 
-                      data-testid="data-row"
-                      className={`hover:bg-slate-800/50 ${
-                        anomalies.length > 0 ? 'bg-red-950/10' : ''
-                      }`}
-                    >
-                      <td className="px-4 py-3 text-sm font-mono text-slate-400">{row.id}</td>
-                      <td className="px-4 py-3 text-sm font-mono text-slate-300">{row.orderId}</td>
-                      <td className={`px-4 py-3 text-sm font-mono ${
-                        anomalies.includes('email') ? 'text-red-400' : 'text-slate-300'
-                      }`}>
-                        {row.email || <span className="text-red-500">NULL</span>}
-                      </td>
-                      <td className="px-4 py-3 text-sm font-mono text-slate-300">{row.productName}</td>
-                      <td className="px-4 py-3 text-sm font-mono text-slate-300">{row.quantity}</td>
-                      <td className={`px-4 py-3 text-sm font-mono ${
-                        anomalies.includes('price') ? 'text-red-400 font-bold' : 'text-slate-300'
-                      }`}>
-                        ${row.price.toFixed(2)}
-                      </td>
-                      <td className="px-4 py-3 text-sm font-mono text-slate-300">
-                        <span className={`px-2 py-1 text-xs border ${
-                          row.status === 'completed' ? 'border-emerald-800 text-emerald-400' :
-                          row.status === 'pending' ? 'border-yellow-800 text-yellow-400' :
-                          row.status === 'shipped' ? 'border-blue-800 text-blue-400' :
-                          'border-slate-700 text-slate-400'
-                        }`}>
-                          {row.status}
-                        </span>
-                      </td>
-                    </tr>
-                  );
-                })}
-              </tbody>
-            </table>
+        )}
+
+        {tab === 'data' && alertRows?.run && !alertRows.latest && (
+          <p data-testid="alert-run-not-latest" className="text-yellow-500 font-mono text-xs mb-3">
+            This alert is from an earlier run than the latest; its rows may have been fixed or changed since.
+          </p>
+        )}
+
+        {tab === 'data' && runIsStale && (
+          <p className="text-yellow-500 font-mono text-xs mb-6">
+            The dataset changed after the validation run shown here; re-run validation to refresh the highlights.
+          </p>
+        )}
+
+        {tab === 'data' && (
+          <div className="bg-slate-900 border border-slate-800 overflow-hidden">
+            <div className="p-6 border-b border-slate-800">
+              <h3 className="text-lg font-bold text-slate-100 font-mono flex items-center gap-2">
+                <Database size={20} className="text-slate-500" />
+                Raw Data View
+              </h3>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-slate-950 border-b border-slate-800">
+                  <tr>
+                    {columns.map((column) => (
+                      <th key={column} className="px-4 py-3 text-left text-xs font-mono text-slate-400 uppercase tracking-wider">
+                        {column}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-800">
+                  {pageRows.map(({ index, row }) => {
+                    const rowFindings = findings.get(index);
+                    return (
+                      <tr 
+                        key={index} 
+                        data-testid="data-row"
+                        className={`hover:bg-slate-800/50 ${
+                          rowFindings ? 'bg-red-950/10' : ''
+                        }`}
+                      >
+                        {columns.map((column) => renderCell(row, column, rowFindings?.get(column)))}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            {shownCount > PAGE_SIZE && (
+              <div className="p-4 border-t border-slate-800 flex items-center justify-between text-xs font-mono text-slate-400">
+                <span data-testid="page-range">
+                  {alertFilter ? 'flagged rows' : 'rows'} {(page * PAGE_SIZE + 1).toLocaleString()}–
+                  {Math.min((page + 1) * PAGE_SIZE, shownCount).toLocaleString()} of {shownCount.toLocaleString()}
+                </span>
+                <div className="flex gap-2">
+                  <Button
+                    data-testid="prev-page-btn"
+                    onClick={() => setPage(page - 1)}
+                    disabled={page === 0}
+                    variant="outline"
+                    className="border-slate-700 text-slate-300 hover:bg-slate-800 font-mono"
+                  >
+                    Previous
+                  </Button>
+                  <Button
+                    data-testid="next-page-btn"
+                    onClick={() => setPage(page + 1)}
+                    disabled={page + 1 >= pageCount}
+                    variant="outline"
+                    className="border-slate-700 text-slate-300 hover:bg-slate-800 font-mono"
+                  >
+                    Next
+                  </Button>
+                </div>
+              </div>
+            )}
           </div>
-        </div>
+        )}
       </div>
     </div>
   );
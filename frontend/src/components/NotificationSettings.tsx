@@ -0,0 +1,412 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Bell, Pencil, Power, RefreshCw, Send, Trash2 } from 'lucide-react';
+import { Alert, dataService } from '../core/MockDataService';
+import { DeliveryLogEntry, NotificationRoute, NotificationTemplate, OutboxEntry } from '../core/notifications';
+import { flushOutbox, sendTestNotification } from '../core/notificationDispatcher';
+import { Button } from './ui/button';
+
+interface RouteDraft {
+  name: string;
+  url: string;
+  template: NotificationTemplate;
+  minSeverity: Alert['severity'];
+  /** Comma-separated; empty matches everything. */
+  datasets: string;
+  columns: string;
+  sendResolved: boolean;
+}
+
+const emptyDraft: RouteDraft = {
+  name: '',
+  url: '',
+  template: 'slack',
+  minSeverity: 'warning',
+  datasets: '',
+  columns: '',
+  sendResolved: false,
+};
+
+const inputClass = 'bg-slate-950 border border-slate-700 text-slate-300 text-sm font-mono px-2 py-1 w-full';
+
+const splitList = (value: string) => value.split(',').map((item) => item.trim()).filter(Boolean);
+
+const isWebhookUrl = (value: string) => /^https?:\/\/\S+$/.test(value.trim());
+
+const formatTimestamp = (timestamp: Date) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+
+const OUTCOME_STYLES: Record<DeliveryLogEntry['outcome'], string> = {
+  delivered: 'text-emerald-400',
+  retrying: 'text-yellow-400',
+  failed: 'text-red-400',
+};
+
+const describeScope = (route: NotificationRoute) => {
+  const datasets = route.datasets.length > 0 ? route.datasets.join(', ') : 'all datasets';
+  const columns = route.columns.length > 0 ? ` · ${route.columns.join(', ')}` : '';
+  return `${route.minSeverity}+ · ${datasets}${columns} · ${route.template}${route.sendResolved ? ' · resolutions' : ''}`;
+};
+
+const NotificationSettings: React.FC = () => {
+  const navigate = useNavigate();
+  const [routes, setRoutes] = useState<NotificationRoute[]>([]);
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const [log, setLog] = useState<DeliveryLogEntry[]>([]);
+  const [draft, setDraft] = useState<RouteDraft | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const load = async () => {
+    try {
+      const [savedRoutes, pending, deliveries] = await Promise.all([
+        dataService.getNotificationRoutes(),
+        dataService.getOutbox(),
+        dataService.getDeliveryLog(),
+      ]);
+      setRoutes(savedRoutes);
+      setOutbox(pending);
+      setLog(deliveries);
+    } catch (error) {
+      console.error('Failed to load notification settings:', error);
+    }
+  };
+
+  const routeName = (id: string) => routes.find((route) => route.id === id)?.name ?? 'deleted route';
+
+  const startCreate = () => {
+    setEditingId(null);
+    setDraft(emptyDraft);
+  };
+
+  const startEdit = (route: NotificationRoute) => {
+    setEditingId(route.id);
+    setDraft({
+      name: route.name,
+      url: route.url,
+      template: route.template,
+      minSeverity: route.minSeverity,
+      datasets: route.datasets.join(', '),
+      columns: route.columns.join(', '),
+      sendResolved: route.sendResolved,
+    });
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setDraft(null);
+  };
+
+  const handleSave = async () => {
+    if (!draft || !isWebhookUrl(draft.url)) return;
+    const existing = routes.find((route) => route.id === editingId);
+
+    try {
+      await dataService.saveNotificationRoute({
+        id: existing?.id,
+        name: draft.name.trim() || draft.url.trim(),
+        url: draft.url.trim(),
+        template: draft.template,
+        enabled: existing?.enabled ?? true,
+        minSeverity: draft.minSeverity,
+        datasets: splitList(draft.datasets),
+        columns: splitList(draft.columns),
+        sendResolved: draft.sendResolved,
+      });
+      cancelEdit();
+      await load();
+    } catch (error) {
+      console.error('Failed to save notification route:', error);
+    }
+  };
+
+  const handleToggle = async (route: NotificationRoute) => {
+    try {
+      await dataService.saveNotificationRoute({ ...route, enabled: !route.enabled });
+      await load();
+    } catch (error) {
+      console.error('Failed to toggle notification route:', error);
+    }
+  };
+
+  const handleDelete = async (route: NotificationRoute) => {
+    try {
+      await dataService.deleteNotificationRoute(route.id);
+      await load();
+    } catch (error) {
+      console.error('Failed to delete notification route:', error);
+    }
+  };
+
+  const handleTest = async (route: NotificationRoute) => {
+    try {
+      await sendTestNotification(route);
+    } catch (error) {
+      console.error('Failed to send test notification:', error);
+    }
+    await load();
+  };
+
+  const handleRetry = async () => {
+    try {
+      await dataService.retryOutbox();
+      await flushOutbox();
+    } catch (error) {
+      console.error('Failed to retry notifications:', error);
+    }
+    await load();
+  };
+
+  const renderForm = () => draft && (
+    <div data-testid="route-form" className="bg-slate-950 border border-slate-700 p-4 space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          data-testid="route-name-input"
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          placeholder="name, e.g. #data-oncall"
+          className={inputClass}
+        />
+        <input
+          data-testid="route-url-input"
+          value={draft.url}
+          onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+          placeholder="https://hooks.slack.com/services/…"
+          className={inputClass}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          data-testid="route-template-select"
+          value={draft.template}
+          onChange={(e) => setDraft({ ...draft, template: e.target.value as NotificationTemplate })}
+          className={inputClass}
+        >
+          <option value="slack">Slack message</option>
+          <option value="json">generic JSON</option>
+        </select>
+        <select
+          data-testid="route-severity-select"
+          value={draft.minSeverity}
+          onChange={(e) => setDraft({ ...draft, minSeverity: e.target.value as Alert['severity'] })}
+          className={inputClass}
+        >
+          <option value="info">info and above</option>
+          <option value="warning">warning and above</option>
+          <option value="critical">critical only</option>
+        </select>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          data-testid="route-datasets-input"
+          value={draft.datasets}
+          onChange={(e) => setDraft({ ...draft, datasets: e.target.value })}
+          placeholder="datasets, comma-separated (default all)"
+          className={inputClass}
+        />
+        <input
+          data-testid="route-columns-input"
+          value={draft.columns}
+          onChange={(e) => setDraft({ ...draft, columns: e.target.value })}
+          placeholder="columns, comma-separated (default all)"
+          className={inputClass}
+        />
+      </div>
+      {draft.template === 'json' && (
+        <p data-testid="route-cors-note" className="text-slate-500 text-xs font-mono">
+          Generic JSON is sent from the browser as application/json, so the endpoint must answer CORS preflights
+          from this site.
+        </p>
+      )}
+      <label className="flex items-center gap-2 text-slate-400 text-xs font-mono">
+        <input
+          type="checkbox"
+          checked={draft.sendResolved}
+          onChange={(e) => setDraft({ ...draft, sendResolved: e.target.checked })}
+        />
+        also notify when an alert resolves itself
+      </label>
+      <div className="flex gap-2">
+        <Button
+          data-testid="route-save-btn"
+          onClick={handleSave}
+          disabled={!isWebhookUrl(draft.url)}
+          className="bg-slate-800 hover:bg-slate-700 text-slate-100 border border-slate-700 font-mono"
+        >
+          {editingId ? 'Save' : 'Add Route'}
+        </Button>
+        <Button
+          onClick={cancelEdit}
+          variant="outline"
+          className="border-slate-700 text-slate-300 hover:bg-slate-800 font-mono"
+        >
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-slate-950 p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8 flex items-center gap-4">
+          <Button
+            data-testid="back-btn"
+            onClick={() => navigate('/')}
+            variant="outline"
+            className="border-slate-700 text-slate-300 hover:bg-slate-800"
+          >
+            <ArrowLeft size={16} className="mr-2" /> Back
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-slate-100 tracking-tight">Notifications</h1>
+            <p className="text-slate-500 font-mono text-sm">
+              {routes.length} routes · {outbox.length} waiting in the outbox
+            </p>
+          </div>
+        </div>
+
+        <div className="bg-slate-900 border border-slate-800 p-6 mb-8">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-bold text-slate-100 font-mono flex items-center gap-2">
+              <Bell size={20} className="text-slate-500" />
+              Webhook Routes
+            </h3>
+            {!draft && (
+              <Button
+                data-testid="route-add-btn"
+                onClick={startCreate}
+                className="bg-slate-800 hover:bg-slate-700 text-slate-100 border border-slate-700 font-mono"
+              >
+                Add Route
+              </Button>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            {!editingId && renderForm()}
+            {routes.length === 0 && !draft && (
+              <p className="text-slate-500 text-xs font-mono">No routes yet; alerts are only shown in the app</p>
+            )}
+            {routes.map((route) =>
+              route.id === editingId ? (
+                <div key={route.id}>{renderForm()}</div>
+              ) : (
+                <div
+                  key={route.id}
+                  data-testid="route-item"
+                  className={`bg-slate-950 border border-slate-800 p-4 flex items-start justify-between ${
+                    route.enabled ? '' : 'opacity-50'
+                  }`}
+                >
+                  <div>
+                    <p className="text-slate-300 font-mono text-sm mb-1">{route.name}</p>
+                    <p className="text-slate-500 text-xs font-mono break-all">{route.url}</p>
+                    <p className="text-slate-500 text-xs font-mono">{describeScope(route)}</p>
+                  </div>
+                  <div className="flex items-center gap-2 text-slate-600">
+                    <button
+                      data-testid="route-test-btn"
+                      onClick={() => handleTest(route)}
+                      className="hover:text-slate-300"
+                      aria-label="Send test notification"
+                    >
+                      <Send size={14} />
+                    </button>
+                    <button
+                      data-testid="route-toggle-btn"
+                      onClick={() => handleToggle(route)}
+                      className={route.enabled ? 'text-emerald-500 hover:text-emerald-400' : 'hover:text-slate-300'}
+                      aria-label={route.enabled ? 'Disable route' : 'Enable route'}
+                    >
+                      <Power size={14} />
+                    </button>
+                    <button onClick={() => startEdit(route)} className="hover:text-slate-300" aria-label="Edit route">
+                      <Pencil size={14} />
+                    </button>
+                    <button onClick={() => handleDelete(route)} className="hover:text-red-400" aria-label="Delete route">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              )
+            )}
+          </div>
+        </div>
+
+        {outbox.length > 0 && (
+          <div data-testid="outbox" className="bg-yellow-950/20 border border-yellow-900 p-4 mb-8">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-yellow-400 text-sm font-mono">{outbox.length} notifications waiting to be delivered</p>
+              <Button
+                data-testid="outbox-retry-btn"
+                onClick={handleRetry}
+                variant="outline"
+                className="border-yellow-900 text-yellow-400 hover:bg-yellow-950/40 font-mono"
+              >
+                <RefreshCw size={14} className="mr-2" /> Retry now
+              </Button>
+            </div>
+            {outbox.slice(0, 5).map((entry) => (
+              <p key={entry.id} className="text-slate-400 text-xs font-mono">
+                {routeName(entry.routeId)} · {entry.dataset} · {entry.event} · next try {formatTimestamp(entry.nextAttemptAt)}
+                {entry.lastError && ` · ${entry.lastError}`}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <div className="bg-slate-900 border border-slate-800 overflow-hidden">
+          <div className="p-6 border-b border-slate-800 flex items-center justify-between">
+            <h3 className="text-lg font-bold text-slate-100 font-mono">Delivery Log</h3>
+            <button onClick={load} className="text-slate-500 hover:text-slate-200" aria-label="Refresh delivery log">
+              <RefreshCw size={16} />
+            </button>
+          </div>
+          {log.length === 0 ? (
+            <p className="p-6 text-slate-500 text-xs font-mono">Nothing sent yet</p>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-slate-950 border-b border-slate-800">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-mono text-slate-400 uppercase tracking-wider">Time</th>
+                  <th className="px-4 py-3 text-left text-xs font-mono text-slate-400 uppercase tracking-wider">Route</th>
+                  <th className="px-4 py-3 text-left text-xs font-mono text-slate-400 uppercase tracking-wider">Dataset</th>
+                  <th className="px-4 py-3 text-left text-xs font-mono text-slate-400 uppercase tracking-wider">Event</th>
+                  <th className="px-4 py-3 text-right text-xs font-mono text-slate-400 uppercase tracking-wider">Attempt</th>
+                  <th className="px-4 py-3 text-left text-xs font-mono text-slate-400 uppercase tracking-wider">Outcome</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800">
+                {log.map((entry) => (
+                  <tr key={entry.id} data-testid="delivery-row">
+                    <td className="px-4 py-3 text-sm font-mono text-slate-400">{formatTimestamp(entry.timestamp)}</td>
+                    <td className="px-4 py-3 text-sm font-mono text-slate-300">{routeName(entry.routeId)}</td>
+                    <td className="px-4 py-3 text-sm font-mono text-slate-300">{entry.dataset}</td>
+                    <td className="px-4 py-3 text-sm font-mono text-slate-400">{entry.event}</td>
+                    <td className="px-4 py-3 text-sm font-mono text-slate-400 text-right">{entry.attempt}</td>
+                    <td className={`px-4 py-3 text-sm font-mono ${OUTCOME_STYLES[entry.outcome]}`}>
+                      {entry.outcome}
+                      {entry.error && <span className="text-slate-500"> · {entry.error}</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NotificationSettings;
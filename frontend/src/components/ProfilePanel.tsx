@@ -0,0 +1,301 @@
+import { useEffect, useState } from 'react';
+import { BarChart3, GitCompare, Save, Trash2 } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { dataService, SavedProfile } from '../core/MockDataService';
+import { learnInChunks } from '../core/chunkedValidation';
+import { ColumnProfile, ColumnProfileChange, DatasetProfile, compareProfiles, profileLearner } from '../core/columnProfiler';
+import { isCancellation } from '../core/validationWorkerClient';
+import { Button } from './ui/button';
+
+interface ProfilePanelProps {
+  dataset: string;
+}
+
+const CURRENT = 'current';
+
+const axisTick = { fill: '#64748b', fontSize: 10, fontFamily: 'monospace' };
+const tooltipStyle = {
+  backgroundColor: '#0f172a',
+  border: '1px solid #334155',
+  fontFamily: 'monospace',
+  fontSize: 12,
+};
+const selectClass = 'bg-slate-950 border border-slate-700 text-slate-300 text-xs font-mono px-2 py-1';
+
+const CHANGE_STYLES: Record<ColumnProfileChange, string> = {
+  added: 'text-blue-400',
+  removed: 'text-red-400',
+  changed: 'text-yellow-400',
+  unchanged: 'text-slate-500',
+};
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const formatNumber = (value: number) => (Number.isInteger(value) ? String(value) : value.toFixed(2));
+
+const formatMetric = (value: string | number) => (typeof value === 'number' ? formatNumber(value) : value);
+
+const Stat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="bg-slate-950 border border-slate-800 p-2">
+    <p className="text-slate-500 text-[10px] font-mono uppercase">{label}</p>
+    <p className="text-slate-200 text-sm font-mono truncate" title={value}>{value}</p>
+  </div>
+);
+
+const ColumnCard: React.FC<{ column: ColumnProfile }> = ({ column }) => (
+  <div data-testid="profile-column" className="bg-slate-900 border border-slate-800 p-4 space-y-3">
+    <div className="flex items-baseline justify-between">
+      <h4 className="text-slate-100 font-mono font-bold">{column.name}</h4>
+      <span className="text-slate-500 font-mono text-xs">
+        {column.type}{column.format && ` · ${column.format}`}
+      </span>
+    </div>
+
+    <div className="grid grid-cols-3 gap-2">
+      <Stat label="null %" value={`${(column.nullRate * 100).toFixed(1)}%`} />
+      <Stat label="nulls" value={String(column.nullCount)} />
+      <Stat label="distinct" value={String(column.distinctCount)} />
+    </div>
+
+    {column.numeric && (
+      <>
+        <div className="grid grid-cols-4 gap-2">
+          <Stat label="min" value={formatNumber(column.numeric.min)} />
+          <Stat label="p25" value={formatNumber(column.numeric.percentiles.p25)} />
+          <Stat label="median" value={formatNumber(column.numeric.percentiles.p50)} />
+          <Stat label="p75" value={formatNumber(column.numeric.percentiles.p75)} />
+          <Stat label="p95" value={formatNumber(column.numeric.percentiles.p95)} />
+          <Stat label="max" value={formatNumber(column.numeric.max)} />
+          <Stat label="mean" value={formatNumber(column.numeric.mean)} />
+          <Stat label="std dev" value={formatNumber(column.numeric.stdDev)} />
+        </div>
+        <ResponsiveContainer width="100%" height={120}>
+          <BarChart data={column.numeric.histogram}>
+            <XAxis dataKey="bin" tick={axisTick} />
+            <YAxis tick={axisTick} width={30} />
+            <Tooltip contentStyle={tooltipStyle} />
+            <Bar dataKey="count" fill="#475569" isAnimationActive={false} />
+          </BarChart>
+        </ResponsiveContainer>
+      </>
+    )}
+
+    {column.text && (
+      <>
+        <div className="grid grid-cols-3 gap-2">
+          <Stat label="min len" value={String(column.text.minLength)} />
+          <Stat label="avg len" value={column.text.avgLength.toFixed(1)} />
+          <Stat label="max len" value={String(column.text.maxLength)} />
+        </div>
+        <div>
+          <p className="text-slate-500 text-[10px] font-mono uppercase mb-1">Patterns</p>
+          {column.text.patterns.map(({ pattern, count }) => (
+            <div key={pattern} className="flex justify-between text-xs font-mono">
+              <span className="text-slate-300 whitespace-pre">{pattern}</span>
+              <span className="text-slate-500">{count}</span>
+            </div>
+          ))}
+        </div>
+      </>
+    )}
+
+    {column.dates && (
+      <div className="grid grid-cols-3 gap-2">
+        <Stat label="earliest" value={column.dates.earliest.slice(0, 10)} />
+        <Stat label="latest" value={column.dates.latest.slice(0, 10)} />
+        <Stat label="span" value={`${column.dates.spanDays.toFixed(0)} days`} />
+      </div>
+    )}
+
+    <div>
+      <p className="text-slate-500 text-[10px] font-mono uppercase mb-1">Top values</p>
+      {column.topValues.map(({ value, count }) => (
+        <div key={value} className="flex justify-between gap-2 text-xs font-mono">
+          <span className="text-slate-300 truncate" title={value}>{value}</span>
+          <span className="text-slate-500">{count}</span>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+const ProfilePanel: React.FC<ProfilePanelProps> = ({ dataset }) => {
+  const [profile, setProfile] = useState<DatasetProfile | null>(null);
+  const [saved, setSaved] = useState<SavedProfile[]>([]);
+  const [before, setBefore] = useState('');
+  const [after, setAfter] = useState(CURRENT);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [dataset]);
+
+  // One pass over the stored rows, a chunk at a time, so only sketches are held.
+  useEffect(() => {
+    const controller = new AbortController();
+    setProfile(null);
+    learnInChunks(
+      (fromIndex, limit) => dataService.getRowChunk(dataset, fromIndex, limit),
+      profileLearner(dataset),
+      { signal: controller.signal }
+    )
+      .then((learned) => {
+        if (!controller.signal.aborted) setProfile(learned);
+      })
+      .catch((error) => {
+        if (!isCancellation(error)) console.error('Failed to profile dataset:', error);
+      });
+    return () => controller.abort();
+  }, [dataset]);
+
+  const loadProfiles = async () => {
+    try {
+      setSaved(await dataService.getProfiles(dataset));
+    } catch (error) {
+      console.error('Failed to load saved profiles:', error);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!profile) return;
+    try {
+      const savedProfile = await dataService.saveProfile(profile);
+      await loadProfiles();
+      setBefore(savedProfile.id);
+    } catch (error) {
+      console.error('Failed to save profile:', error);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await dataService.deleteProfile(id);
+      if (before === id) setBefore('');
+      if (after === id) setAfter(CURRENT);
+      await loadProfiles();
+    } catch (error) {
+      console.error('Failed to delete profile:', error);
+    }
+  };
+
+  const pick = (id: string) => (id === CURRENT ? profile ?? undefined : saved.find((p) => p.id === id));
+  const beforeProfile = pick(before);
+  const afterProfile = pick(after);
+  const comparison = beforeProfile && afterProfile ? compareProfiles(beforeProfile, afterProfile) : [];
+
+  const renderOptions = () => (
+    <>
+      <option value={CURRENT}>current data</option>
+      {saved.map((p) => (
+        <option key={p.id} value={p.id}>{formatTimestamp(p.capturedAt)} · {p.rowCount} rows</option>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-slate-900 border border-slate-800 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-slate-100 font-mono flex items-center gap-2">
+            <BarChart3 size={20} className="text-slate-500" />
+            Column Profile
+            <span className="text-slate-500 text-sm font-normal">
+              {profile ? `${profile.columns.length} columns · ${profile.rowCount} rows` : 'profiling every row…'}
+            </span>
+          </h3>
+          <Button
+            data-testid="save-profile-btn"
+            onClick={handleSave}
+            disabled={!profile || profile.rowCount === 0}
+            className="bg-slate-800 hover:bg-slate-700 text-slate-100 border border-slate-700 font-mono"
+          >
+            <Save size={14} className="mr-2" /> Save Profile
+          </Button>
+        </div>
+
+        {saved.length > 0 && (
+          <div className="space-y-1">
+            {[...saved].reverse().map((p) => (
+              <div key={p.id} data-testid="saved-profile" className="flex items-center justify-between text-xs font-mono text-slate-400">
+                <span>{formatTimestamp(p.capturedAt)} · {p.rowCount} rows · {p.columns.length} columns</span>
+                <button
+                  onClick={() => handleDelete(p.id)}
+                  className="text-slate-500 hover:text-red-400"
+                  aria-label={`Delete profile from ${formatTimestamp(p.capturedAt)}`}
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {saved.length > 0 && (
+        <div data-testid="profile-comparison" className="bg-slate-900 border border-slate-800 overflow-hidden">
+          <div className="p-6 border-b border-slate-800 flex flex-wrap items-center gap-2">
+            <GitCompare size={20} className="text-slate-500" />
+            <span className="text-slate-100 font-mono font-bold mr-2">Compare</span>
+            <select
+              data-testid="profile-before-select"
+              value={before}
+              onChange={(e) => setBefore(e.target.value)}
+              className={selectClass}
+            >
+              <option value="">choose a profile</option>
+              {renderOptions()}
+            </select>
+            <span className="text-slate-500 font-mono">→</span>
+            <select
+              data-testid="profile-after-select"
+              value={after}
+              onChange={(e) => setAfter(e.target.value)}
+              className={selectClass}
+            >
+              {renderOptions()}
+            </select>
+          </div>
+          {comparison.length > 0 && (
+            <table className="w-full">
+              <thead className="bg-slate-950 border-b border-slate-800">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-mono text-slate-400 uppercase tracking-wider">Column</th>
+                  <th className="px-4 py-3 text-left text-xs font-mono text-slate-400 uppercase tracking-wider">Change</th>
+                  <th className="px-4 py-3 text-left text-xs font-mono text-slate-400 uppercase tracking-wider">Differences</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800">
+                {comparison.map((row) => (
+                  <tr key={row.column} data-testid="profile-comparison-row">
+                    <td className="px-4 py-3 text-sm font-mono text-slate-300">{row.column}</td>
+                    <td className={`px-4 py-3 text-sm font-mono ${CHANGE_STYLES[row.change]}`}>{row.change}</td>
+                    <td className="px-4 py-3 text-xs font-mono text-slate-400">
+                      {row.differences.map((d) => (
+                        <div key={d.metric}>
+                          {d.metric}: {formatMetric(d.before)} → {formatMetric(d.after)}
+                        </div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-4">
+        {profile?.columns.map((column) => (
+          <ColumnCard key={column.name} column={column} />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ProfilePanel;
@@ -0,0 +1,57 @@
+import { Layers } from 'lucide-react';
+import { DQ_DIMENSIONS, DimensionWeights, QualityScore } from '../core/qualityScore';
+
+interface QualityDimensionsProps {
+  /** Score of the latest run, or null before the dataset was first validated. */
+  quality: QualityScore | null;
+  weights: DimensionWeights;
+  onWeightsChange: (weights: DimensionWeights) => void;
+}
+
+const scoreColor = (score: number) => (score >= 95 ? 'bg-emerald-600' : score >= 80 ? 'bg-yellow-600' : 'bg-red-600');
+
+const QualityDimensions: React.FC<QualityDimensionsProps> = ({ quality, weights, onWeightsChange }) => {
+  const handleWeightChange = (dimension: string, value: string) => {
+    const weight = parseFloat(value);
+    onWeightsChange({ ...weights, [dimension]: isNaN(weight) || weight < 0 ? 0 : weight });
+  };
+
+  return (
+    <div data-testid="quality-dimensions" className="bg-slate-900 border border-slate-800 p-6">
+      <h3 className="text-lg font-bold text-slate-100 font-mono mb-4 flex items-center gap-2">
+        <Layers size={20} className="text-slate-500" />
+        Quality Dimensions
+      </h3>
+      <div className="space-y-3">
+        {DQ_DIMENSIONS.map((dimension) => {
+          const scored = quality?.dimensions.find((d) => d.dimension === dimension);
+          return (
+            <div key={dimension} data-testid="quality-dimension" className="grid grid-cols-[7rem_1fr_4rem_4rem] items-center gap-3">
+              <span className="text-slate-300 font-mono text-sm capitalize">{dimension}</span>
+              <div className="h-2 bg-slate-950 border border-slate-800">
+                {scored && <div className={`h-full ${scoreColor(scored.score)}`} style={{ width: `${scored.score}%` }} />}
+              </div>
+              <span className="text-slate-400 font-mono text-xs text-right" title={scored ? `${scored.rules} rules` : 'No scored rules'}>
+                {scored ? `${scored.score.toFixed(1)}%` : '—'}
+              </span>
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={weights[dimension] ?? 1}
+                onChange={(e) => handleWeightChange(dimension, e.target.value)}
+                aria-label={`${dimension} weight`}
+                className="bg-slate-950 border border-slate-700 text-slate-300 text-xs font-mono px-2 py-1 w-full"
+              />
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-slate-500 text-xs font-mono mt-4">
+        The DQ score is the weighted mean of the scored dimensions; each dimension is the weighted pass rate of its rules.
+      </p>
+    </div>
+  );
+};
+
+export default QualityDimensions;
@@ -0,0 +1,173 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Check, Lightbulb, X } from 'lucide-react';
+import { dataService, ValidationRule } from '../core/MockDataService';
+import { ValidationConfig, allowedValuesLearner } from '../core/ValidationEngine';
+import { RowSample, learnInChunks, reservoirSample } from '../core/chunkedValidation';
+import { DatasetProfile, profileDataset } from '../core/columnProfiler';
+import { MAX_SUGGESTED_CATEGORIES, RuleSuggestion, recommendRules } from '../core/ruleRecommender';
+import { isCancellation } from '../core/validationWorkerClient';
+import { describeRule } from './RulesEditor';
+import { Button } from './ui/button';
+
+/**
+ * Size of the random sample rule suggestions profile. It is drawn from the
+ * whole dataset, streamed chunk by chunk, so only this many rows are held.
+ */
+const SAMPLE_ROWS = 5000;
+
+interface RuleSuggestionsProps {
+  dataset: string;
+  rules: ValidationRule[];
+  onRulesChanged: () => Promise<void>;
+}
+
+const confidenceColor = (confidence: number) =>
+  confidence >= 0.8 ? 'text-emerald-400' : confidence >= 0.5 ? 'text-yellow-400' : 'text-slate-400';
+
+const RuleSuggestions: React.FC<RuleSuggestionsProps> = ({ dataset, rules, onRulesChanged }) => {
+  const [dismissed, setDismissed] = useState<string[]>([]);
+  const [sample, setSample] = useState<RowSample | null>(null);
+  const [profile, setProfile] = useState<DatasetProfile | null>(null);
+  const [sampling, setSampling] = useState(false);
+  const scan = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    setSample(null);
+    setProfile(null);
+    dataService.getDatasetInfo(dataset)
+      .then((info) => setDismissed(info?.dismissedSuggestions ?? []))
+      .catch((error) => console.error('Failed to load dismissed suggestions:', error));
+    // A scan still running belongs to the dataset we are leaving.
+    return () => scan.current?.abort();
+  }, [dataset]);
+
+  const suggestions = useMemo(
+    () => (profile ? recommendRules(profile, rules, dismissed) : []),
+    [profile, rules, dismissed]
+  );
+
+  // The sample is only drawn when asked for, since it takes a pass over every row.
+  const handleSuggest = async () => {
+    scan.current?.abort();
+    const controller = new AbortController();
+    scan.current = controller;
+    setSampling(true);
+    try {
+      const drawn = await learnInChunks(
+        (fromIndex, limit) => dataService.getRowChunk(dataset, fromIndex, limit),
+        reservoirSample(SAMPLE_ROWS),
+        { signal: controller.signal }
+      );
+      if (controller.signal.aborted) return;
+      setSample(drawn);
+      setProfile(profileDataset(dataset, drawn.rows, { topN: MAX_SUGGESTED_CATEGORIES }));
+    } catch (error) {
+      if (!isCancellation(error)) {
+        console.error('Failed to sample rows:', error);
+      }
+    } finally {
+      if (scan.current === controller) {
+        scan.current = null;
+        setSampling(false);
+      }
+    }
+  };
+
+  // A domain seen in the sample misses categories too rare to be drawn, so it is relearned from every row.
+  const withFullDomain = async (config: ValidationConfig): Promise<ValidationConfig> => {
+    if (config.strategy !== 'AllowedValues') return config;
+    const allowedValues = await learnInChunks(
+      (fromIndex, limit) => dataService.getRowChunk(dataset, fromIndex, limit),
+      allowedValuesLearner(config.column)
+    );
+    return { ...config, params: { ...config.params, allowedValues, learnedAt: new Date().toISOString() } };
+  };
+
+  const handleAccept = async (suggestion: RuleSuggestion) => {
+    try {
+      await dataService.addRule(dataset, await withFullDomain(suggestion.config));
+      await onRulesChanged();
+    } catch (error) {
+      console.error('Failed to add suggested rule:', error);
+    }
+  };
+
+  const handleDismiss = async (suggestion: RuleSuggestion) => {
+    try {
+      await dataService.dismissSuggestion(dataset, suggestion.id);
+      setDismissed([...dismissed, suggestion.id]);
+    } catch (error) {
+      console.error('Failed to dismiss suggestion:', error);
+    }
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-slate-100 font-mono flex items-center gap-2">
+          <Lightbulb size={20} className="text-slate-500" />
+          Suggested Rules
+        </h3>
+        <Button
+          data-testid="suggest-rules-btn"
+          onClick={handleSuggest}
+          disabled={sampling}
+          variant="outline"
+          className="border-slate-700 text-slate-300 hover:bg-slate-800 font-mono"
+        >
+          {sampling ? 'Sampling...' : profile ? 'Re-profile' : 'Suggest'}
+        </Button>
+      </div>
+      <p className="text-slate-500 text-xs font-mono mb-3">
+        {sample
+          ? `Profiled a random sample of ${sample.rows.length.toLocaleString()} of ${sample.rowCount.toLocaleString()} rows`
+          : `Profile a random sample of up to ${SAMPLE_ROWS.toLocaleString()} rows to get rule suggestions`}
+      </p>
+      {profile && suggestions.length === 0 && (
+        <p className="text-slate-500 text-xs font-mono">No new suggestions for this sample</p>
+      )}
+      <div className="space-y-3 max-h-[480px] overflow-y-auto pr-2">
+        {suggestions.map((suggestion) => {
+          const { title, detail } = describeRule(suggestion.config);
+          return (
+            <div key={suggestion.id} data-testid="rule-suggestion" className="bg-slate-950 border border-slate-800 p-4">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <p className="text-slate-300 font-mono text-sm mb-1">{title}</p>
+                  <p className="text-slate-500 text-xs font-mono">{detail}</p>
+                </div>
+                <div className="flex items-center gap-2 text-slate-600">
+                  <button
+                    data-testid="suggestion-accept-btn"
+                    onClick={() => handleAccept(suggestion)}
+                    className="hover:text-emerald-400"
+                    aria-label="Accept suggestion"
+                  >
+                    <Check size={14} />
+                  </button>
+                  <button
+                    data-testid="suggestion-dismiss-btn"
+                    onClick={() => handleDismiss(suggestion)}
+                    className="hover:text-red-400"
+                    aria-label="Dismiss suggestion"
+                  >
+                    <X size={14} />
+                  </button>
+                </div>
+              </div>
+              <p className="text-slate-400 text-xs font-mono mt-2">
+                <span className={confidenceColor(suggestion.confidence)}>
+                  {Math.round(suggestion.confidence * 100)}% confidence
+                </span>
+                {' · '}
+                {suggestion.reason}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default RuleSuggestions;
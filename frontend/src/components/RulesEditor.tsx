@@ -0,0 +1,1013 @@
+import React, { useEffect, useState } from 'react';
+import { Pencil, Trash2, Download, Upload, Plus, Power } from 'lucide-react';
+import { dataService, ValidationRule } from '../core/MockDataService';
+import { RowChunkReader, learnInChunks } from '../core/chunkedValidation';
+import {
+  BUILTIN_FORMATS,
+  ColumnBaseline,
+  ColumnSchema,
+  ColumnType,
+  DEFAULT_DRIFT_THRESHOLDS,
+  DEFAULT_FRESHNESS_SLA_HOURS,
+  DEFAULT_OUTLIER_THRESHOLDS,
+  DEFAULT_SEVERITY_THRESHOLDS,
+  DriftMetric,
+  OutlierMethod,
+  RowLearner,
+  RuleParams,
+  SCHEMA_COLUMN,
+  SeverityThresholds,
+  ValidationConfig,
+  ValidationEngine,
+  allowedValuesLearner,
+  baselineLearner,
+  schemaLearner,
+} from '../core/ValidationEngine';
+import { EXPRESSION_FUNCTIONS, parseExpression } from '../core/expression';
+import { DEFAULT_VOLUME_THRESHOLD } from '../core/volume';
+import { DQ_DIMENSIONS, DqDimension, STRATEGY_DIMENSIONS } from '../core/qualityScore';
+import { EscalationStep } from '../core/alertLifecycle';
+import { parseRuleSet, serializeRuleSet } from '../core/ruleSet';
+import { Button } from './ui/button';
+
+interface RulesEditorProps {
+  dataset: string;
+  /** Every column in the dataset. Schemas, allowed values and baselines are learned from every row. */
+  columns: string[];
+  rules: ValidationRule[];
+  onRulesChanged: () => Promise<void>;
+}
+
+interface RuleDraft {
+  strategy: string;
+  column: string;
+  threshold: string;
+  params: RuleParams;
+  weight: string;
+  /** Empty keeps the strategy's own dimension. */
+  dimension: DqDimension | '';
+  /** Empty keeps the strategy's `DEFAULT_SEVERITY_THRESHOLDS`. */
+  severityUnit: SeverityThresholds['unit'] | '';
+  warningAbove: string;
+  criticalAbove: string;
+  escalation: { afterRuns: string; severity: EscalationStep['severity'] }[];
+}
+
+const STRATEGIES = new ValidationEngine().getStrategyNames();
+
+const COLUMN_TYPES: ColumnType[] = ['number', 'string', 'date', 'boolean', 'object', 'any'];
+
+// Rules checked against whole rows or the dataset rather than one column.
+const isWholeRow = (strategy: string, params: RuleParams) =>
+  strategy === 'Schema' || (strategy === 'Volume' && params.volumeBy !== 'day');
+
+const emptyDraft = (columns: string[]): RuleDraft => ({
+  strategy: STRATEGIES[0],
+  column: columns[0] ?? '',
+  threshold: '',
+  params: {},
+  weight: '',
+  dimension: '',
+  severityUnit: '',
+  warningAbove: '',
+  criticalAbove: '',
+  escalation: [],
+});
+
+const parseCutoff = (value: string) => {
+  const cutoff = value.trim() === '' ? undefined : Number(value);
+  return cutoff !== undefined && !isNaN(cutoff) && cutoff >= 0 ? cutoff : undefined;
+};
+
+const describeCutoffs = (thresholds: SeverityThresholds) =>
+  thresholds.unit === 'rate'
+    ? (cutoff?: number) => (cutoff === undefined ? 'never' : `rate ${cutoff}`)
+    : (cutoff?: number) => (cutoff === undefined ? 'never' : `${cutoff} rows`);
+
+export const describeRule = (rule: ValidationConfig) => {
+  switch (rule.strategy) {
+    case 'Completeness':
+      return { title: 'Completeness Check', detail: `${rule.column} column` };
+    case 'Uniqueness': {
+      const columns = rule.params?.columns;
+      return {
+        title: 'Uniqueness Check',
+        detail: columns && columns.length > 1 ? `(${columns.join(', ')})` : `${rule.column} column`,
+      };
+    }
+    case 'NumericalRange': {
+      const method = rule.params?.method ?? 'zscore';
+      const cutoff = rule.threshold ?? DEFAULT_OUTLIER_THRESHOLDS[method];
+      const detail = {
+        zscore: `z-score > ${cutoff}`,
+        iqr: `IQR fence k=${cutoff}`,
+        mad: `modified z-score > ${cutoff}`,
+        bounds: `outside [${rule.params?.min ?? '-∞'}, ${rule.params?.max ?? '∞'}]`,
+      }[method];
+      return { title: 'Anomaly Detection', detail: `${rule.column} (${detail})` };
+    }
+    case 'Format':
+      return {
+        title: 'Format Check',
+        detail: `${rule.column} (${rule.params?.format ?? `/${rule.params?.pattern ?? ''}/`})`,
+      };
+    case 'ReferentialIntegrity':
+      return {
+        title: 'Referential Integrity',
+        detail: `${rule.column} → ${rule.params?.referenceDataset ?? '?'}.${rule.params?.referenceColumn ?? rule.column}`,
+      };
+    case 'Drift': {
+      const metric = rule.params?.metric;
+      return {
+        title: 'Drift Monitor',
+        detail: `${rule.column} (${metric ? metric.toUpperCase() : 'auto'}${rule.threshold !== undefined ? ` @ ${rule.threshold}` : ''})`,
+      };
+    }
+    case 'Schema': {
+      const schema = rule.params?.schema ?? [];
+      return {
+        title: 'Schema Contract',
+        detail: schema.length > 0 ? `${schema.length} columns${rule.params?.allowNewColumns ? ', new columns allowed' : ''}` : 'no contract captured',
+      };
+    }
+    case 'Volume': {
+      const limit = `±${rule.threshold ?? DEFAULT_VOLUME_THRESHOLD}σ`;
+      return {
+        title: 'Volume Monitor',
+        detail: rule.params?.volumeBy === 'day' ? `rows per ${rule.column} day (${limit})` : `rows per run (${limit})`,
+      };
+    }
+    case 'Expression':
+      return { title: 'Expression Check', detail: rule.params?.expression ?? 'no expression' };
+    case 'Freshness':
+      return {
+        title: 'Freshness Check',
+        detail: `${rule.column} (SLA ${rule.threshold ?? DEFAULT_FRESHNESS_SLA_HOURS}h${rule.params?.dailyCoverage ? ', daily coverage' : ''})`,
+      };
+    case 'AllowedValues': {
+      const values = rule.params?.allowedValues ?? [];
+      const listed = values.slice(0, 4).join(', ') + (values.length > 4 ? ', …' : '');
+      return { title: 'Allowed Values', detail: `${rule.column} ∈ {${listed}}` };
+    }
+    default:
+      return { title: `${rule.strategy} Check`, detail: `${rule.column} column` };
+  }
+};
+
+const inputClass = 'bg-slate-950 border border-slate-700 text-slate-300 text-sm font-mono px-2 py-1 w-full';
+
+const RulesEditor: React.FC<RulesEditorProps> = ({ dataset, columns, rules, onRulesChanged }) => {
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [datasetNames, setDatasetNames] = useState<string[]>([]);
+  const [baselines, setBaselines] = useState<Record<string, ColumnBaseline>>({});
+  const [learning, setLearning] = useState(false);
+
+  useEffect(() => {
+    dataService.listDatasets()
+      .then((datasets) => setDatasetNames(datasets.map((d) => d.name).filter((n) => n !== dataset)))
+      .catch((error) => console.error('Failed to load dataset catalog:', error));
+    loadBaselines();
+  }, [dataset]);
+
+  const loadBaselines = async () => {
+    try {
+      const saved = await dataService.getBaselines(dataset);
+      setBaselines(Object.fromEntries(saved.map((baseline) => [baseline.column, baseline])));
+    } catch (error) {
+      console.error('Failed to load drift baselines:', error);
+    }
+  };
+
+  /** Reads the whole dataset through `learner`; null when it could not be read. */
+  const learn = async <T,>(learner: RowLearner<T>): Promise<T | null> => {
+    const read: RowChunkReader = (fromIndex, limit) => dataService.getRowChunk(dataset, fromIndex, limit);
+    setLearning(true);
+    try {
+      return await learnInChunks(read, learner);
+    } catch (error) {
+      console.error('Failed to read dataset rows:', error);
+      return null;
+    } finally {
+      setLearning(false);
+    }
+  };
+
+  /** Merges learned params into the draft being edited, if it is still open. */
+  const learnParams = async <T,>(learner: RowLearner<T>, toParams: (learned: T) => RuleParams) => {
+    const learned = await learn(learner);
+    if (learned === null) return;
+    const learnedAt = new Date().toISOString();
+    setDraft((current) => current && { ...current, params: { ...current.params, ...toParams(learned), learnedAt } });
+  };
+
+  const handleCaptureBaseline = async (column: string) => {
+    const baseline = await learn(baselineLearner(column));
+    if (!baseline) return;
+    try {
+      await dataService.saveBaseline(dataset, baseline);
+      await loadBaselines();
+    } catch (error) {
+      console.error('Failed to save drift baseline:', error);
+    }
+  };
+
+  const startCreate = () => {
+    setEditingId(null);
+    setDraft(emptyDraft(columns));
+  };
+
+  const startEdit = (rule: ValidationRule) => {
+    const { severity, ...params } = rule.params ?? {};
+    setEditingId(rule.id);
+    setDraft({
+      strategy: rule.strategy,
+      column: rule.column,
+      threshold: rule.threshold === undefined ? '' : String(rule.threshold),
+      params,
+      weight: rule.weight === undefined ? '' : String(rule.weight),
+      dimension: rule.dimension ?? '',
+      severityUnit: severity?.unit ?? '',
+      warningAbove: severity?.warning === undefined ? '' : String(severity.warning),
+      criticalAbove: severity?.critical === undefined ? '' : String(severity.critical),
+      escalation: (rule.escalation ?? []).map((step) => ({ afterRuns: String(step.afterRuns), severity: step.severity })),
+    });
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setDraft(null);
+  };
+
+  const handleSave = async () => {
+    if (!draft || draft.column.trim() === '') return;
+
+    const column = draft.column.trim();
+    const threshold = draft.threshold.trim() === '' ? undefined : Number(draft.threshold);
+    const weight = draft.weight.trim() === '' ? undefined : Number(draft.weight);
+    const params = { ...draft.params };
+    // A composite key always leads with the rule's own column, even if
+    // the column was changed after the key was set up.
+    if (params.columns) {
+      const extras = params.columns.slice(1).filter((c) => c !== column);
+      if (extras.length > 0) {
+        params.columns = [column, ...extras];
+      } else {
+        delete params.columns;
+      }
+    }
+    if (draft.severityUnit && DEFAULT_SEVERITY_THRESHOLDS[draft.strategy]) {
+      params.severity = {
+        unit: draft.severityUnit,
+        warning: parseCutoff(draft.warningAbove),
+        critical: parseCutoff(draft.criticalAbove),
+      };
+    }
+    const escalation = draft.escalation
+      .map((step) => ({ afterRuns: Math.floor(Number(step.afterRuns)), severity: step.severity }))
+      .filter((step) => step.afterRuns >= 1);
+
+    const config: ValidationConfig = {
+      strategy: draft.strategy,
+      column,
+      threshold: threshold !== undefined && !isNaN(threshold) ? threshold : undefined,
+      params: Object.keys(params).length > 0 ? params : undefined,
+      weight: weight !== undefined && !isNaN(weight) && weight >= 0 ? weight : undefined,
+      dimension: draft.dimension || undefined,
+      escalation: escalation.length > 0 ? escalation : undefined,
+    };
+
+    try {
+      const existing = rules.find((r) => r.id === editingId);
+      if (existing) {
+        await dataService.updateRule({ ...existing, ...config });
+      } else {
+        await dataService.addRule(dataset, config);
+      }
+      cancelEdit();
+      await onRulesChanged();
+    } catch (error) {
+      console.error('Failed to save rule:', error);
+    }
+  };
+
+  const handleToggle = async (rule: ValidationRule) => {
+    try {
+      await dataService.updateRule({ ...rule, enabled: !rule.enabled });
+      await onRulesChanged();
+    } catch (error) {
+      console.error('Failed to toggle rule:', error);
+    }
+  };
+
+  const handleDelete = async (rule: ValidationRule) => {
+    try {
+      await dataService.deleteRule(rule.id);
+      await onRulesChanged();
+    } catch (error) {
+      console.error('Failed to delete rule:', error);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializeRuleSet(dataset, rules)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${dataset}.rules.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = parseRuleSet(await file.text(), STRATEGIES);
+      setImportErrors(result.errors);
+      if (result.errors.length > 0) return;
+
+      // Ids are only meaningful within the dataset that exported them.
+      const imported = result.dataset === dataset
+        ? result.rules
+        : result.rules.map(({ id: _id, ...rule }) => rule);
+
+      await dataService.replaceRules(dataset, imported);
+      await onRulesChanged();
+    } catch (error) {
+      console.error('Failed to import rules:', error);
+      setImportErrors([`Could not import ${file.name}: ${(error as Error).message}`]);
+    }
+  };
+
+  const renderParamFields = (current: RuleDraft) => {
+    const setParams = (params: RuleParams) => setDraft({ ...current, params });
+
+    switch (current.strategy) {
+      case 'Format':
+        return (
+          <>
+            <select
+              data-testid="rule-format-select"
+              value={current.params.format ?? ''}
+              onChange={(e) => setParams(e.target.value ? { format: e.target.value } : { pattern: '' })}
+              className={inputClass}
+            >
+              {Object.keys(BUILTIN_FORMATS).map((format) => (
+                <option key={format} value={format}>{format}</option>
+              ))}
+              <option value="">custom regex</option>
+            </select>
+            {!current.params.format && (
+              <input
+                data-testid="rule-pattern-input"
+                value={current.params.pattern ?? ''}
+                onChange={(e) => setParams({ pattern: e.target.value })}
+                placeholder="^ORD-\d{4}$"
+                className={inputClass}
+              />
+            )}
+          </>
+        );
+      case 'AllowedValues':
+        return (
+          <>
+            <textarea
+              key={current.params.learnedAt ?? 'manual'}
+              data-testid="rule-allowed-values-input"
+              defaultValue={(current.params.allowedValues ?? []).join('\n')}
+              onBlur={(e) => setParams({
+                ...current.params,
+                allowedValues: e.target.value.split('\n').map((v) => v.trim()).filter((v) => v !== ''),
+                learnedAt: undefined,
+              })}
+              placeholder="one allowed value per line"
+              rows={4}
+              className={inputClass}
+            />
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-2 text-slate-400 text-xs font-mono">
+                <input
+                  type="checkbox"
+                  checked={current.params.caseInsensitive ?? false}
+                  onChange={(e) => setParams({ ...current.params, caseInsensitive: e.target.checked })}
+                />
+                case-insensitive
+              </label>
+              <button
+                data-testid="rule-learn-btn"
+                onClick={() => learnParams(allowedValuesLearner(current.column), (allowedValues) => ({ allowedValues }))}
+                disabled={learning || columns.length === 0}
+                className="text-slate-400 hover:text-slate-200 text-xs font-mono underline"
+              >
+                {learning ? 'reading all rows…' : 'learn from all rows'}
+              </button>
+            </div>
+            {current.params.learnedAt && (
+              <p className="text-slate-500 text-xs font-mono">
+                Baseline captured {new Date(current.params.learnedAt).toLocaleString()}
+              </p>
+            )}
+          </>
+        );
+      case 'NumericalRange': {
+        const method = current.params.method ?? 'zscore';
+        const parseBound = (value: string) => (value.trim() === '' || isNaN(Number(value)) ? undefined : Number(value));
+
+        return (
+          <>
+            <select
+              data-testid="rule-method-select"
+              value={method}
+              onChange={(e) => setParams({ method: e.target.value as OutlierMethod })}
+              className={inputClass}
+            >
+              <option value="zscore">z-score (mean / σ)</option>
+              <option value="iqr">Tukey IQR fences</option>
+              <option value="mad">MAD / modified z-score</option>
+              <option value="bounds">fixed min / max</option>
+            </select>
+            {method === 'bounds' && (
+              <div className="flex gap-2">
+                <input
+                  data-testid="rule-min-input"
+                  type="number"
+                  step="any"
+                  defaultValue={current.params.min ?? ''}
+                  onBlur={(e) => setParams({ ...current.params, min: parseBound(e.target.value) })}
+                  placeholder="min"
+                  className={inputClass}
+                />
+                <input
+                  data-testid="rule-max-input"
+                  type="number"
+                  step="any"
+                  defaultValue={current.params.max ?? ''}
+                  onBlur={(e) => setParams({ ...current.params, max: parseBound(e.target.value) })}
+                  placeholder="max"
+                  className={inputClass}
+                />
+              </div>
+            )}
+          </>
+        );
+      }
+      case 'Drift': {
+        const baseline = baselines[current.column];
+        return (
+          <>
+            <div className="flex gap-2">
+              <select
+                data-testid="rule-metric-select"
+                value={current.params.metric ?? ''}
+                onChange={(e) => setParams({ ...current.params, metric: (e.target.value || undefined) as DriftMetric | undefined })}
+                className={inputClass}
+              >
+                <option value="">auto (PSI / χ²)</option>
+                <option value="psi">Population Stability Index</option>
+                <option value="ks">Kolmogorov-Smirnov</option>
+                <option value="js">Jensen-Shannon</option>
+                <option value="chi2">chi-square</option>
+              </select>
+              {baseline?.kind !== 'categorical' && (
+                <input
+                  data-testid="rule-bins-input"
+                  type="number"
+                  min={1}
+                  value={current.params.bins ?? ''}
+                  onChange={(e) => setParams({ ...current.params, bins: e.target.value ? Number(e.target.value) : undefined })}
+                  placeholder="bins (10)"
+                  className={inputClass}
+                />
+              )}
+            </div>
+            <div className="flex items-center justify-between">
+              <p className="text-slate-500 text-xs font-mono">
+                {baseline
+                  ? `Baseline: ${baseline.size} ${baseline.kind} values, ${new Date(baseline.capturedAt).toLocaleString()}`
+                  : 'No baseline saved'}
+              </p>
+              <button
+                data-testid="rule-capture-baseline-btn"
+                onClick={() => handleCaptureBaseline(current.column)}
+                disabled={learning || columns.length === 0}
+                className="text-slate-400 hover:text-slate-200 text-xs font-mono underline"
+              >
+                {learning ? 'reading all rows…' : baseline ? 'recapture from all rows' : 'capture from all rows'}
+              </button>
+            </div>
+          </>
+        );
+      }
+      case 'Schema': {
+        const schema = current.params.schema ?? [];
+        const setColumn = (index: number, column: ColumnSchema) =>
+          setParams({ ...current.params, schema: schema.map((c, i) => (i === index ? column : c)) });
+
+        return (
+          <>
+            {schema.length > 0 && (
+              <table data-testid="rule-schema-table" className="w-full text-xs font-mono">
+                <tbody>
+                  {schema.map((column, index) => (
+                    <tr key={column.name}>
+                      <td className="py-1 pr-2 text-slate-300">{column.name}</td>
+                      <td className="py-1 pr-2">
+                        <select
+                          data-testid="rule-schema-type-select"
+                          value={column.type}
+                          onChange={(e) => setColumn(index, { ...column, type: e.target.value as ColumnType })}
+                          className={inputClass}
+                        >
+                          {COLUMN_TYPES.map((type) => (
+                            <option key={type} value={type}>{type}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="py-1 pr-2">
+                        <label className="flex items-center gap-1 text-slate-400">
+                          <input
+                            type="checkbox"
+                            checked={column.nullable}
+                            onChange={(e) => setColumn(index, { ...column, nullable: e.target.checked })}
+                          />
+                          nullable
+                        </label>
+                      </td>
+                      <td className="py-1 pr-2 text-slate-500">{column.format ?? ''}</td>
+                      <td className="py-1 text-right">
+                        <button
+                          onClick={() => setParams({ ...current.params, schema: schema.filter((_, i) => i !== index) })}
+                          className="text-slate-500 hover:text-red-400"
+                          aria-label={`Remove ${column.name} from contract`}
+                        >
+                          <Trash2 size={12} />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-2 text-slate-400 text-xs font-mono">
+                <input
+                  type="checkbox"
+                  checked={current.params.allowNewColumns ?? false}
+                  onChange={(e) => setParams({ ...current.params, allowNewColumns: e.target.checked || undefined })}
+                />
+                allow new columns
+              </label>
+              <button
+                data-testid="rule-infer-schema-btn"
+                onClick={() => learnParams(schemaLearner(), (schema) => ({ schema }))}
+                disabled={learning || columns.length === 0}
+                className="text-slate-400 hover:text-slate-200 text-xs font-mono underline"
+              >
+                {learning ? 'reading all rows…' : schema.length > 0 ? 're-infer from all rows' : 'infer from all rows'}
+              </button>
+            </div>
+            {current.params.learnedAt && (
+              <p className="text-slate-500 text-xs font-mono">
+                Contract captured {new Date(current.params.learnedAt).toLocaleString()}
+              </p>
+            )}
+          </>
+        );
+      }
+      case 'Uniqueness': {
+        const extras = (current.params.columns ?? []).filter((c) => c !== current.column);
+        const toggleColumn = (column: string, checked: boolean) => {
+          const next = checked ? [...extras, column] : extras.filter((c) => c !== column);
+          setParams({ ...current.params, columns: next.length > 0 ? [current.column, ...next] : undefined });
+        };
+
+        return (
+          <>
+            <p className="text-slate-500 text-xs font-mono">composite key with:</p>
+            <div className="flex flex-wrap gap-x-3 gap-y-1">
+              {columns.filter((c) => c !== current.column).map((column) => (
+                <label key={column} className="flex items-center gap-1 text-slate-400 text-xs font-mono">
+                  <input
+                    type="checkbox"
+                    checked={extras.includes(column)}
+                    onChange={(e) => toggleColumn(column, e.target.checked)}
+                  />
+                  {column}
+                </label>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-x-3 gap-y-1">
+              <label className="flex items-center gap-2 text-slate-400 text-xs font-mono">
+                <input
+                  type="checkbox"
+                  checked={current.params.trim ?? false}
+                  onChange={(e) => setParams({ ...current.params, trim: e.target.checked })}
+                />
+                trim
+              </label>
+              <label className="flex items-center gap-2 text-slate-400 text-xs font-mono">
+                <input
+                  type="checkbox"
+                  checked={current.params.caseInsensitive ?? false}
+                  onChange={(e) => setParams({ ...current.params, caseInsensitive: e.target.checked })}
+                />
+                case-insensitive
+              </label>
+              <label className="flex items-center gap-2 text-slate-400 text-xs font-mono">
+                <input
+                  type="checkbox"
+                  checked={current.params.nulls === 'equal'}
+                  onChange={(e) => setParams({ ...current.params, nulls: e.target.checked ? 'equal' : undefined })}
+                />
+                nulls equal
+              </label>
+            </div>
+          </>
+        );
+      }
+      case 'ReferentialIntegrity':
+        return (
+          <>
+            <select
+              data-testid="rule-reference-dataset-select"
+              value={current.params.referenceDataset ?? ''}
+              onChange={(e) => setParams({ ...current.params, referenceDataset: e.target.value || undefined })}
+              className={inputClass}
+            >
+              <option value="">referenced dataset…</option>
+              {datasetNames.map((name) => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+            <input
+              data-testid="rule-reference-column-input"
+              value={current.params.referenceColumn ?? ''}
+              onChange={(e) => setParams({ ...current.params, referenceColumn: e.target.value || undefined })}
+              placeholder={`referenced column (default ${current.column})`}
+              className={inputClass}
+            />
+            <label className="flex items-center gap-2 text-slate-400 text-xs font-mono">
+              <input
+                type="checkbox"
+                checked={current.params.checkReverse ?? false}
+                onChange={(e) => setParams({ ...current.params, checkReverse: e.target.checked })}
+              />
+              also report unreferenced parents
+            </label>
+          </>
+        );
+      case 'Volume':
+        return (
+          <select
+            data-testid="rule-volume-by-select"
+            value={current.params.volumeBy ?? 'run'}
+            onChange={(e) => {
+              const volumeBy = e.target.value === 'day' ? 'day' : undefined;
+              const column = volumeBy ? columns[0] ?? '' : SCHEMA_COLUMN;
+              setDraft({ ...current, column, params: { ...current.params, volumeBy } });
+            }}
+            className={inputClass}
+          >
+            <option value="run">row count per run</option>
+            <option value="day">rows per day of a date column</option>
+          </select>
+        );
+      case 'Expression': {
+        const expression = current.params.expression ?? '';
+        const { error } = parseExpression(expression);
+        return (
+          <>
+            <textarea
+              data-testid="rule-expression-input"
+              value={expression}
+              onChange={(e) => setParams({ ...current.params, expression: e.target.value })}
+              placeholder="status == 'shipped' implies quantity > 0"
+              rows={3}
+              spellCheck={false}
+              className={inputClass}
+            />
+            {error && expression.trim() !== '' ? (
+              <div data-testid="rule-expression-error" className="bg-red-950/20 border border-red-900 p-2 text-xs font-mono">
+                <p className="text-red-400">Column {error.position + 1}: {error.message}</p>
+                <pre className="text-slate-400 mt-1 overflow-x-auto">{expression.replace(/\s/g, ' ')}{'\n'}{' '.repeat(error.position)}^</pre>
+              </div>
+            ) : (
+              <p className="text-slate-500 text-xs font-mono">
+                Operators: == != &lt; &lt;= &gt; &gt;= + - * / % and or not implies in (…). Functions:{' '}
+                {Object.keys(EXPRESSION_FUNCTIONS).join(', ')}. Quote column names with spaces in `backticks`.
+              </p>
+            )}
+          </>
+        );
+      }
+      case 'Freshness':
+        return (
+          <>
+            <input
+              data-testid="rule-max-future-input"
+              type="number"
+              min={0}
+              step="any"
+              value={current.params.maxFutureHours ?? ''}
+              onChange={(e) => setParams({
+                ...current.params,
+                maxFutureHours: e.target.value === '' ? undefined : Number(e.target.value),
+              })}
+              placeholder="allowed future skew, hours (default 0)"
+              className={inputClass}
+            />
+            <label className="flex items-center gap-2 text-slate-400 text-xs font-mono">
+              <input
+                type="checkbox"
+                checked={current.params.dailyCoverage ?? false}
+                onChange={(e) => setParams({ ...current.params, dailyCoverage: e.target.checked || undefined })}
+              />
+              flag days without rows
+            </label>
+          </>
+        );
+      default:
+        return null;
+    }
+  };
+
+  const thresholdPlaceholder = (current: RuleDraft) => {
+    if (current.strategy === 'NumericalRange') {
+      return `threshold (default ${DEFAULT_OUTLIER_THRESHOLDS[current.params.method ?? 'zscore']})`;
+    }
+    if (current.strategy === 'Drift') {
+      const metric = current.params.metric ?? (baselines[current.column]?.kind === 'categorical' ? 'chi2' : 'psi');
+      const kind = metric === 'ks' || metric === 'chi2' ? 'p-value' : metric.toUpperCase();
+      return `alert threshold, ${kind} (default ${DEFAULT_DRIFT_THRESHOLDS[metric]})`;
+    }
+    if (current.strategy === 'Volume') {
+      return `control limit, σ (default ${DEFAULT_VOLUME_THRESHOLD})`;
+    }
+    if (current.strategy === 'Freshness') {
+      return `max age, hours (default ${DEFAULT_FRESHNESS_SLA_HOURS})`;
+    }
+    return 'threshold (optional)';
+  };
+
+  const renderSeverityFields = (current: RuleDraft) => {
+    const defaults = DEFAULT_SEVERITY_THRESHOLDS[current.strategy];
+    const setStep = (index: number, step: RuleDraft['escalation'][number]) =>
+      setDraft({ ...current, escalation: current.escalation.map((s, i) => (i === index ? step : s)) });
+    const cutoff = describeCutoffs(defaults ?? { unit: 'rate' });
+
+    return (
+      <div className="space-y-2">
+        {defaults && (
+          <div className="grid grid-cols-3 gap-2">
+            <select
+              data-testid="rule-severity-unit-select"
+              value={current.severityUnit}
+              onChange={(e) => setDraft({ ...current, severityUnit: e.target.value as RuleDraft['severityUnit'] })}
+              className={inputClass}
+            >
+              <option value="">default severity</option>
+              <option value="rate">failure rate</option>
+              <option value="count">failing rows</option>
+            </select>
+            {current.severityUnit && (
+              <>
+                <input
+                  data-testid="rule-warning-input"
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={current.warningAbove}
+                  onChange={(e) => setDraft({ ...current, warningAbove: e.target.value })}
+                  placeholder="warning above"
+                  className={inputClass}
+                />
+                <input
+                  data-testid="rule-critical-input"
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={current.criticalAbove}
+                  onChange={(e) => setDraft({ ...current, criticalAbove: e.target.value })}
+                  placeholder="critical above"
+                  className={inputClass}
+                />
+              </>
+            )}
+            {!current.severityUnit && (
+              <p className="col-span-2 text-slate-500 text-xs font-mono self-center">
+                warning above {cutoff(defaults.warning)}, critical above {cutoff(defaults.critical)}
+              </p>
+            )}
+          </div>
+        )}
+        {current.escalation.map((step, index) => (
+          <div key={index} data-testid="rule-escalation-step" className="flex items-center gap-2">
+            <span className="text-slate-500 text-xs font-mono whitespace-nowrap">after</span>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={step.afterRuns}
+              onChange={(e) => setStep(index, { ...step, afterRuns: e.target.value })}
+              className={inputClass}
+            />
+            <span className="text-slate-500 text-xs font-mono whitespace-nowrap">failing runs raise to</span>
+            <select
+              value={step.severity}
+              onChange={(e) => setStep(index, { ...step, severity: e.target.value as EscalationStep['severity'] })}
+              className={inputClass}
+            >
+              <option value="warning">warning</option>
+              <option value="critical">critical</option>
+            </select>
+            <button
+              onClick={() => setDraft({ ...current, escalation: current.escalation.filter((_s, i) => i !== index) })}
+              className="text-slate-600 hover:text-red-400"
+              aria-label="Remove escalation step"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        ))}
+        <button
+          data-testid="rule-add-escalation-btn"
+          onClick={() => setDraft({ ...current, escalation: [...current.escalation, { afterRuns: '3', severity: 'critical' }] })}
+          className="text-slate-500 hover:text-slate-300 text-xs font-mono"
+        >
+          + escalate when failures persist
+        </button>
+      </div>
+    );
+  };
+
+  const changeStrategy = (strategy: string) => {
+    if (!draft) return;
+    const column = isWholeRow(strategy, {}) ? SCHEMA_COLUMN : draft.column === SCHEMA_COLUMN ? columns[0] ?? '' : draft.column;
+    setDraft({ ...draft, strategy, column, params: strategy === 'Format' ? { format: 'email' } : {} });
+  };
+
+  const renderForm = () => draft && (
+    <div data-testid="rule-form" className="bg-slate-950 border border-slate-700 p-4 space-y-3">
+      <select
+        data-testid="rule-strategy-select"
+        value={draft.strategy}
+        onChange={(e) => changeStrategy(e.target.value)}
+        className={inputClass}
+      >
+        {STRATEGIES.map((name) => (
+          <option key={name} value={name}>{name}</option>
+        ))}
+      </select>
+      {isWholeRow(draft.strategy, draft.params) ? null : columns.length > 0 ? (
+        <select
+          data-testid="rule-column-select"
+          value={draft.column}
+          onChange={(e) => setDraft({ ...draft, column: e.target.value })}
+          className={inputClass}
+        >
+          {!columns.includes(draft.column) && <option value={draft.column}>{draft.column}</option>}
+          {columns.map((column) => (
+            <option key={column} value={column}>{column}</option>
+          ))}
+        </select>
+      ) : (
+        <input
+          data-testid="rule-column-input"
+          value={draft.column}
+          onChange={(e) => setDraft({ ...draft, column: e.target.value })}
+          placeholder="column"
+          className={inputClass}
+        />
+      )}
+      {renderParamFields(draft)}
+      <input
+        data-testid="rule-threshold-input"
+        type="number"
+        step="any"
+        value={draft.threshold}
+        onChange={(e) => setDraft({ ...draft, threshold: e.target.value })}
+        placeholder={thresholdPlaceholder(draft)}
+        className={inputClass}
+      />
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          data-testid="rule-weight-input"
+          type="number"
+          min={0}
+          step="any"
+          value={draft.weight}
+          onChange={(e) => setDraft({ ...draft, weight: e.target.value })}
+          placeholder="score weight (default 1)"
+          className={inputClass}
+        />
+        <select
+          data-testid="rule-dimension-select"
+          value={draft.dimension}
+          onChange={(e) => setDraft({ ...draft, dimension: e.target.value as DqDimension | '' })}
+          className={inputClass}
+        >
+          <option value="">{STRATEGY_DIMENSIONS[draft.strategy] ?? 'validity'} (default)</option>
+          {DQ_DIMENSIONS.map((dimension) => (
+            <option key={dimension} value={dimension}>{dimension}</option>
+          ))}
+        </select>
+      </div>
+      {renderSeverityFields(draft)}
+      <div className="flex gap-2">
+        <Button
+          data-testid="rule-save-btn"
+          onClick={handleSave}
+          disabled={draft.column.trim() === '' || (draft.strategy === 'Expression' && parseExpression(draft.params.expression ?? '').error !== null)}
+          className="bg-slate-800 hover:bg-slate-700 text-slate-100 border border-slate-700 font-mono"
+        >
+          {editingId ? 'Save' : 'Add Rule'}
+        </Button>
+        <Button
+          onClick={cancelEdit}
+          variant="outline"
+          className="border-slate-700 text-slate-300 hover:bg-slate-800 font-mono"
+        >
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-slate-100 font-mono">Validation Rules</h3>
+        <div className="flex items-center gap-2 text-slate-500">
+          <button data-testid="rule-add-btn" onClick={startCreate} className="hover:text-slate-200" aria-label="Add rule">
+            <Plus size={16} />
+          </button>
+          <button data-testid="rule-export-btn" onClick={handleExport} className="hover:text-slate-200" aria-label="Export rules">
+            <Download size={16} />
+          </button>
+          <label className="cursor-pointer hover:text-slate-200" aria-label="Import rules">
+            <Upload size={16} />
+            <input data-testid="rule-import-input" type="file" accept=".json" onChange={handleImport} className="hidden" />
+          </label>
+        </div>
+      </div>
+
+      {importErrors.length > 0 && (
+        <div className="bg-yellow-950/20 border border-yellow-900 p-3 mb-3">
+          {importErrors.map((error, index) => (
+            <p key={index} className="text-yellow-400 text-xs font-mono">{error}</p>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {!editingId && renderForm()}
+        {rules.length === 0 && !draft && (
+          <p className="text-slate-500 text-xs font-mono">No rules configured</p>
+        )}
+        {rules.map((rule) => {
+          if (rule.id === editingId) {
+            return <React.Fragment key={rule.id}>{renderForm()}</React.Fragment>;
+          }
+
+          const { title, detail } = describeRule(rule);
+          return (
+            <div
+              key={rule.id}
+              data-testid="rule-item"
+              className={`bg-slate-950 border border-slate-800 p-4 flex items-start justify-between ${
+                rule.enabled ? '' : 'opacity-50'
+              }`}
+            >
+              <div>
+                <p className="text-slate-300 font-mono text-sm mb-1">{title}</p>
+                <p className="text-slate-500 text-xs font-mono">{detail}</p>
+              </div>
+              <div className="flex items-center gap-2 text-slate-600">
+                <button
+                  data-testid="rule-toggle-btn"
+                  onClick={() => handleToggle(rule)}
+                  className={rule.enabled ? 'text-emerald-500 hover:text-emerald-400' : 'hover:text-slate-300'}
+                  aria-label={rule.enabled ? 'Disable rule' : 'Enable rule'}
+                >
+                  <Power size={14} />
+                </button>
+                <button onClick={() => startEdit(rule)} className="hover:text-slate-300" aria-label="Edit rule">
+                  <Pencil size={14} />
+                </button>
+                <button onClick={() => handleDelete(rule)} className="hover:text-red-400" aria-label="Delete rule">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default RulesEditor;
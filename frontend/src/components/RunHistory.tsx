@@ -0,0 +1,242 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, History, GitCompare } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { dataService, ValidationRun } from '../core/MockDataService';
+import { RuleChange, buildRunTrend, compareRuns } from '../core/runHistory';
+import { ValidationConfig, ValidationResult, ruleIdOf } from '../core/ValidationEngine';
+import { datasetPath } from '../lib/routes';
+import { describeRule } from './RulesEditor';
+import { Button } from './ui/button';
+
+const LINE_COLORS = ['#38bdf8', '#f472b6', '#a3e635', '#fbbf24', '#c084fc', '#fb7185', '#2dd4bf', '#f97316'];
+
+const axisTick = { fill: '#64748b', fontSize: 10, fontFamily: 'monospace' };
+const tooltipStyle = {
+  backgroundColor: '#0f172a',
+  border: '1px solid #334155',
+  fontFamily: 'monospace',
+  fontSize: 12,
+};
+
+const formatTimestamp = (timestamp: Date | number) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const ruleLabel = (rule: ValidationConfig) => {
+  const { title, detail } = describeRule(rule);
+  return `${title}: ${detail}`;
+};
+
+const CHANGE_STYLES: Record<RuleChange, string> = {
+  added: 'text-blue-400',
+  removed: 'text-slate-500',
+  fixed: 'text-emerald-400',
+  regressed: 'text-red-400',
+  improved: 'text-emerald-500',
+  worsened: 'text-yellow-400',
+  unchanged: 'text-slate-500',
+};
+
+const formatResult = (result?: ValidationResult) => {
+  if (!result) return <span className="text-slate-600">—</span>;
+  return (
+    <span className={result.isValid ? 'text-emerald-400' : result.severity === 'critical' ? 'text-red-400' : 'text-yellow-400'}>
+      {result.isValid ? 'pass' : result.severity} · {(result.failureRate * 100).toFixed(1)}%
+    </span>
+  );
+};
+
+const RunHistory: React.FC = () => {
+  const navigate = useNavigate();
+  const { name = '' } = useParams();
+  const [runs, setRuns] = useState<ValidationRun[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+
+  useEffect(() => {
+    loadRuns();
+  }, [name]);
+
+  const loadRuns = async () => {
+    try {
+      const history = await dataService.getRuns(name);
+      setRuns(history);
+      setSelected(history.slice(-2).map((run) => run.id));
+    } catch (error) {
+      console.error('Failed to load run history:', error);
+    }
+  };
+
+  const trend = useMemo(() => buildRunTrend(runs), [runs]);
+
+  // Compare in chronological order whichever way round the runs were picked.
+  const [before, after] = runs.filter((run) => selected.includes(run.id));
+  const comparison = before && after ? compareRuns(before, after) : [];
+
+  const toggleSelected = (id: string) => {
+    setSelected((current) =>
+      current.includes(id) ? current.filter((s) => s !== id) : [...current, id].slice(-2)
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8 flex items-center gap-4">
+          <Button
+            data-testid="back-btn"
+            onClick={() => navigate(datasetPath(name))}
+            variant="outline"
+            className="border-slate-700 text-slate-300 hover:bg-slate-800"
+          >
+            <ArrowLeft size={16} className="mr-2" /> Back
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-slate-100 tracking-tight">Run History</h1>
+            <p className="text-slate-500 font-mono text-sm">{name} · {runs.length} runs recorded</p>
+          </div>
+        </div>
+
+        {runs.length === 0 ? (
+          <div className="bg-slate-900 border border-slate-800 p-12 text-center">
+            <History className="mx-auto mb-4 text-slate-600" size={48} />
+            <h3 className="text-xl font-bold text-slate-300 mb-2">No Runs Yet</h3>
+            <p className="text-slate-500 font-mono text-sm">Run validation from the dashboard to start recording history</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+              <div className="bg-slate-900 border border-slate-800 p-6">
+                <h3 className="text-lg font-bold text-slate-100 mb-4 font-mono">DQ Score</h3>
+                <ResponsiveContainer width="100%" height={240}>
+                  <LineChart data={trend.points}>
+                    <XAxis dataKey="startedAt" tickFormatter={formatTimestamp} tick={axisTick} />
+                    <YAxis domain={[0, 100]} tick={axisTick} />
+                    <Tooltip contentStyle={tooltipStyle} labelFormatter={(label) => formatTimestamp(Number(label))} />
+                    <Line type="monotone" dataKey="dqScore" name="DQ score" stroke="#34d399" dot isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+
+              <div className="bg-slate-900 border border-slate-800 p-6">
+                <h3 className="text-lg font-bold text-slate-100 mb-4 font-mono">Failure Rate by Rule (%)</h3>
+                <ResponsiveContainer width="100%" height={240}>
+                  <LineChart data={trend.points}>
+                    <XAxis dataKey="startedAt" tickFormatter={formatTimestamp} tick={axisTick} />
+                    <YAxis tick={axisTick} />
+                    <Tooltip
+                      contentStyle={tooltipStyle}
+                      labelFormatter={(label) => formatTimestamp(Number(label))}
+                      formatter={(value) => `${Number(value).toFixed(2)}%`}
+                    />
+                    <Legend wrapperStyle={{ fontFamily: 'monospace', fontSize: 10 }} />
+                    {trend.rules.map((rule, index) => (
+                      <Line
+                        key={ruleIdOf(rule)}
+                        type="monotone"
+                        dataKey={ruleIdOf(rule)}
+                        name={ruleLabel(rule)}
+                        stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                        connectNulls
+                        isAnimationActive={false}
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            <div className="bg-slate-900 border border-slate-800 overflow-hidden mb-8">
+              <div className="p-6 border-b border-slate-800">
+                <h3 className="text-lg font-bold text-slate-100 font-mono flex items-center gap-2">
+                  <History size={20} className="text-slate-500" />
+                  Runs
+                </h3>
+                <p className="text-slate-500 font-mono text-xs mt-1">Select two runs to compare them</p>
+              </div>
+              <table className="w-full">
+                <thead className="bg-slate-950 border-b border-slate-800">
+                  <tr>
+                    <th className="px-4 py-3" />
+                    <th className="px-4 py-3 text-left text-xs font-mono text-slate-400 uppercase tracking-wider">Started</th>
+                    <th className="px-4 py-3 text-right text-xs font-mono text-slate-400 uppercase tracking-wider">Duration</th>
+                    <th className="px-4 py-3 text-right text-xs font-mono text-slate-400 uppercase tracking-wider">Rows</th>
+                    <th className="px-4 py-3 text-right text-xs font-mono text-slate-400 uppercase tracking-wider">Failing Rules</th>
+                    <th className="px-4 py-3 text-right text-xs font-mono text-slate-400 uppercase tracking-wider">DQ Score</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-800">
+                  {[...runs].reverse().map((run) => (
+                    <tr key={run.id} data-testid="run-row" className="hover:bg-slate-800/50">
+                      <td className="px-4 py-3">
+                        <input
+                          type="checkbox"
+                          data-testid="run-compare-checkbox"
+                          checked={selected.includes(run.id)}
+                          onChange={() => toggleSelected(run.id)}
+                          aria-label={`Compare run from ${formatTimestamp(run.startedAt)}`}
+                        />
+                      </td>
+                      <td className="px-4 py-3 text-sm font-mono text-slate-300">{formatTimestamp(run.startedAt)}</td>
+                      <td className="px-4 py-3 text-sm font-mono text-slate-400 text-right">
+                        {new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()} ms
+                      </td>
+                      <td className="px-4 py-3 text-sm font-mono text-slate-300 text-right">{run.rowCount.toLocaleString()}</td>
+                      <td className="px-4 py-3 text-sm font-mono text-slate-300 text-right">
+                        {run.results.filter((result) => !result.isValid).length} / {run.results.length}
+                      </td>
+                      <td className="px-4 py-3 text-sm font-mono text-slate-200 text-right">{run.dqScore}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {before && after && (
+              <div data-testid="run-comparison" className="bg-slate-900 border border-slate-800 overflow-hidden">
+                <div className="p-6 border-b border-slate-800">
+                  <h3 className="text-lg font-bold text-slate-100 font-mono flex items-center gap-2">
+                    <GitCompare size={20} className="text-slate-500" />
+                    {formatTimestamp(before.startedAt)} → {formatTimestamp(after.startedAt)}
+                  </h3>
+                  <p className="text-slate-500 font-mono text-xs mt-1">
+                    DQ score {before.dqScore}% → {after.dqScore}% · rows {before.rowCount} → {after.rowCount}
+                  </p>
+                </div>
+                <table className="w-full">
+                  <thead className="bg-slate-950 border-b border-slate-800">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-mono text-slate-400 uppercase tracking-wider">Rule</th>
+                      <th className="px-4 py-3 text-left text-xs font-mono text-slate-400 uppercase tracking-wider">Before</th>
+                      <th className="px-4 py-3 text-left text-xs font-mono text-slate-400 uppercase tracking-wider">After</th>
+                      <th className="px-4 py-3 text-left text-xs font-mono text-slate-400 uppercase tracking-wider">Change</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-800">
+                    {comparison.map((row) => (
+                      <tr key={row.ruleId} data-testid="run-comparison-row">
+                        <td className="px-4 py-3 text-sm font-mono text-slate-300">
+                          {ruleLabel(row.rule)}
+                          {row.configChanged && <span className="ml-2 text-xs text-yellow-500">(config changed)</span>}
+                        </td>
+                        <td className="px-4 py-3 text-sm font-mono">{formatResult(row.before)}</td>
+                        <td className="px-4 py-3 text-sm font-mono">{formatResult(row.after)}</td>
+                        <td className={`px-4 py-3 text-sm font-mono ${CHANGE_STYLES[row.change]}`}>{row.change}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RunHistory;
@@ -1,3 +1,8 @@
+import { ColumnBaseline, SchemaViolation, ValidationConfig, ValidationResult } from './ValidationEngine';
+import { DatasetProfile } from './columnProfiler';
+import { DimensionWeights } from './qualityScore';
+import { DeliveryAttempt, DeliveryLogEntry, NotificationRoute, OutboxEntry } from './notifications';
+
 export interface EcommerceRow {
   id: number;
   orderId: string;
@@ -10,20 +15,145 @@ export interface EcommerceRow {
   status: string;
 }
 
+export type DataRow = Record<string, any>;
+
+export interface DatasetInfo {
+  name: string;
+  source: 'demo' | 'import';
+  rowCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+  lastValidated: Date | null;
+  dqScore: number | null;
+  /** Ids of rule suggestions the user turned down. */
+  dismissedSuggestions?: string[];
+  /** How much each quality dimension counts towards the DQ score. */
+  dimensionWeights?: DimensionWeights;
+}
+
+export interface ValidationRule extends ValidationConfig {
+  id: string;
+  dataset: string;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type AlertStatus = 'open' | 'acknowledged' | 'snoozed' | 'resolved';
+
 export interface Alert {
   id: string;
+  dataset: string;
+  /** Id of the validation rule whose failure raised this alert. */
+  ruleId: string;
+  /** Schema rules raise one alert per kind of violation; see `alertFindings`. */
+  violation?: SchemaViolation['kind'];
+  /** The run the rule last failed in; the explorer shows that run's failing rows for the alert. */
+  runId?: string;
+  /** When the rule last failed; earlier failures are folded into `occurrences`. */
   timestamp: Date;
+  firstSeen: Date;
+  occurrences: number;
   severity: 'critical' | 'warning' | 'info';
+  /** What the latest run graded before the rule's escalation policy raised it. */
+  escalatedFrom?: 'warning' | 'info';
   type: string;
   message: string;
   column: string;
   affectedRows: number;
+  status: AlertStatus;
+  owner?: string;
+  acknowledgedAt?: Date;
+  /** Only meaningful while `status` is 'snoozed'. */
+  snoozedUntil?: Date;
+  resolvedAt?: Date;
+  resolutionNote?: string;
+}
+
+/** One execution of a dataset's rules, kept so quality can be tracked over time. */
+export interface ValidationRun {
+  id: string;
+  dataset: string;
+  startedAt: Date;
+  finishedAt: Date;
+  rowCount: number;
+  dqScore: number;
+  /** The rules as they were configured when the run started. */
+  rules: ValidationConfig[];
+  results: ValidationResult[];
+}
+
+/** A column profile snapshot kept for later comparison. */
+export interface SavedProfile extends DatasetProfile {
+  id: string;
+}
+
+type StoredBaseline = ColumnBaseline & { dataset: string };
+
+interface StoredRow {
+  dataset: string;
+  index: number;
+  row: DataRow;
 }
 
+export const DEMO_DATASET = 'ecommerce_orders';
+
+export const DEMO_RULES: ValidationConfig[] = [
+  { strategy: 'Completeness', column: 'email' },
+  { strategy: 'Uniqueness', column: 'orderId' },
+  { strategy: 'NumericalRange', column: 'price', threshold: 3 },
+];
+
 const DB_NAME = 'DataQualityGuardDB';
-const DB_VERSION = 1;
-const STORE_DATASET = 'dataset';
+const DB_VERSION = 8;
+const STORE_DATASETS = 'datasets';
+const STORE_ROWS = 'datasetRows';
 const STORE_ALERTS = 'alerts';
+const STORE_RULES = 'rules';
+const STORE_BASELINES = 'baselines';
+const STORE_RUNS = 'runs';
+const STORE_PROFILES = 'profiles';
+const STORE_ROUTES = 'notificationRoutes';
+const STORE_OUTBOX = 'outbox';
+const STORE_DELIVERIES = 'deliveryLog';
+/** Delivery log entries kept; older ones are dropped as new ones arrive. */
+const DELIVERY_LOG_LIMIT = 500;
+// Version 1 kept a single table in this store, keyed by row id.
+const LEGACY_STORE_DATASET = 'dataset';
+
+function createRuleId(): string {
+  return `rule-${Date.now()}-${Math.random()}`;
+}
+
+function toRule(dataset: string, config: ValidationConfig, now: Date): ValidationRule {
+  return {
+    ...config,
+    id: config.id ?? createRuleId(),
+    dataset,
+    enabled: config.enabled ?? true,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+function rowRange(dataset: string): IDBKeyRange {
+  return IDBKeyRange.bound([dataset, 0], [dataset, Infinity]);
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionToPromise(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
 
 class MockDataService {
   private db: IDBDatabase | null = null;
@@ -39,35 +169,175 @@ class MockDataService {
       };
 
       request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
+        const db = request.result;
+        this.migrate(db, request.transaction!, event.oldVersion);
+      };
+    });
+  }
 
-        if (!db.objectStoreNames.contains(STORE_DATASET)) {
-          db.createObjectStore(STORE_DATASET, { keyPath: 'id' });
-        }
+  /**
+   * Applies each schema step the opened database has not seen yet, so a
+   * browser upgrading from any earlier version ends up with the same stores
+   * as a fresh install.
+   */
+  private migrate(db: IDBDatabase, transaction: IDBTransaction, oldVersion: number): void {
+    if (oldVersion < 1) {
+      const alertStore = db.createObjectStore(STORE_ALERTS, { keyPath: 'id' });
+      alertStore.createIndex('timestamp', 'timestamp', { unique: false });
+    }
 
-        if (!db.objectStoreNames.contains(STORE_ALERTS)) {
-          const alertStore = db.createObjectStore(STORE_ALERTS, { keyPath: 'id' });
-          alertStore.createIndex('timestamp', 'timestamp', { unique: false });
-        }
+    if (oldVersion < 2) {
+      db.createObjectStore(STORE_DATASETS, { keyPath: 'name' });
+      db.createObjectStore(STORE_ROWS, { keyPath: ['dataset', 'index'] });
+
+      const alertStore = transaction.objectStore(STORE_ALERTS);
+      alertStore.createIndex('dataset', 'dataset', { unique: false });
+
+      if (db.objectStoreNames.contains(LEGACY_STORE_DATASET)) {
+        this.migrateLegacyDataset(db, transaction);
+      }
+    }
+
+    if (oldVersion < 3) {
+      const ruleStore = db.createObjectStore(STORE_RULES, { keyPath: 'id' });
+      ruleStore.createIndex('dataset', 'dataset', { unique: false });
+
+      // Version 2 kept each dataset's rules inline on its catalog entry.
+      transaction.objectStore(STORE_DATASETS).openCursor().onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor) return;
+
+        const { rules = [], ...info } = cursor.value;
+        const now = new Date();
+        rules.forEach((config: ValidationConfig) => ruleStore.put(toRule(info.name, config, now)));
+        cursor.update(info);
+        cursor.continue();
       };
-    });
+    }
+
+    if (oldVersion < 4) {
+      const baselineStore = db.createObjectStore(STORE_BASELINES, { keyPath: ['dataset', 'column'] });
+      baselineStore.createIndex('dataset', 'dataset', { unique: false });
+    }
+
+    if (oldVersion < 5) {
+      const runStore = db.createObjectStore(STORE_RUNS, { keyPath: 'id' });
+      runStore.createIndex('dataset', 'dataset', { unique: false });
+    }
+
+    if (oldVersion < 6) {
+      // Alerts used to be replaced on every run and had no lifecycle.
+      transaction.objectStore(STORE_ALERTS).openCursor().onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor) return;
+        const alert = cursor.value;
+        // Runs alongside the version 2 alert cursor and may read a record
+        // before its dataset lands, so it sets the dataset as well.
+        cursor.update({ status: 'open', occurrences: 1, firstSeen: alert.timestamp, ...alert, dataset: alert.dataset ?? DEMO_DATASET });
+        cursor.continue();
+      };
+    }
+
+    if (oldVersion < 7) {
+      const profileStore = db.createObjectStore(STORE_PROFILES, { keyPath: 'id' });
+      profileStore.createIndex('dataset', 'dataset', { unique: false });
+    }
+
+    if (oldVersion < 8) {
+      db.createObjectStore(STORE_ROUTES, { keyPath: 'id' });
+      db.createObjectStore(STORE_OUTBOX, { keyPath: 'id' });
+      const deliveryStore = db.createObjectStore(STORE_DELIVERIES, { keyPath: 'id' });
+      deliveryStore.createIndex('timestamp', 'timestamp', { unique: false });
+    }
+  }
+
+  private migrateLegacyDataset(db: IDBDatabase, transaction: IDBTransaction): void {
+    const legacyRequest = transaction.objectStore(LEGACY_STORE_DATASET).getAll();
+
+    legacyRequest.onsuccess = () => {
+      const rows: DataRow[] = legacyRequest.result;
+      const rowStore = transaction.objectStore(STORE_ROWS);
+      rows.forEach((row, index) => rowStore.put({ dataset: DEMO_DATASET, index, row }));
+
+      if (rows.length > 0) {
+        const now = new Date();
+        const ruleStore = transaction.objectStore(STORE_RULES);
+        DEMO_RULES.forEach((config) => ruleStore.put(toRule(DEMO_DATASET, config, now)));
+
+        transaction.objectStore(STORE_DATASETS).put({
+          name: DEMO_DATASET,
+          source: 'demo',
+          rowCount: rows.length,
+          createdAt: now,
+          updatedAt: now,
+          lastValidated: null,
+          dqScore: null,
+        } satisfies DatasetInfo);
+      }
+
+      db.deleteObjectStore(LEGACY_STORE_DATASET);
+    };
+
+    transaction.objectStore(STORE_ALERTS).openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      if (!cursor.value.dataset) {
+        cursor.update({ ...cursor.value, dataset: DEMO_DATASET });
+      }
+      cursor.continue();
+    };
   }
 
   async seedDemoData(): Promise<void> {
-    const data = this.generateDemoData();
-    await this.clearDataset();
-    
-    const transaction = this.db!.transaction([STORE_DATASET], 'readwrite');
-    const store = transaction.objectStore(STORE_DATASET);
-
-    for (const row of data) {
-      store.add(row);
-    }
+    await this.saveDataset(DEMO_DATASET, 'demo', this.generateDemoData(), DEMO_RULES);
+  }
 
-    return new Promise((resolve, reject) => {
-      transaction.oncomplete = () => resolve();
-      transaction.onerror = () => reject(transaction.error);
+  /**
+   * Stores imported rows as a named dataset, replacing any dataset of the
+   * same name. Imported datasets start with the demo rules that apply to
+   * their columns.
+   */
+  async importDataset(name: string, rows: DataRow[]): Promise<void> {
+    const columns = new Set(rows.flatMap((row) => Object.keys(row)));
+    const rules = DEMO_RULES.filter((rule) => columns.has(rule.column));
+    await this.saveDataset(name, 'import', rows, rules);
+  }
+
+  private async saveDataset(
+    name: string,
+    source: DatasetInfo['source'],
+    data: DataRow[],
+    rules: ValidationConfig[]
+  ): Promise<void> {
+    const existing = await this.getDatasetInfo(name);
+    await this.clearDataset(name);
+
+    const transaction = this.db!.transaction([STORE_ROWS, STORE_DATASETS, STORE_RULES], 'readwrite');
+    const rowStore = transaction.objectStore(STORE_ROWS);
+
+    data.forEach((row, index) => {
+      rowStore.add({ dataset: name, index, row } satisfies StoredRow);
     });
+
+    const now = new Date();
+    if (!existing) {
+      const ruleStore = transaction.objectStore(STORE_RULES);
+      rules.forEach((config) => ruleStore.put(toRule(name, config, now)));
+    }
+
+    transaction.objectStore(STORE_DATASETS).put({
+      name,
+      source,
+      rowCount: data.length,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      lastValidated: null,
+      dqScore: null,
+      dismissedSuggestions: existing?.dismissedSuggestions,
+      dimensionWeights: existing?.dimensionWeights,
+    } satisfies DatasetInfo);
+
+    return transactionToPromise(transaction);
   }
 
   private generateDemoData(): EcommerceRow[] {
@@ -112,29 +382,263 @@ class MockDataService {
     return data;
   }
 
-  async getDataset(): Promise<EcommerceRow[]> {
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([STORE_DATASET], 'readonly');
-      const store = transaction.objectStore(STORE_DATASET);
-      const request = store.getAll();
+  async listDatasets(): Promise<DatasetInfo[]> {
+    const transaction = this.db!.transaction([STORE_DATASETS], 'readonly');
+    const datasets = await requestToPromise<DatasetInfo[]>(transaction.objectStore(STORE_DATASETS).getAll());
+    return datasets.sort((a, b) => a.name.localeCompare(b.name));
+  }
 
-      request.onsuccess = () => resolve(request.result);
-      request.onerror = () => reject(request.error);
-    });
+  async getDatasetInfo(name: string): Promise<DatasetInfo | undefined> {
+    const transaction = this.db!.transaction([STORE_DATASETS], 'readonly');
+    return requestToPromise<DatasetInfo | undefined>(transaction.objectStore(STORE_DATASETS).get(name));
   }
 
-  async clearDataset(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([STORE_DATASET], 'readwrite');
-      const store = transaction.objectStore(STORE_DATASET);
-      const request = store.clear();
+  async recordValidation(name: string, dqScore: number): Promise<void> {
+    const transaction = this.db!.transaction([STORE_DATASETS], 'readwrite');
+    const store = transaction.objectStore(STORE_DATASETS);
+    const info = await requestToPromise<DatasetInfo | undefined>(store.get(name));
+
+    if (info) {
+      store.put({ ...info, lastValidated: new Date(), dqScore });
+    }
 
-      request.onsuccess = () => resolve();
+    return transactionToPromise(transaction);
+  }
+
+  async dismissSuggestion(name: string, suggestionId: string): Promise<void> {
+    const transaction = this.db!.transaction([STORE_DATASETS], 'readwrite');
+    const store = transaction.objectStore(STORE_DATASETS);
+    const info = await requestToPromise<DatasetInfo | undefined>(store.get(name));
+
+    if (info) {
+      const dismissed = new Set([...(info.dismissedSuggestions ?? []), suggestionId]);
+      store.put({ ...info, dismissedSuggestions: Array.from(dismissed) });
+    }
+
+    return transactionToPromise(transaction);
+  }
+
+  async setDimensionWeights(name: string, dimensionWeights: DimensionWeights): Promise<void> {
+    const transaction = this.db!.transaction([STORE_DATASETS], 'readwrite');
+    const store = transaction.objectStore(STORE_DATASETS);
+    const info = await requestToPromise<DatasetInfo | undefined>(store.get(name));
+
+    if (info) {
+      store.put({ ...info, dimensionWeights });
+    }
+
+    return transactionToPromise(transaction);
+  }
+
+  async getDataset(name: string): Promise<DataRow[]> {
+    const transaction = this.db!.transaction([STORE_ROWS], 'readonly');
+    const records = await requestToPromise<StoredRow[]>(transaction.objectStore(STORE_ROWS).getAll(rowRange(name)));
+    return records.map((record) => record.row);
+  }
+
+  /**
+   * Reads up to `limit` rows starting at row `fromIndex` with a cursor, so
+   * large datasets can be processed without loading the whole store at once.
+   */
+  async getRowChunk(name: string, fromIndex: number, limit: number): Promise<DataRow[]> {
+    const transaction = this.db!.transaction([STORE_ROWS], 'readonly');
+    const range = IDBKeyRange.bound([name, fromIndex], [name, Infinity]);
+    const rows: DataRow[] = [];
+
+    return new Promise((resolve, reject) => {
+      const request = transaction.objectStore(STORE_ROWS).openCursor(range);
       request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || rows.length >= limit) {
+          resolve(rows);
+          return;
+        }
+        rows.push((cursor.value as StoredRow).row);
+        cursor.continue();
+      };
     });
   }
 
-  async addAlert(alert: Omit<Alert, 'id'>): Promise<void> {
+  /** Reads just the rows at `indices`, in that order, skipping any past the end of the dataset. */
+  async getRows(name: string, indices: number[]): Promise<{ index: number; row: DataRow }[]> {
+    const store = this.db!.transaction([STORE_ROWS], 'readonly').objectStore(STORE_ROWS);
+    const records = await Promise.all(
+      indices.map((index) => requestToPromise<StoredRow | undefined>(store.get([name, index])))
+    );
+    return records.filter((record): record is StoredRow => !!record).map(({ index, row }) => ({ index, row }));
+  }
+
+  async clearDataset(name: string): Promise<void> {
+    const transaction = this.db!.transaction([STORE_ROWS], 'readwrite');
+    transaction.objectStore(STORE_ROWS).delete(rowRange(name));
+    return transactionToPromise(transaction);
+  }
+
+  async deleteDataset(name: string): Promise<void> {
+    await this.clearDataset(name);
+    await this.clearAlerts(name);
+    await this.replaceRules(name, []);
+    await this.clearBaselines(name);
+    await this.clearRuns(name);
+    await this.clearProfiles(name);
+
+    const transaction = this.db!.transaction([STORE_DATASETS], 'readwrite');
+    transaction.objectStore(STORE_DATASETS).delete(name);
+    return transactionToPromise(transaction);
+  }
+
+  async getRules(dataset: string): Promise<ValidationRule[]> {
+    const transaction = this.db!.transaction([STORE_RULES], 'readonly');
+    const index = transaction.objectStore(STORE_RULES).index('dataset');
+    const rules = await requestToPromise<ValidationRule[]>(index.getAll(IDBKeyRange.only(dataset)));
+    return rules.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  async addRule(dataset: string, config: ValidationConfig): Promise<ValidationRule> {
+    const rule = toRule(dataset, config, new Date());
+    const transaction = this.db!.transaction([STORE_RULES], 'readwrite');
+    transaction.objectStore(STORE_RULES).add(rule);
+    await transactionToPromise(transaction);
+    return rule;
+  }
+
+  async updateRule(rule: ValidationRule): Promise<void> {
+    const transaction = this.db!.transaction([STORE_RULES], 'readwrite');
+    transaction.objectStore(STORE_RULES).put({ ...rule, updatedAt: new Date() });
+    return transactionToPromise(transaction);
+  }
+
+  async deleteRule(id: string): Promise<void> {
+    const transaction = this.db!.transaction([STORE_RULES], 'readwrite');
+    transaction.objectStore(STORE_RULES).delete(id);
+    return transactionToPromise(transaction);
+  }
+
+  /**
+   * Swaps a dataset's whole rule set in one transaction, as used by rule
+   * set imports. Configs keep their ids so re-importing an export is a
+   * no-op rather than a duplicate.
+   */
+  async replaceRules(dataset: string, configs: ValidationConfig[]): Promise<void> {
+    const transaction = this.db!.transaction([STORE_RULES], 'readwrite');
+    const store = transaction.objectStore(STORE_RULES);
+    const now = new Date();
+
+    store.index('dataset').openKeyCursor(IDBKeyRange.only(dataset)).onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursor | null>).result;
+      if (cursor) {
+        store.delete(cursor.primaryKey);
+        cursor.continue();
+        return;
+      }
+      configs.forEach((config) => store.put(toRule(dataset, config, now)));
+    };
+
+    return transactionToPromise(transaction);
+  }
+
+  async addRun(run: Omit<ValidationRun, 'id'>): Promise<ValidationRun> {
+    const fullRun: ValidationRun = { ...run, id: `run-${Date.now()}-${Math.random()}` };
+    const transaction = this.db!.transaction([STORE_RUNS], 'readwrite');
+    transaction.objectStore(STORE_RUNS).add(fullRun);
+    await transactionToPromise(transaction);
+    return fullRun;
+  }
+
+  /** A dataset's runs, oldest first. */
+  async getRuns(dataset: string): Promise<ValidationRun[]> {
+    const transaction = this.db!.transaction([STORE_RUNS], 'readonly');
+    const index = transaction.objectStore(STORE_RUNS).index('dataset');
+    const runs = await requestToPromise<ValidationRun[]>(index.getAll(IDBKeyRange.only(dataset)));
+    return runs.sort((a, b) => new Date(a.startedAt).getTime() - new Date(b.startedAt).getTime());
+  }
+
+  async clearRuns(dataset: string): Promise<void> {
+    const transaction = this.db!.transaction([STORE_RUNS], 'readwrite');
+    const store = transaction.objectStore(STORE_RUNS);
+
+    store.index('dataset').openKeyCursor(IDBKeyRange.only(dataset)).onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursor | null>).result;
+      if (!cursor) return;
+      store.delete(cursor.primaryKey);
+      cursor.continue();
+    };
+
+    return transactionToPromise(transaction);
+  }
+
+  async saveProfile(profile: DatasetProfile): Promise<SavedProfile> {
+    const saved: SavedProfile = { ...profile, id: `profile-${Date.now()}-${Math.random()}` };
+    const transaction = this.db!.transaction([STORE_PROFILES], 'readwrite');
+    transaction.objectStore(STORE_PROFILES).add(saved);
+    await transactionToPromise(transaction);
+    return saved;
+  }
+
+  /** A dataset's saved profiles, oldest first. */
+  async getProfiles(dataset: string): Promise<SavedProfile[]> {
+    const transaction = this.db!.transaction([STORE_PROFILES], 'readonly');
+    const index = transaction.objectStore(STORE_PROFILES).index('dataset');
+    const profiles = await requestToPromise<SavedProfile[]>(index.getAll(IDBKeyRange.only(dataset)));
+    return profiles.sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+  }
+
+  async deleteProfile(id: string): Promise<void> {
+    const transaction = this.db!.transaction([STORE_PROFILES], 'readwrite');
+    transaction.objectStore(STORE_PROFILES).delete(id);
+    return transactionToPromise(transaction);
+  }
+
+  async clearProfiles(dataset: string): Promise<void> {
+    const transaction = this.db!.transaction([STORE_PROFILES], 'readwrite');
+    const store = transaction.objectStore(STORE_PROFILES);
+
+    store.index('dataset').openKeyCursor(IDBKeyRange.only(dataset)).onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursor | null>).result;
+      if (!cursor) return;
+      store.delete(cursor.primaryKey);
+      cursor.continue();
+    };
+
+    return transactionToPromise(transaction);
+  }
+
+  /** Saves a column's drift baseline, replacing any earlier snapshot. */
+  async saveBaseline(dataset: string, baseline: ColumnBaseline): Promise<void> {
+    const transaction = this.db!.transaction([STORE_BASELINES], 'readwrite');
+    transaction.objectStore(STORE_BASELINES).put({ ...baseline, dataset } satisfies StoredBaseline);
+    return transactionToPromise(transaction);
+  }
+
+  async getBaselines(dataset: string): Promise<ColumnBaseline[]> {
+    const transaction = this.db!.transaction([STORE_BASELINES], 'readonly');
+    const index = transaction.objectStore(STORE_BASELINES).index('dataset');
+    const stored = await requestToPromise<StoredBaseline[]>(index.getAll(IDBKeyRange.only(dataset)));
+    return stored.map(({ dataset: _dataset, ...baseline }) => baseline as ColumnBaseline);
+  }
+
+  async deleteBaseline(dataset: string, column: string): Promise<void> {
+    const transaction = this.db!.transaction([STORE_BASELINES], 'readwrite');
+    transaction.objectStore(STORE_BASELINES).delete([dataset, column]);
+    return transactionToPromise(transaction);
+  }
+
+  async clearBaselines(dataset: string): Promise<void> {
+    const transaction = this.db!.transaction([STORE_BASELINES], 'readwrite');
+    const store = transaction.objectStore(STORE_BASELINES);
+
+    store.index('dataset').openKeyCursor(IDBKeyRange.only(dataset)).onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursor | null>).result;
+      if (!cursor) return;
+      store.delete(cursor.primaryKey);
+      cursor.continue();
+    };
+
+    return transactionToPromise(transaction);
+  }
+
+  async addAlert(alert: Omit<Alert, 'id'>): Promise<Alert> {
     const fullAlert: Alert = {
       ...alert,
       id: `alert-${Date.now()}-${Math.random()}`,
@@ -145,19 +649,25 @@ class MockDataService {
       const store = transaction.objectStore(STORE_ALERTS);
       const request = store.add(fullAlert);
 
-      request.onsuccess = () => resolve();
+      request.onsuccess = () => resolve(fullAlert);
       request.onerror = () => reject(request.error);
     });
   }
 
-  async getAlerts(): Promise<Alert[]> {
+  async updateAlert(alert: Alert): Promise<void> {
+    const transaction = this.db!.transaction([STORE_ALERTS], 'readwrite');
+    transaction.objectStore(STORE_ALERTS).put(alert);
+    return transactionToPromise(transaction);
+  }
+
+  async getAlerts(dataset: string): Promise<Alert[]> {
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction([STORE_ALERTS], 'readonly');
       const store = transaction.objectStore(STORE_ALERTS);
-      const request = store.getAll();
+      const request = store.index('dataset').getAll(IDBKeyRange.only(dataset));
 
       request.onsuccess = () => {
-        const alerts = request.result;
+        const alerts: Alert[] = request.result;
         alerts.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
         resolve(alerts);
       };
@@ -165,16 +675,111 @@ class MockDataService {
     });
   }
 
-  async clearAlerts(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([STORE_ALERTS], 'readwrite');
-      const store = transaction.objectStore(STORE_ALERTS);
-      const request = store.clear();
+  async clearAlerts(dataset: string): Promise<void> {
+    const transaction = this.db!.transaction([STORE_ALERTS], 'readwrite');
+    const index = transaction.objectStore(STORE_ALERTS).index('dataset');
 
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
-    });
+    index.openKeyCursor(IDBKeyRange.only(dataset)).onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursor | null>).result;
+      if (!cursor) return;
+      transaction.objectStore(STORE_ALERTS).delete(cursor.primaryKey);
+      cursor.continue();
+    };
+
+    return transactionToPromise(transaction);
+  }
+
+  async getNotificationRoutes(): Promise<NotificationRoute[]> {
+    const transaction = this.db!.transaction([STORE_ROUTES], 'readonly');
+    const routes = await requestToPromise<NotificationRoute[]>(transaction.objectStore(STORE_ROUTES).getAll());
+    return routes.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async saveNotificationRoute(route: Omit<NotificationRoute, 'id'> & { id?: string }): Promise<NotificationRoute> {
+    const saved: NotificationRoute = { ...route, id: route.id ?? `route-${Date.now()}-${Math.random()}` };
+    const transaction = this.db!.transaction([STORE_ROUTES], 'readwrite');
+    transaction.objectStore(STORE_ROUTES).put(saved);
+    await transactionToPromise(transaction);
+    return saved;
+  }
+
+  async deleteNotificationRoute(id: string): Promise<void> {
+    const transaction = this.db!.transaction([STORE_ROUTES], 'readwrite');
+    transaction.objectStore(STORE_ROUTES).delete(id);
+    return transactionToPromise(transaction);
+  }
+
+  async enqueueNotifications(entries: Omit<OutboxEntry, 'id'>[]): Promise<void> {
+    if (entries.length === 0) return;
+    const transaction = this.db!.transaction([STORE_OUTBOX], 'readwrite');
+    const store = transaction.objectStore(STORE_OUTBOX);
+    entries.forEach((entry) => store.add({ ...entry, id: `outbox-${Date.now()}-${Math.random()}` }));
+    return transactionToPromise(transaction);
+  }
+
+  /** Undelivered notifications, soonest due first. */
+  async getOutbox(): Promise<OutboxEntry[]> {
+    const transaction = this.db!.transaction([STORE_OUTBOX], 'readonly');
+    const entries = await requestToPromise<OutboxEntry[]>(transaction.objectStore(STORE_OUTBOX).getAll());
+    return entries.sort((a, b) => new Date(a.nextAttemptAt).getTime() - new Date(b.nextAttemptAt).getTime());
+  }
+
+  /** Makes every waiting notification due now, e.g. after fixing a route's URL. */
+  async retryOutbox(now: Date = new Date()): Promise<void> {
+    const transaction = this.db!.transaction([STORE_OUTBOX], 'readwrite');
+    transaction.objectStore(STORE_OUTBOX).openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      cursor.update({ ...cursor.value, nextAttemptAt: now });
+      cursor.continue();
+    };
+    return transactionToPromise(transaction);
+  }
+
+  /**
+   * Stores the outcome of one delivery attempt in a single transaction: the
+   * outbox entry is rescheduled or removed, and the attempt is logged.
+   */
+  async recordDelivery({ entry, log }: DeliveryAttempt): Promise<void> {
+    const transaction = this.db!.transaction([STORE_OUTBOX, STORE_DELIVERIES], 'readwrite');
+    const outbox = transaction.objectStore(STORE_OUTBOX);
+    if (entry) {
+      outbox.put(entry);
+    } else {
+      outbox.delete(log.outboxId);
+    }
+
+    const deliveries = transaction.objectStore(STORE_DELIVERIES);
+    deliveries.add({ ...log, id: `delivery-${Date.now()}-${Math.random()}` } satisfies DeliveryLogEntry);
+    deliveries.count().onsuccess = (event) => {
+      let excess = (event.target as IDBRequest<number>).result - DELIVERY_LOG_LIMIT;
+      if (excess <= 0) return;
+      deliveries.index('timestamp').openKeyCursor().onsuccess = (cursorEvent) => {
+        const cursor = (cursorEvent.target as IDBRequest<IDBCursor | null>).result;
+        if (!cursor || excess-- <= 0) return;
+        deliveries.delete(cursor.primaryKey);
+        cursor.continue();
+      };
+    };
+
+    return transactionToPromise(transaction);
+  }
+
+  /** The most recent delivery attempts, newest first. */
+  async getDeliveryLog(limit = 100): Promise<DeliveryLogEntry[]> {
+    const transaction = this.db!.transaction([STORE_DELIVERIES], 'readonly');
+    const entries: DeliveryLogEntry[] = [];
+
+    transaction.objectStore(STORE_DELIVERIES).index('timestamp').openCursor(null, 'prev').onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor || entries.length >= limit) return;
+      entries.push(cursor.value);
+      cursor.continue();
+    };
+
+    await transactionToPromise(transaction);
+    return entries;
   }
 }
 
-export const dataService = new MockDataService();
\ No newline at end of file
+export const dataService = new MockDataService();
@@ -1,46 +1,411 @@
+import {
+  binCounts,
+  calculateZScore,
+  chiSquareTest,
+  jensenShannonDivergence,
+  kolmogorovSmirnov,
+  populationStabilityIndex,
+  quantile,
+  sharedBinEdges,
+  toProportions,
+} from './statsUtils';
+import { HyperLogLog, KllSketch, RunningStats } from './sketches';
+import { evaluateExpression, parseExpression, referencedColumns } from './expression';
+import { DAY_MS, DEFAULT_VOLUME_THRESHOLD, MIN_VOLUME_HISTORY, VolumeCheck, VolumePoint, checkVolume, dailyCounts } from './volume';
+import type { DqDimension } from './qualityScore';
+import type { EscalationStep } from './alertLifecycle';
+
 export interface ValidationStrategy {
   name: string;
-  validate(data: any[], column: string, threshold?: number): ValidationResult;
+  validate(
+    data: any[],
+    column: string,
+    threshold?: number,
+    params?: RuleParams,
+    context?: ValidationContext
+  ): StrategyResult;
+  /**
+   * Optional single-pass mode for datasets fed in chunks. Strategies without
+   * it are run on buffered rows by `ValidationStream`.
+   */
+  stream?(column: string, threshold?: number, params?: RuleParams, context?: ValidationContext): StrategyAccumulator;
+}
+
+/** Incremental state of one streaming check. */
+export interface StrategyAccumulator {
+  /** Feeds the next chunk; `offset` is the dataset index of its first row. */
+  add(rows: any[], offset: number): void;
+  result(rowCount: number): StrategyResult;
+}
+
+/**
+ * Everything a run has loaded besides the dataset under validation. The
+ * engine stays synchronous; callers resolve these up front.
+ */
+export interface ValidationContext {
+  /** Rows of other datasets referenced by rules, keyed by dataset name. */
+  datasets?: Record<string, any[]>;
+  /** Saved drift baselines of the dataset under validation, keyed by column. */
+  baselines?: Record<string, ColumnBaseline>;
+  /** Reference time for timeliness and volume checks; defaults to the wall clock. */
+  now?: Date;
+  /** Row counts of the dataset's earlier runs, for per-run volume checks. */
+  volumeHistory?: VolumePoint[];
+}
+
+/** Strategy-specific settings carried on a rule alongside its threshold. */
+export interface RuleParams {
+  /** Format: name of a built-in format, see `BUILTIN_FORMATS`. */
+  format?: string;
+  /** Format: custom regular expression, used when no named format is set. */
+  pattern?: string;
+  flags?: string;
+  /** AllowedValues: the categorical domain of the column. */
+  allowedValues?: string[];
+  /** AllowedValues, Uniqueness: compare strings case-insensitively. */
+  caseInsensitive?: boolean;
+  /** AllowedValues, Schema: when the domain or contract was learned from a snapshot. */
+  learnedAt?: string;
+  /** NumericalRange: outlier model; `threshold` is interpreted per method. */
+  method?: OutlierMethod;
+  /** NumericalRange 'bounds': inclusive limits; either may be omitted. */
+  min?: number;
+  max?: number;
+  /** Uniqueness: composite key columns; defaults to the rule's column. */
+  columns?: string[];
+  /** Uniqueness: ignore leading and trailing whitespace. */
+  trim?: boolean;
+  /** Uniqueness: whether null key parts collide ('equal') or never do ('distinct', default). */
+  nulls?: 'distinct' | 'equal';
+  /** ReferentialIntegrity: the parent dataset and key column. */
+  referenceDataset?: string;
+  referenceColumn?: string;
+  /** ReferentialIntegrity: also report parent keys nothing references. */
+  checkReverse?: boolean;
+  /** Drift: comparison metric; defaults to PSI for numeric and chi-square for categorical baselines. */
+  metric?: DriftMetric;
+  /** Drift: number of shared bins for numeric columns. */
+  bins?: number;
+  /** Schema: the contract, one entry per expected column. */
+  schema?: ColumnSchema[];
+  /** Schema: accept columns the contract does not list. */
+  allowNewColumns?: boolean;
+  /** Freshness: how far past the reference time a timestamp may lie; defaults to 0. */
+  maxFutureHours?: number;
+  /** Freshness: report UTC days without a single row inside the observed range. */
+  dailyCoverage?: boolean;
+  /** Expression: a condition every row must satisfy; see `core/expression.ts`. */
+  expression?: string;
+  /** Volume: compare the row count with earlier runs ('run', default) or rows per day of the rule's date column. */
+  volumeBy?: 'run' | 'day';
+  /** Strategies that fail rows: replaces the strategy's `DEFAULT_SEVERITY_THRESHOLDS`. */
+  severity?: SeverityThresholds;
 }
 
-export interface ValidationResult {
+/** What a strategy reports about a single column check. */
+export interface StrategyResult {
   isValid: boolean;
   failedRows: number[];
   message: string;
   severity: 'critical' | 'warning' | 'info';
+  /** Rows the check actually looked at; defaults to the whole dataset. */
+  evaluatedRows?: number;
+  details?: StrategyDetails;
+}
+
+export interface CategoryDetails {
+  kind: 'categories';
+  /** Values outside the allowed set, most frequent first. */
+  unexpected: { value: string; count: number }[];
+  /** Allowed values that no longer occur in the data. */
+  vanished: string[];
+}
+
+export interface OrphanDetails {
+  kind: 'orphans';
+  referenceDataset: string;
+  referenceColumn: string;
+  /** Child values with no matching parent, most frequent first. */
+  orphans: { value: string; count: number }[];
+  /** Parent keys no child row points at; only set when `checkReverse` is on. */
+  unreferenced?: string[];
+}
+
+export interface DuplicateDetails {
+  kind: 'duplicates';
+  columns: string[];
+  /** Each duplicated key with the indices of every row sharing it. */
+  groups: { key: unknown[]; rows: number[] }[];
+}
+
+export interface OutlierDetails {
+  kind: 'outliers';
+  method: OutlierMethod;
+  threshold: number;
+  /** Mean (z-score) or median (IQR, MAD) of the column. */
+  center: number;
+  /** σ, IQR or MAD depending on the method. */
+  scale: number;
+  bounds: { lower: number; upper: number };
+  /** Score of every flagged row, in the method's units. */
+  scores: { row: number; value: number; score: number }[];
+}
+
+export interface DriftDetails {
+  kind: 'drift';
+  metric: DriftMetric;
+  /** PSI, JS divergence, KS D or chi-square statistic. */
+  value: number;
+  /** Only for the KS and chi-square tests. */
+  pValue?: number;
+  threshold: number;
+  baselineSize: number;
+  currentSize: number;
+  capturedAt: string;
+  /** Share of values per shared bin or category in each sample. */
+  bins: { label: string; baseline: number; current: number }[];
+}
+
+export interface SchemaViolation {
+  kind: 'missing' | 'unexpected' | 'type' | 'nullability';
+  column: string;
+  /** Type violations: the contract's type and the types actually seen. */
+  expected?: ColumnType;
+  actual?: ColumnType[];
+  /** Rows with the offending value; empty for missing and unexpected columns. */
+  rows: number[];
+}
+
+export interface SchemaDetails {
+  kind: 'schema';
+  violations: SchemaViolation[];
+}
+
+export interface FreshnessDetails {
+  kind: 'freshness';
+  /** The reference time the check ran against. */
+  now: string;
+  /** Newest valid timestamp; unset when the column had none. */
+  latest?: string;
+  ageHours?: number;
+  maxAgeHours: number;
+  futureRows: number;
+  unparseableRows: number;
+  /** UTC days (YYYY-MM-DD) with no rows; only set when `dailyCoverage` is on. */
+  missingDays?: string[];
+}
+
+export interface ExpressionDetails {
+  kind: 'expression';
+  expression: string;
+  /** Columns the expression reads; failing rows are marked on each of them. */
+  columns: string[];
+  /** Rows where the expression came out null, e.g. because a column was empty. */
+  unknownRows: number;
+}
+
+export interface VolumeDetails {
+  kind: 'volume';
+  by: 'run' | 'day';
+  threshold: number;
+  /** The run's check, or one per anomalous day labelled with its date. */
+  checks: (VolumeCheck & { label?: string })[];
+}
+
+export type StrategyDetails =
+  | CategoryDetails
+  | OrphanDetails
+  | DuplicateDetails
+  | OutlierDetails
+  | DriftDetails
+  | SchemaDetails
+  | FreshnessDetails
+  | ExpressionDetails
+  | VolumeDetails;
+
+/** A strategy result tied back to the rule that produced it. */
+export interface ValidationResult extends StrategyResult {
+  ruleId: string;
+  strategy: string;
+  column: string;
+  threshold?: number;
+  evaluatedRows: number;
+  failureRate: number;
+}
+
+/**
+ * Cut-offs that grade a rule's failing rows into a severity: above
+ * `warning` is a warning, above `critical` is critical, anything less is
+ * informational. An unset cut-off is never crossed.
+ */
+export interface SeverityThresholds {
+  /** 'rate' measures the share of evaluated rows failing (0–1), 'count' the number of failing rows. */
+  unit: 'rate' | 'count';
+  warning?: number;
+  critical?: number;
+}
+
+/** What each row-failing strategy uses unless the rule sets `params.severity`. */
+export const DEFAULT_SEVERITY_THRESHOLDS: Record<string, SeverityThresholds> = {
+  Completeness: { unit: 'rate', warning: 0.01, critical: 0.1 },
+  NumericalRange: { unit: 'rate', warning: 0.01, critical: 0.05 },
+  // Any duplicate breaks a key.
+  Uniqueness: { unit: 'count', critical: 0 },
+  Format: { unit: 'rate', warning: 0.01, critical: 0.1 },
+  AllowedValues: { unit: 'rate', warning: 0.01, critical: 0.1 },
+  ReferentialIntegrity: { unit: 'rate', warning: 0, critical: 0.01 },
+  Expression: { unit: 'rate', warning: 0.01, critical: 0.1 },
+  Freshness: { unit: 'rate', warning: 0, critical: 0.1 },
+};
+
+export function gradeSeverity(failed: number, evaluated: number, thresholds: SeverityThresholds): StrategyResult['severity'] {
+  if (failed <= 0) return 'info';
+  const measure = thresholds.unit === 'count' ? failed : evaluated > 0 ? failed / evaluated : 0;
+  if (thresholds.critical !== undefined && measure > thresholds.critical) return 'critical';
+  if (thresholds.warning !== undefined && measure > thresholds.warning) return 'warning';
+  return 'info';
 }
 
 export class CompletenessStrategy implements ValidationStrategy {
   name = 'Completeness';
 
-  validate(data: any[], column: string): ValidationResult {
-    const failedRows: number[] = [];
-    
-    data.forEach((row, index) => {
-      const value = row[column];
-      if (value === null || value === undefined || value === '') {
-        failedRows.push(index);
-      }
-    });
+  validate(data: any[], column: string, threshold?: number, params?: RuleParams): StrategyResult {
+    const accumulator = this.stream(column, threshold, params);
+    accumulator.add(data, 0);
+    return accumulator.result(data.length);
+  }
 
-    const failureRate = failedRows.length / data.length;
-    const isValid = failureRate === 0;
+  stream(column: string, _threshold?: number, params: RuleParams = {}): StrategyAccumulator {
+    const failedRows: number[] = [];
 
     return {
-      isValid,
-      failedRows,
-      message: isValid 
-        ? `All ${data.length} rows have complete ${column} values`
-        : `${failedRows.length} rows (${(failureRate * 100).toFixed(1)}%) have missing ${column} values`,
-      severity: failureRate > 0.1 ? 'critical' : failureRate > 0.01 ? 'warning' : 'info',
+      add: (rows, offset) => {
+        rows.forEach((row, index) => {
+          const value = row[column];
+          if (value === null || value === undefined || value === '') {
+            failedRows.push(offset + index);
+          }
+        });
+      },
+      result: (rowCount) => {
+        const failureRate = failedRows.length / rowCount;
+        const isValid = failureRate === 0;
+
+        return {
+          isValid,
+          failedRows,
+          message: isValid 
+            ? `All ${rowCount} rows have complete ${column} values`
+            : `${failedRows.length} rows (${(failureRate * 100).toFixed(1)}%) have missing ${column} values`,
+          severity: gradeSeverity(failedRows.length, rowCount, params.severity ?? DEFAULT_SEVERITY_THRESHOLDS.Completeness),
+        };
+      },
     };
   }
 }
 
+// Scale factors that make MAD and mean absolute deviation estimate σ for
+// normally distributed data.
+const MAD_CONSISTENCY = 0.6745;
+const MEAN_AD_CONSISTENCY = 1.253314;
+
+export type OutlierMethod = 'zscore' | 'iqr' | 'mad' | 'bounds';
+
+/** Default cutoff per method: σ multiples, IQR fence multiplier, modified z-score. */
+export const DEFAULT_OUTLIER_THRESHOLDS: Record<OutlierMethod, number> = {
+  zscore: 3,
+  iqr: 1.5,
+  mad: 3.5,
+  bounds: 0,
+};
+
+interface OutlierModel {
+  center: number;
+  scale: number;
+  /** Distance from normal in the method's own units; flagged above the threshold. */
+  score: (value: number) => number;
+  bounds: (threshold: number) => { lower: number; upper: number };
+}
+
+function zscoreModel(mean: number, stdDev: number): OutlierModel {
+  return {
+    center: mean,
+    scale: stdDev,
+    score: (value) => Math.abs(calculateZScore(value, mean, stdDev)),
+    bounds: (k) => ({ lower: mean - k * stdDev, upper: mean + k * stdDev }),
+  };
+}
+
+function iqrModel(q1: number, median: number, q3: number): OutlierModel {
+  const iqr = q3 - q1;
+  return {
+    center: median,
+    scale: iqr,
+    // Distance beyond the nearer quartile in IQR units, so `k` is the Tukey fence.
+    score: (value) => {
+      const distance = value > q3 ? value - q3 : value < q1 ? q1 - value : 0;
+      if (distance === 0) return 0;
+      return iqr > 0 ? distance / iqr : Infinity;
+    },
+    bounds: (k) => ({ lower: q1 - k * iqr, upper: q3 + k * iqr }),
+  };
+}
+
+function boundsModel(params: RuleParams): OutlierModel {
+  const lower = params.min ?? -Infinity;
+  const upper = params.max ?? Infinity;
+  return {
+    center: NaN,
+    scale: NaN,
+    score: (value) => (value < lower ? lower - value : value > upper ? value - upper : 0),
+    bounds: () => ({ lower, upper }),
+  };
+}
+
+/** Extreme values kept per side by streaming outlier checks. */
+export const OUTLIER_TAIL_SIZE = 1000;
+
+/** The `OUTLIER_TAIL_SIZE` smallest (or largest) values seen, with their rows. */
+class TailBuffer {
+  private items: { row: number; value: number }[] = [];
+  /** The dropped value nearest the retained ones, once anything was dropped. */
+  private nearestDropped?: number;
+
+  constructor(private readonly side: 'low' | 'high') {}
+
+  offer(row: number, value: number): void {
+    this.items.push({ row, value });
+    // Trimming at twice the size keeps offers amortised O(log n).
+    if (this.items.length >= 2 * OUTLIER_TAIL_SIZE) {
+      this.items.sort((a, b) => (this.side === 'low' ? a.value - b.value : b.value - a.value));
+      const nearest = this.items[OUTLIER_TAIL_SIZE].value;
+      if (this.nearestDropped === undefined || this.beyond(nearest, this.nearestDropped)) {
+        this.nearestDropped = nearest;
+      }
+      this.items.length = OUTLIER_TAIL_SIZE;
+    }
+  }
+
+  entries(): { row: number; value: number }[] {
+    return this.items;
+  }
+
+  /** True when a value past `limit` may have been dropped. */
+  droppedBeyond(limit: number): boolean {
+    return this.nearestDropped !== undefined && this.beyond(this.nearestDropped, limit);
+  }
+
+  private beyond(value: number, limit: number): boolean {
+    return this.side === 'low' ? value < limit : value > limit;
+  }
+}
+
 export class NumericalRangeStrategy implements ValidationStrategy {
   name = 'NumericalRange';
 
-  validate(data: any[], column: string, threshold: number = 3): ValidationResult {
+  validate(data: any[], column: string, threshold?: number, params: RuleParams = {}): StrategyResult {
+    const method = params.method ?? 'zscore';
+    const cutoff = threshold ?? DEFAULT_OUTLIER_THRESHOLDS[method];
     const failedRows: number[] = [];
     const values: number[] = [];
 
@@ -60,71 +425,1338 @@ export class NumericalRangeStrategy implements ValidationStrategy {
       };
     }
 
-    const mean = values.reduce((a, b) => a + b, 0) / values.length;
-    const variance = values.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / values.length;
-    const stdDev = Math.sqrt(variance);
+    const model = this.buildModel(method, values, params);
+    const scores: OutlierDetails['scores'] = [];
 
     data.forEach((row, index) => {
       const value = row[column];
       if (typeof value === 'number' && !isNaN(value)) {
-        const zScore = Math.abs((value - mean) / stdDev);
-        if (zScore > threshold) {
+        const score = model.score(value);
+        if (score > cutoff) {
           failedRows.push(index);
+          scores.push({ row: index, value, score });
         }
       }
     });
 
-    const failureRate = failedRows.length / data.length;
+    const bounds = model.bounds(cutoff);
     const isValid = failedRows.length === 0;
 
     return {
       isValid,
       failedRows,
-      message: isValid
-        ? `All ${column} values within ${threshold} standard deviations (μ=${mean.toFixed(2)}, σ=${stdDev.toFixed(2)})`
-        : `${failedRows.length} anomalies detected in ${column} (z-score > ${threshold})`,
-      severity: failureRate > 0.05 ? 'critical' : failureRate > 0.01 ? 'warning' : 'info',
+      message: this.describe(method, column, cutoff, model, bounds, failedRows.length),
+      severity: gradeSeverity(failedRows.length, data.length, params.severity ?? DEFAULT_SEVERITY_THRESHOLDS.NumericalRange),
+      details: { kind: 'outliers', method, threshold: cutoff, center: model.center, scale: model.scale, bounds, scores },
     };
   }
+
+  /**
+   * Single pass for the zscore and iqr methods: Welford moments and a KLL
+   * sketch fit the model, while the `OUTLIER_TAIL_SIZE` smallest and largest
+   * values are kept with their rows to flag against it. IQR fences carry the
+   * sketch's rank error (about ±1.7%) once the column outgrows it. When more
+   * rows fall outside the fences than the tails hold, the count is estimated
+   * from the sketch. `bounds` flags rows as they arrive; `mad` needs the
+   * median before it can measure deviations, so it keeps the numeric values.
+   */
+  stream(column: string, threshold?: number, params: RuleParams = {}): StrategyAccumulator {
+    const method = params.method ?? 'zscore';
+    const cutoff = threshold ?? DEFAULT_OUTLIER_THRESHOLDS[method];
+    const moments = new RunningStats();
+    const sketch = new KllSketch();
+    const low = new TailBuffer('low');
+    const high = new TailBuffer('high');
+    const buffered: { row: number; value: number }[] = [];
+    const bounded = boundsModel(params);
+    const boundedScores: OutlierDetails['scores'] = [];
+
+    const add = (rows: any[], offset: number) => {
+      rows.forEach((row, position) => {
+        const value = row[column];
+        if (typeof value !== 'number' || isNaN(value)) return;
+        const index = offset + position;
+
+        moments.push(value);
+        if (method === 'bounds') {
+          const score = bounded.score(value);
+          if (score > cutoff) boundedScores.push({ row: index, value, score });
+        } else if (method === 'mad') {
+          buffered.push({ row: index, value });
+        } else {
+          sketch.update(value);
+          low.offer(index, value);
+          high.offer(index, value);
+        }
+      });
+    };
+
+    const result = (rowCount: number): StrategyResult => {
+      if (moments.count === 0) {
+        return {
+          isValid: false,
+          failedRows: [],
+          message: `No valid numerical values found in ${column}`,
+          severity: 'warning',
+        };
+      }
+
+      let model: OutlierModel;
+      let scores: OutlierDetails['scores'];
+      let estimated: number | undefined;
+
+      if (method === 'bounds') {
+        model = bounded;
+        scores = boundedScores;
+      } else if (method === 'mad') {
+        model = this.buildModel(method, buffered.map((entry) => entry.value), params);
+        scores = buffered
+          .map(({ row, value }) => ({ row, value, score: model.score(value) }))
+          .filter((entry) => entry.score > cutoff);
+      } else {
+        model = method === 'zscore'
+          ? zscoreModel(moments.mean, moments.stdDev)
+          : iqrModel(sketch.quantile(0.25), sketch.quantile(0.5), sketch.quantile(0.75));
+        const bounds = model.bounds(cutoff);
+        const flagged = new Map<number, OutlierDetails['scores'][number]>();
+        [...low.entries(), ...high.entries()].forEach(({ row, value }) => {
+          const score = model.score(value);
+          if (score > cutoff) flagged.set(row, { row, value, score });
+        });
+        scores = Array.from(flagged.values()).sort((a, b) => a.row - b.row);
+
+        if (low.droppedBeyond(bounds.lower) || high.droppedBeyond(bounds.upper)) {
+          const below = sketch.rank(bounds.lower) * sketch.count;
+          const above = (1 - sketch.rank(bounds.upper)) * sketch.count;
+          estimated = Math.round(below + above);
+        }
+      }
+
+      const failedRows = scores.map((entry) => entry.row);
+      const bounds = model.bounds(cutoff);
+      const failed = estimated ?? failedRows.length;
+      const message = this.describe(method, column, cutoff, model, bounds, failed);
+
+      return {
+        isValid: failed === 0,
+        failedRows,
+        message: estimated === undefined
+          ? message
+          : `≈${message} (estimated from the quantile sketch; ${failedRows.length} most extreme rows listed)`,
+        severity: gradeSeverity(failed, rowCount, params.severity ?? DEFAULT_SEVERITY_THRESHOLDS.NumericalRange),
+        details: { kind: 'outliers', method, threshold: cutoff, center: model.center, scale: model.scale, bounds, scores },
+      };
+    };
+
+    return { add, result };
+  }
+
+  private buildModel(method: OutlierMethod, values: number[], params: RuleParams): OutlierModel {
+    switch (method) {
+      case 'zscore': {
+        const mean = values.reduce((a, b) => a + b, 0) / values.length;
+        const variance = values.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / values.length;
+        return zscoreModel(mean, Math.sqrt(variance));
+      }
+
+      case 'iqr': {
+        const sorted = [...values].sort((a, b) => a - b);
+        return iqrModel(quantile(sorted, 0.25), quantile(sorted, 0.5), quantile(sorted, 0.75));
+      }
+
+      case 'mad': {
+        const sorted = [...values].sort((a, b) => a - b);
+        const median = quantile(sorted, 0.5);
+        const deviations = values.map((v) => Math.abs(v - median)).sort((a, b) => a - b);
+        const mad = quantile(deviations, 0.5);
+        // Iglewicz & Hoaglin: when over half the values are identical MAD is 0,
+        // so fall back to the mean absolute deviation scaled to match.
+        const meanAbsDev = deviations.reduce((a, b) => a + b, 0) / deviations.length;
+        const spread = mad > 0 ? mad / MAD_CONSISTENCY : meanAbsDev * MEAN_AD_CONSISTENCY;
+        return {
+          center: median,
+          scale: mad,
+          score: (value) => (spread > 0 ? Math.abs(value - median) / spread : 0),
+          bounds: (k) => ({ lower: median - k * spread, upper: median + k * spread }),
+        };
+      }
+
+      case 'bounds':
+        return boundsModel(params);
+    }
+  }
+
+  private describe(
+    method: OutlierMethod,
+    column: string,
+    cutoff: number,
+    model: OutlierModel,
+    bounds: { lower: number; upper: number },
+    failed: number
+  ): string {
+    const range = `[${bounds.lower.toFixed(2)}, ${bounds.upper.toFixed(2)}]`;
+
+    switch (method) {
+      case 'zscore':
+        return failed === 0
+          ? `All ${column} values within ${cutoff} standard deviations (μ=${model.center.toFixed(2)}, σ=${model.scale.toFixed(2)})`
+          : `${failed} anomalies detected in ${column} (z-score > ${cutoff})`;
+      case 'iqr':
+        return failed === 0
+          ? `All ${column} values within IQR fences ${range} (k=${cutoff})`
+          : `${failed} anomalies detected in ${column} outside IQR fences ${range} (k=${cutoff})`;
+      case 'mad':
+        return failed === 0
+          ? `All ${column} values within modified z-score ${cutoff} (median=${model.center.toFixed(2)}, MAD=${model.scale.toFixed(2)})`
+          : `${failed} anomalies detected in ${column} (modified z-score > ${cutoff}, median=${model.center.toFixed(2)}, MAD=${model.scale.toFixed(2)})`;
+      case 'bounds':
+        return failed === 0
+          ? `All ${column} values within ${range}`
+          : `${failed} ${column} values outside ${range}`;
+    }
+  }
 }
 
+// Beyond this many distinct keys uniqueness streams switch to a HyperLogLog estimate.
+export const MAX_EXACT_KEYS = 1_000_000;
+
 export class UniquenessStrategy implements ValidationStrategy {
   name = 'Uniqueness';
 
-  validate(data: any[], column: string): ValidationResult {
-    const seen = new Map<any, number[]>();
+  constructor(private readonly maxExactKeys: number = MAX_EXACT_KEYS) {}
+
+  validate(data: any[], column: string, threshold?: number, params: RuleParams = {}): StrategyResult {
+    const accumulator = this.stream(column, threshold, params);
+    accumulator.add(data, 0);
+    return accumulator.result(data.length);
+  }
+
+  /**
+   * Exact while the key map stays under `maxExactKeys`. Past that, keys not
+   * already in the map are only counted by HyperLogLog, and the number of
+   * repeated rows becomes an estimate: keyed rows minus distinct keys.
+   */
+  stream(column: string, _threshold?: number, params: RuleParams = {}): StrategyAccumulator {
+    const columns = params.columns && params.columns.length > 0 ? params.columns : [column];
+    const label = columns.length > 1 ? `(${columns.join(', ')})` : columns[0];
+    const nullsEqual = params.nulls === 'equal';
+    const seen = new Map<string, number[]>();
     const failedRows: number[] = [];
+    const distinct = new HyperLogLog();
+    let keyedRows = 0;
+    let overflowed = false;
 
-    data.forEach((row, index) => {
-      const value = row[column];
-      if (value !== null && value !== undefined) {
-        if (seen.has(value)) {
-          const indices = seen.get(value)!;
+    const add = (rows: any[], offset: number) => {
+      rows.forEach((row, position) => {
+        const index = offset + position;
+        const values = columns.map((c) => this.normalize(row[c], params));
+        // SQL semantics by default: a key containing NULL never collides.
+        if (!nullsEqual && values.some((v) => v === null)) return;
+
+        const key = JSON.stringify(values);
+        keyedRows++;
+        const indices = seen.get(key);
+        if (indices) {
           if (indices.length === 1) {
             failedRows.push(indices[0]);
           }
           failedRows.push(index);
           indices.push(index);
+        } else if (seen.size < this.maxExactKeys) {
+          seen.set(key, [index]);
         } else {
-          seen.set(value, [index]);
+          overflowed = true;
+          distinct.add(key);
         }
+      });
+    };
+
+    const result = (rowCount: number): StrategyResult => {
+      const groups = Array.from(seen)
+        .filter(([, rows]) => rows.length > 1)
+        .map(([key, rows]) => ({ key: JSON.parse(key) as unknown[], rows }));
+
+      if (overflowed) {
+        const repeats = Math.max(0, keyedRows - seen.size - distinct.count());
+        return {
+          isValid: repeats === 0,
+          failedRows,
+          message:
+            `≈${repeats} repeated ${label} values estimated over ${keyedRows} keyed rows ` +
+            `(${failedRows.length} rows confirmed, distinct count ±${(distinct.standardError * 100).toFixed(1)}%)`,
+          severity: gradeSeverity(repeats, keyedRows, params.severity ?? DEFAULT_SEVERITY_THRESHOLDS.Uniqueness),
+          details: { kind: 'duplicates', columns, groups },
+        };
+      }
+
+      const duplicateCount = failedRows.length;
+      const isValid = duplicateCount === 0;
+
+      return {
+        isValid,
+        failedRows,
+        message: isValid
+          ? `All ${rowCount} ${label} values are unique`
+          : `${duplicateCount} duplicate ${label} values detected in ${groups.length} ${groups.length === 1 ? 'group' : 'groups'}`,
+        severity: gradeSeverity(duplicateCount, keyedRows, params.severity ?? DEFAULT_SEVERITY_THRESHOLDS.Uniqueness),
+        details: { kind: 'duplicates', columns, groups },
+      };
+    };
+
+    return { add, result };
+  }
+
+  private normalize(value: unknown, params: RuleParams): unknown {
+    if (value === null || value === undefined) return null;
+    if (typeof value !== 'string') return value;
+
+    let text = value;
+    if (params.trim) text = text.trim();
+    if (params.caseInsensitive) text = text.toLowerCase();
+    return text;
+  }
+}
+
+type FormatValidator = (value: string) => boolean;
+
+const ISO_8601 = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+export const BUILTIN_FORMATS: Record<string, FormatValidator> = {
+  email: (value) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  uuid: (value) => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value),
+  iso8601: (value) => ISO_8601.test(value) && !isNaN(Date.parse(value)),
+  e164: (value) => /^\+[1-9]\d{1,14}$/.test(value),
+  url: (value) => {
+    try {
+      const url = new URL(value);
+      return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+      return false;
+    }
+  },
+};
+
+const SAMPLE_SIZE = 5;
+
+export class FormatStrategy implements ValidationStrategy {
+  name = 'Format';
+
+  validate(data: any[], column: string, _threshold?: number, params: RuleParams = {}): StrategyResult {
+    const label = params.format ? `${params.format} format` : `/${params.pattern ?? ''}/`;
+    let isMatch: FormatValidator;
+
+    try {
+      isMatch = this.resolveValidator(params);
+    } catch (error) {
+      return {
+        isValid: false,
+        failedRows: [],
+        message: `Invalid format rule for ${column}: ${(error as Error).message}`,
+        severity: 'warning',
+        evaluatedRows: 0,
+      };
+    }
+
+    const failedRows: number[] = [];
+    const offending = new Set<string>();
+    let evaluated = 0;
+
+    data.forEach((row, index) => {
+      const value = row[column];
+      if (value === null || value === undefined || value === '') return;
+
+      evaluated++;
+      const text = String(value);
+      if (!isMatch(text)) {
+        failedRows.push(index);
+        if (offending.size < SAMPLE_SIZE) offending.add(text);
+      }
+    });
+
+    const failureRate = evaluated > 0 ? failedRows.length / evaluated : 0;
+    const isValid = failedRows.length === 0;
+    const sample = Array.from(offending).map((v) => JSON.stringify(v)).join(', ');
+
+    return {
+      isValid,
+      failedRows,
+      message: isValid
+        ? `All ${evaluated} non-empty ${column} values match ${label}`
+        : `${failedRows.length} rows (${(failureRate * 100).toFixed(1)}%) have ${column} values not matching ${label}, e.g. ${sample}`,
+      severity: gradeSeverity(failedRows.length, evaluated, params.severity ?? DEFAULT_SEVERITY_THRESHOLDS.Format),
+      evaluatedRows: evaluated,
+    };
+  }
+
+  private resolveValidator(params: RuleParams): FormatValidator {
+    if (params.format) {
+      const validator = BUILTIN_FORMATS[params.format];
+      if (!validator) {
+        throw new Error(`unknown format "${params.format}"`);
+      }
+      return validator;
+    }
+
+    if (params.pattern) {
+      const regex = new RegExp(params.pattern, params.flags);
+      return (value) => {
+        regex.lastIndex = 0;
+        return regex.test(value);
+      };
+    }
+
+    throw new Error('no format or pattern configured');
+  }
+}
+
+/**
+ * Learns something about a dataset from its rows, fed one chunk at a time,
+ * so rules can be set up from every row without holding them all; see
+ * `learnInChunks`.
+ */
+export interface RowLearner<T> {
+  add(rows: any[]): void;
+  result(): T;
+}
+
+const learnFrom = <T>(learner: RowLearner<T>, data: any[]): T => {
+  learner.add(data);
+  return learner.result();
+};
+
+/** Streaming form of `learnAllowedValues`. */
+export function allowedValuesLearner(column: string): RowLearner<string[]> {
+  const values = new Set<string>();
+  return {
+    add(rows) {
+      rows.forEach((row) => {
+        const value = row[column];
+        if (value !== null && value !== undefined && value !== '') {
+          values.add(String(value));
+        }
+      });
+    },
+    result: () => Array.from(values).sort(),
+  };
+}
+
+/**
+ * Builds an allowed-values domain from a baseline snapshot of a column:
+ * every distinct non-empty value, sorted.
+ */
+export function learnAllowedValues(data: any[], column: string): string[] {
+  return learnFrom(allowedValuesLearner(column), data);
+}
+
+export class AllowedValuesStrategy implements ValidationStrategy {
+  name = 'AllowedValues';
+
+  validate(data: any[], column: string, _threshold?: number, params: RuleParams = {}): StrategyResult {
+    const allowed = params.allowedValues ?? [];
+    if (allowed.length === 0) {
+      return {
+        isValid: false,
+        failedRows: [],
+        message: `No allowed values configured for ${column}`,
+        severity: 'warning',
+        evaluatedRows: 0,
+      };
+    }
+
+    const normalize = (value: string) => (params.caseInsensitive ? value.toLowerCase() : value);
+    const allowedByKey = new Map(allowed.map((value) => [normalize(value), value]));
+    const seen = new Set<string>();
+    const unexpectedCounts = new Map<string, number>();
+    const failedRows: number[] = [];
+    let evaluated = 0;
+
+    data.forEach((row, index) => {
+      const value = row[column];
+      if (value === null || value === undefined || value === '') return;
+
+      evaluated++;
+      const text = String(value);
+      const key = normalize(text);
+      if (allowedByKey.has(key)) {
+        seen.add(key);
+      } else {
+        failedRows.push(index);
+        unexpectedCounts.set(text, (unexpectedCounts.get(text) ?? 0) + 1);
+      }
+    });
+
+    const unexpected = Array.from(unexpectedCounts, ([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+    const vanished = Array.from(allowedByKey)
+      .filter(([key]) => !seen.has(key))
+      .map(([, value]) => value);
+
+    const isValid = unexpected.length === 0 && vanished.length === 0;
+    const parts: string[] = [];
+
+    if (unexpected.length > 0) {
+      const listed = unexpected.slice(0, SAMPLE_SIZE).map((u) => `"${u.value}" (${u.count})`).join(', ');
+      const more = unexpected.length > SAMPLE_SIZE ? ` and ${unexpected.length - SAMPLE_SIZE} more` : '';
+      parts.push(`${failedRows.length} rows have unexpected ${column} values: ${listed}${more}`);
+    }
+    if (vanished.length > 0) {
+      parts.push(`${vanished.length} expected ${column} values no longer occur: ${vanished.map((v) => `"${v}"`).join(', ')}`);
+    }
+
+    return {
+      isValid,
+      failedRows,
+      message: isValid
+        ? `All ${evaluated} non-empty ${column} values are in the allowed set of ${allowed.length}`
+        : parts.join('; '),
+      // Vanished categories alone affect no rows, so they only inform.
+      severity: gradeSeverity(failedRows.length, evaluated, params.severity ?? DEFAULT_SEVERITY_THRESHOLDS.AllowedValues),
+      evaluatedRows: evaluated,
+      details: { kind: 'categories', unexpected, vanished },
+    };
+  }
+}
+
+export class ReferentialIntegrityStrategy implements ValidationStrategy {
+  name = 'ReferentialIntegrity';
+
+  validate(
+    data: any[],
+    column: string,
+    _threshold?: number,
+    params: RuleParams = {},
+    context: ValidationContext = {}
+  ): StrategyResult {
+    const referenceDataset = params.referenceDataset;
+    const referenceColumn = params.referenceColumn ?? column;
+    const parents = referenceDataset ? context.datasets?.[referenceDataset] : undefined;
+
+    if (!referenceDataset || !parents) {
+      return {
+        isValid: false,
+        failedRows: [],
+        message: referenceDataset
+          ? `Referenced dataset ${referenceDataset} is not available`
+          : `No referenced dataset configured for ${column}`,
+        severity: 'warning',
+        evaluatedRows: 0,
+      };
+    }
+
+    const parentKeys = new Set<string>();
+    parents.forEach((parent) => {
+      const key = parent[referenceColumn];
+      if (key !== null && key !== undefined && key !== '') parentKeys.add(String(key));
+    });
+
+    const failedRows: number[] = [];
+    const orphanCounts = new Map<string, number>();
+    const referenced = new Set<string>();
+    let evaluated = 0;
+
+    data.forEach((row, index) => {
+      const value = row[column];
+      // A missing foreign key is a completeness problem, not an orphan.
+      if (value === null || value === undefined || value === '') return;
+
+      evaluated++;
+      const key = String(value);
+      if (parentKeys.has(key)) {
+        referenced.add(key);
+      } else {
+        failedRows.push(index);
+        orphanCounts.set(key, (orphanCounts.get(key) ?? 0) + 1);
       }
     });
 
-    const duplicateCount = failedRows.length;
-    const isValid = duplicateCount === 0;
+    const orphans = Array.from(orphanCounts, ([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+    const unreferenced = params.checkReverse
+      ? Array.from(parentKeys).filter((key) => !referenced.has(key))
+      : undefined;
+
+    const target = `${referenceDataset}.${referenceColumn}`;
+    const isValid = orphans.length === 0 && (unreferenced?.length ?? 0) === 0;
+    const parts: string[] = [];
+
+    if (orphans.length > 0) {
+      const listed = orphans.slice(0, SAMPLE_SIZE).map((o) => `"${o.value}" (${o.count})`).join(', ');
+      const more = orphans.length > SAMPLE_SIZE ? ` and ${orphans.length - SAMPLE_SIZE} more` : '';
+      parts.push(`${failedRows.length} rows have ${column} values missing from ${target}: ${listed}${more}`);
+    }
+    if (unreferenced && unreferenced.length > 0) {
+      const listed = unreferenced.slice(0, SAMPLE_SIZE).map((v) => `"${v}"`).join(', ');
+      parts.push(`${unreferenced.length} ${target} values are never referenced by ${column}, e.g. ${listed}`);
+    }
 
     return {
       isValid,
       failedRows,
       message: isValid
-        ? `All ${data.length} ${column} values are unique`
-        : `${duplicateCount} duplicate ${column} values detected`,
-      severity: duplicateCount > 0 ? 'critical' : 'info',
+        ? `All ${evaluated} ${column} values exist in ${target}`
+        : parts.join('; '),
+      severity: gradeSeverity(failedRows.length, evaluated, params.severity ?? DEFAULT_SEVERITY_THRESHOLDS.ReferentialIntegrity),
+      evaluatedRows: evaluated,
+      details: { kind: 'orphans', referenceDataset, referenceColumn, orphans, unreferenced },
+    };
+  }
+}
+
+/** A saved snapshot of one column's distribution that later runs are compared with. */
+export type ColumnBaseline = {
+  column: string;
+  capturedAt: string;
+  /** Non-empty values in the snapshot. */
+  size: number;
+} & (
+  | { kind: 'numeric'; values: number[] }
+  | { kind: 'categorical'; counts: Record<string, number> }
+);
+
+// Numeric baselines keep an evenly spaced sample of the sorted values so
+// stored snapshots of large imports stay small.
+const MAX_BASELINE_VALUES = 10000;
+
+/**
+ * Streaming form of `captureBaseline`. Up to `MAX_BASELINE_VALUES` numbers
+ * are kept exactly; past that the evenly spaced values are read from a KLL
+ * sketch, so each is within its rank error of the exact quantile.
+ */
+export function baselineLearner(column: string): RowLearner<ColumnBaseline> {
+  const counts = new Map<string, number>();
+  const sketch = new KllSketch();
+  let exact: number[] | null = [];
+  let size = 0;
+  let numeric = true;
+
+  return {
+    add(rows) {
+      rows.forEach((row) => {
+        const value = row[column];
+        if (value === null || value === undefined || value === '') return;
+        size++;
+        const key = String(value);
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+        if (!numeric) return;
+        if (typeof value !== 'number' || !isFinite(value)) {
+          numeric = false;
+          return;
+        }
+        sketch.update(value);
+        if (exact && exact.length < MAX_BASELINE_VALUES) exact.push(value);
+        else exact = null;
+      });
+    },
+    result() {
+      const capturedAt = new Date().toISOString();
+      if (size > 0 && numeric) {
+        const values = exact
+          ? [...exact].sort((a, b) => a - b)
+          : Array.from({ length: MAX_BASELINE_VALUES }, (_, i) => sketch.quantile(i / (MAX_BASELINE_VALUES - 1)));
+        return { kind: 'numeric', column, capturedAt, size, values };
+      }
+      return { kind: 'categorical', column, capturedAt, size, counts: Object.fromEntries(counts) };
+    },
+  };
+}
+
+/**
+ * Snapshots a column's current distribution. Columns whose non-empty values
+ * are all finite numbers get a numeric baseline, anything else is counted
+ * per category.
+ */
+export function captureBaseline(data: any[], column: string): ColumnBaseline {
+  return learnFrom(baselineLearner(column), data);
+}
+
+export type DriftMetric = 'psi' | 'ks' | 'js' | 'chi2';
+
+/**
+ * Default alert threshold per metric. PSI and JS alert when the divergence
+ * exceeds it; KS and chi-square alert when the p-value falls below it.
+ */
+export const DEFAULT_DRIFT_THRESHOLDS: Record<DriftMetric, number> = {
+  psi: 0.2,
+  js: 0.1,
+  ks: 0.05,
+  chi2: 0.05,
+};
+
+const DRIFT_METRIC_LABELS: Record<DriftMetric, string> = {
+  psi: 'PSI',
+  js: 'JS divergence',
+  ks: 'KS D',
+  chi2: 'χ²',
+};
+
+const DEFAULT_DRIFT_BINS = 10;
+
+export class DriftStrategy implements ValidationStrategy {
+  name = 'Drift';
+
+  validate(
+    data: any[],
+    column: string,
+    threshold?: number,
+    params: RuleParams = {},
+    context: ValidationContext = {}
+  ): StrategyResult {
+    const baseline = context.baselines?.[column];
+    const metric = params.metric ?? (baseline?.kind === 'categorical' ? 'chi2' : 'psi');
+    const cutoff = threshold ?? DEFAULT_DRIFT_THRESHOLDS[metric];
+
+    if (!baseline || (baseline.kind === 'categorical' && metric === 'ks')) {
+      return {
+        isValid: false,
+        failedRows: [],
+        message: baseline
+          ? `KS test needs a numeric baseline, but ${column} was captured as categorical`
+          : `No drift baseline saved for ${column}`,
+        severity: 'warning',
+        evaluatedRows: 0,
+      };
+    }
+
+    // Non-numeric values have no bin in a numeric baseline; they belong to a Format check.
+    const present = data
+      .map((row) => row[column])
+      .filter((value) => value !== null && value !== undefined && value !== '')
+      .filter((value) => baseline.kind === 'categorical' || (typeof value === 'number' && isFinite(value)));
+    if (present.length === 0) {
+      return {
+        isValid: false,
+        failedRows: [],
+        message: `No ${column} values to compare with the baseline`,
+        severity: 'warning',
+        evaluatedRows: 0,
+      };
+    }
+
+    const { labels, expected, observed, samples } = this.align(baseline, present, params.bins ?? DEFAULT_DRIFT_BINS);
+    const expectedShare = toProportions(expected);
+    const observedShare = toProportions(observed);
+    let value: number;
+    let pValue: number | undefined;
+
+    switch (metric) {
+      case 'psi':
+        value = populationStabilityIndex(expectedShare, observedShare);
+        break;
+      case 'js':
+        value = jensenShannonDivergence(expectedShare, observedShare);
+        break;
+      case 'ks':
+        ({ statistic: value, pValue } = kolmogorovSmirnov(samples.baseline, samples.current));
+        break;
+      case 'chi2':
+        ({ statistic: value, pValue } = chiSquareTest(expected, observed));
+        break;
+    }
+
+    const drifted = pValue !== undefined ? pValue < cutoff : value > cutoff;
+    // Well past the threshold (an order of magnitude for p-values) is critical.
+    const severe = pValue !== undefined ? pValue < cutoff / 10 : value > cutoff * 2;
+    const label = DRIFT_METRIC_LABELS[metric];
+    const measured = pValue !== undefined
+      ? `${label}=${value.toFixed(3)}, p=${pValue.toPrecision(3)} ${drifted ? '<' : '≥'} ${cutoff}`
+      : `${label}=${value.toFixed(3)} ${drifted ? '>' : '≤'} ${cutoff}`;
+
+    return {
+      isValid: !drifted,
+      failedRows: [],
+      message: drifted
+        ? `${column} distribution drifted from baseline (${measured})`
+        : `${column} distribution matches baseline (${measured})`,
+      severity: drifted ? (severe ? 'critical' : 'warning') : 'info',
+      evaluatedRows: present.length,
+      details: {
+        kind: 'drift',
+        metric,
+        value,
+        pValue,
+        threshold: cutoff,
+        baselineSize: baseline.size,
+        currentSize: present.length,
+        capturedAt: baseline.capturedAt,
+        bins: labels.map((binLabel, i) => ({ label: binLabel, baseline: expectedShare[i], current: observedShare[i] })),
+      },
+    };
+  }
+
+  /** Puts baseline and current values on the same bins or categories. */
+  private align(baseline: ColumnBaseline, present: unknown[], bins: number) {
+    if (baseline.kind === 'numeric') {
+      const current = present as number[];
+      const edges = sharedBinEdges(baseline.values, current, Math.max(1, Math.floor(bins)));
+      const scale = baseline.size / baseline.values.length;
+      return {
+        labels: edges.slice(0, -1).map((edge) => edge.toFixed(2)),
+        expected: binCounts(baseline.values, edges).map((count) => count * scale),
+        observed: binCounts(current, edges),
+        samples: { baseline: baseline.values, current },
+      };
+    }
+
+    const observedCounts = new Map<string, number>();
+    present.forEach((value) => {
+      const key = String(value);
+      observedCounts.set(key, (observedCounts.get(key) ?? 0) + 1);
+    });
+    const labels = Array.from(new Set([...Object.keys(baseline.counts), ...observedCounts.keys()])).sort();
+    return {
+      labels,
+      expected: labels.map((key) => baseline.counts[key] ?? 0),
+      observed: labels.map((key) => observedCounts.get(key) ?? 0),
+      samples: { baseline: [], current: [] },
     };
   }
 }
 
+export type ColumnType = 'number' | 'boolean' | 'string' | 'date' | 'object' | 'any';
+
+/** One column of a schema contract. */
+export interface ColumnSchema {
+  name: string;
+  /** 'any' accepts every type; 'string' also accepts ISO-8601 date strings. */
+  type: ColumnType;
+  nullable: boolean;
+  /** Built-in format every value matched when inferred; informational, enforce it with a Format rule. */
+  format?: string;
+}
+
+/** Schema and per-run Volume rules check whole rows, so they carry this in place of a column. */
+export const SCHEMA_COLUMN = '*';
+
+const isBlank = (value: unknown) => value === null || value === undefined || value === '';
+
+function typeOfValue(value: unknown): ColumnType {
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'string') return ISO_8601.test(value) ? 'date' : 'string';
+  if (value instanceof Date) return 'date';
+  return 'object';
+}
+
+function appendRow(rowsByColumn: Map<string, number[]>, column: string, row: number): void {
+  const rows = rowsByColumn.get(column);
+  if (rows) rows.push(row);
+  else rowsByColumn.set(column, [row]);
+}
+
+function acceptsType(expected: ColumnType, actual: ColumnType): boolean {
+  return expected === 'any' || expected === actual || (expected === 'string' && actual === 'date');
+}
+
+/** Streaming form of `inferSchema`. */
+export function schemaLearner(): RowLearner<ColumnSchema[]> {
+  // `formats` narrows to the built-in formats every string so far matched; null until a string is seen.
+  const columns = new Map<string, { types: Set<ColumnType>; nulls: number; formats: string[] | null }>();
+  let rowsSeen = 0;
+
+  return {
+    add(rows) {
+      rows.forEach((row) => {
+        Object.keys(row).forEach((name) => {
+          // Earlier rows lacked the column, so they count as empty.
+          if (!columns.has(name)) columns.set(name, { types: new Set(), nulls: rowsSeen, formats: null });
+        });
+        columns.forEach((column, name) => {
+          const value = row[name];
+          if (isBlank(value)) {
+            column.nulls++;
+            return;
+          }
+          column.types.add(typeOfValue(value));
+          if (typeof value === 'string') {
+            const candidates = column.formats ?? Object.keys(BUILTIN_FORMATS).filter((f) => f !== 'iso8601');
+            column.formats = candidates.filter((f) => BUILTIN_FORMATS[f](value));
+          }
+        });
+        rowsSeen++;
+      });
+    },
+    result() {
+      return Array.from(columns, ([name, { types, nulls, formats }]) => {
+        const observed = Array.from(types);
+        const type: ColumnType =
+          observed.length === 0
+            ? 'any'
+            : observed.length === 1
+              ? observed[0]
+              : observed.every((t) => t === 'string' || t === 'date')
+                ? 'string'
+                : 'any';
+        const format = type === 'string' ? formats?.[0] : undefined;
+
+        return { name, type, nullable: nulls > 0, ...(format && { format }) };
+      });
+    },
+  };
+}
+
+/**
+ * Infers a contract from the current rows: the type every non-empty value
+ * shares (dates widen to string, anything else mixed becomes 'any'),
+ * whether empty values occur, and a built-in format all strings match.
+ */
+export function inferSchema(data: any[]): ColumnSchema[] {
+  return learnFrom(schemaLearner(), data);
+}
+
+export class SchemaStrategy implements ValidationStrategy {
+  name = 'Schema';
+
+  validate(data: any[], column: string, threshold?: number, params: RuleParams = {}): StrategyResult {
+    const accumulator = this.stream(column, threshold, params);
+    accumulator.add(data, 0);
+    return accumulator.result(data.length);
+  }
+
+  /**
+   * Checks each row against `params.schema`: columns missing from every row,
+   * columns the contract does not list, values of the wrong type and empty
+   * values in non-nullable columns. Missing columns and type changes are
+   * critical; the rest are warnings.
+   */
+  stream(_column: string, _threshold?: number, params: RuleParams = {}): StrategyAccumulator {
+    const contract = params.schema ?? [];
+    const observed = new Set<string>();
+    const typeRows = new Map<string, number[]>();
+    const typesSeen = new Map<string, Set<ColumnType>>();
+    const nullRows = new Map<string, number[]>();
+
+    const add = (rows: any[], offset: number) => {
+      rows.forEach((row, position) => {
+        const index = offset + position;
+        for (const name in row) observed.add(name);
+
+        contract.forEach((expected) => {
+          const value = row[expected.name];
+          if (isBlank(value)) {
+            if (!expected.nullable) appendRow(nullRows, expected.name, index);
+            return;
+          }
+          const actual = typeOfValue(value);
+          if (!acceptsType(expected.type, actual)) {
+            appendRow(typeRows, expected.name, index);
+            typesSeen.set(expected.name, (typesSeen.get(expected.name) ?? new Set<ColumnType>()).add(actual));
+          }
+        });
+      });
+    };
+
+    const result = (rowCount: number): StrategyResult => {
+      if (contract.length === 0) {
+        return {
+          isValid: false,
+          failedRows: [],
+          message: 'No schema contract captured for this dataset',
+          severity: 'warning',
+          evaluatedRows: 0,
+        };
+      }
+
+      const listed = new Set(contract.map((c) => c.name));
+      const violations: SchemaViolation[] = [];
+
+      contract.forEach(({ name, type }) => {
+        if (!observed.has(name)) {
+          violations.push({ kind: 'missing', column: name, rows: [] });
+          return;
+        }
+        const wrongType = typeRows.get(name);
+        if (wrongType) {
+          violations.push({ kind: 'type', column: name, expected: type, actual: Array.from(typesSeen.get(name)!), rows: wrongType });
+        }
+        const nulls = nullRows.get(name);
+        if (nulls) {
+          violations.push({ kind: 'nullability', column: name, rows: nulls });
+        }
+      });
+
+      if (!params.allowNewColumns) {
+        observed.forEach((name) => {
+          if (!listed.has(name)) violations.push({ kind: 'unexpected', column: name, rows: [] });
+        });
+      }
+
+      const failedRows = Array.from(new Set(violations.flatMap((v) => v.rows))).sort((a, b) => a - b);
+      const breaking = violations.some((v) => v.kind === 'missing' || v.kind === 'type');
+
+      return {
+        isValid: violations.length === 0,
+        failedRows,
+        message: violations.length === 0
+          ? `All ${rowCount} rows match the ${contract.length}-column schema contract`
+          : `Schema contract violated: ${violations.map(describeSchemaViolation).join('; ')}`,
+        severity: breaking ? 'critical' : violations.length > 0 ? 'warning' : 'info',
+        details: { kind: 'schema', violations },
+      };
+    };
+
+    return { add, result };
+  }
+}
+
+export function describeSchemaViolation(violation: SchemaViolation): string {
+  switch (violation.kind) {
+    case 'missing':
+      return `missing column ${violation.column}`;
+    case 'unexpected':
+      return `new column ${violation.column}`;
+    case 'type':
+      return `${violation.column} expected ${violation.expected}, got ${violation.actual!.join('/')} in ${violation.rows.length} rows`;
+    case 'nullability':
+      return `${violation.column} has ${violation.rows.length} empty values but is not nullable`;
+  }
+}
+
+export const DEFAULT_FRESHNESS_SLA_HOURS = 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const SEVERITY_RANK: Record<StrategyResult['severity'], number> = { info: 0, warning: 1, critical: 2 };
+
+const worstSeverity = (severities: StrategyResult['severity'][]) =>
+  severities.reduce((worst, severity) => (SEVERITY_RANK[severity] > SEVERITY_RANK[worst] ? severity : worst), 'info');
+
+function parseTimestamp(value: unknown): number {
+  if (value instanceof Date) return value.getTime();
+  return typeof value === 'string' ? Date.parse(value) : NaN;
+}
+
+/**
+ * Timeliness of a timestamp column. `threshold` is the SLA in hours: the
+ * newest timestamp may be at most that old relative to `context.now`. Data
+ * late by up to one more SLA is a warning, anything later is critical.
+ * Future-dated and unparseable values fail their rows, and `dailyCoverage`
+ * adds the days inside the observed range that have no rows at all.
+ */
+export class FreshnessStrategy implements ValidationStrategy {
+  name = 'Freshness';
+
+  validate(data: any[], column: string, threshold?: number, params?: RuleParams, context?: ValidationContext): StrategyResult {
+    const accumulator = this.stream(column, threshold, params, context);
+    accumulator.add(data, 0);
+    return accumulator.result(data.length);
+  }
+
+  stream(
+    column: string,
+    threshold = DEFAULT_FRESHNESS_SLA_HOURS,
+    params: RuleParams = {},
+    context: ValidationContext = {}
+  ): StrategyAccumulator {
+    const now = (context.now ?? new Date()).getTime();
+    const futureLimit = now + (params.maxFutureHours ?? 0) * HOUR_MS;
+    const futureRows: number[] = [];
+    const unparseableRows: number[] = [];
+    const days = new Set<number>();
+    let latest = -Infinity;
+    let evaluated = 0;
+
+    const add = (rows: any[], offset: number) => {
+      rows.forEach((row, index) => {
+        const value = row[column];
+        if (isBlank(value)) return;
+
+        evaluated++;
+        const time = parseTimestamp(value);
+        if (isNaN(time)) {
+          unparseableRows.push(offset + index);
+        } else if (time > futureLimit) {
+          futureRows.push(offset + index);
+        } else {
+          latest = Math.max(latest, time);
+          if (params.dailyCoverage) days.add(Math.floor(time / DAY_MS));
+        }
+      });
+    };
+
+    const result = (): StrategyResult => {
+      const failedRows = [...unparseableRows, ...futureRows].sort((a, b) => a - b);
+      const missingDays = params.dailyCoverage ? this.missingDays(days) : undefined;
+      const parts: string[] = [];
+      const severities: StrategyResult['severity'][] = [];
+      const details: FreshnessDetails = {
+        kind: 'freshness',
+        now: new Date(now).toISOString(),
+        maxAgeHours: threshold,
+        futureRows: futureRows.length,
+        unparseableRows: unparseableRows.length,
+        missingDays,
+      };
+
+      if (latest === -Infinity) {
+        parts.push(`No valid ${column} timestamps`);
+        severities.push('critical');
+      } else {
+        const ageHours = (now - latest) / HOUR_MS;
+        details.latest = new Date(latest).toISOString();
+        details.ageHours = ageHours;
+        if (ageHours > threshold) {
+          parts.push(`Latest ${column} is ${formatHours(ageHours)} old, ${formatHours(ageHours - threshold)} past the ${formatHours(threshold)} SLA`);
+          severities.push(ageHours > threshold * 2 ? 'critical' : 'warning');
+        }
+      }
+      if (futureRows.length > 0) {
+        parts.push(`${futureRows.length} rows have ${column} in the future`);
+      }
+      if (unparseableRows.length > 0) {
+        parts.push(`${unparseableRows.length} rows have unparseable ${column} values`);
+      }
+      severities.push(gradeSeverity(failedRows.length, evaluated, params.severity ?? DEFAULT_SEVERITY_THRESHOLDS.Freshness));
+      if (missingDays && missingDays.length > 0) {
+        const listed = missingDays.slice(0, SAMPLE_SIZE).join(', ');
+        const more = missingDays.length > SAMPLE_SIZE ? ` and ${missingDays.length - SAMPLE_SIZE} more` : '';
+        parts.push(`${missingDays.length} days without rows: ${listed}${more}`);
+        severities.push('warning');
+      }
+
+      const isValid = parts.length === 0;
+      return {
+        isValid,
+        failedRows,
+        message: isValid
+          ? `Latest ${column} is ${formatHours(details.ageHours!)} old, within the ${formatHours(threshold)} SLA`
+          : parts.join('; '),
+        severity: worstSeverity(severities),
+        evaluatedRows: evaluated,
+        details,
+      };
+    };
+
+    return { add, result };
+  }
+
+  private missingDays(days: Set<number>): string[] {
+    if (days.size === 0) return [];
+    let first = Infinity;
+    let last = -Infinity;
+    days.forEach((day) => {
+      first = Math.min(first, day);
+      last = Math.max(last, day);
+    });
+
+    const missing: string[] = [];
+    for (let day = first + 1; day < last; day++) {
+      if (!days.has(day)) missing.push(new Date(day * DAY_MS).toISOString().slice(0, 10));
+    }
+    return missing;
+  }
+}
+
+function formatHours(hours: number): string {
+  return hours >= 48 ? `${(hours / 24).toFixed(1)} days` : `${hours.toFixed(1)} hours`;
+}
+
+/**
+ * A condition over several columns of each row, e.g.
+ * `status == 'shipped' implies quantity > 0`. Rows fail when the expression
+ * is false; rows where it is null (a column it needs is empty) are not
+ * evaluated. `now()` reads `context.now`.
+ */
+export class ExpressionStrategy implements ValidationStrategy {
+  name = 'Expression';
+
+  validate(data: any[], column: string, threshold?: number, params?: RuleParams, context?: ValidationContext): StrategyResult {
+    const accumulator = this.stream(column, threshold, params, context);
+    accumulator.add(data, 0);
+    return accumulator.result(data.length);
+  }
+
+  stream(column: string, _threshold?: number, params: RuleParams = {}, context: ValidationContext = {}): StrategyAccumulator {
+    const expression = params.expression ?? '';
+    const { ast, error } = parseExpression(expression);
+
+    if (!ast) {
+      return {
+        add: () => {},
+        result: () => ({
+          isValid: false,
+          failedRows: [],
+          message: expression.trim() === ''
+            ? `No expression configured for ${column}`
+            : `Invalid expression at column ${error!.position + 1}: ${error!.message}`,
+          severity: 'warning',
+          evaluatedRows: 0,
+        }),
+      };
+    }
+
+    const env = { now: (context.now ?? new Date()).getTime() };
+    const read = referencedColumns(ast);
+    const columns = read.length > 0 ? read : [column];
+    const failedRows: number[] = [];
+    let unknownRows = 0;
+
+    const add = (rows: any[], offset: number) => {
+      rows.forEach((row, index) => {
+        const value = evaluateExpression(ast, row, env);
+        if (value === null) {
+          unknownRows++;
+        } else if (!value) {
+          failedRows.push(offset + index);
+        }
+      });
+    };
+
+    const result = (rowCount: number): StrategyResult => {
+      const evaluated = rowCount - unknownRows;
+      const failureRate = evaluated > 0 ? failedRows.length / evaluated : 0;
+      const isValid = failedRows.length === 0;
+      const skipped = unknownRows > 0 ? ` (${unknownRows} rows could not be evaluated)` : '';
+
+      return {
+        isValid,
+        failedRows,
+        message: isValid
+          ? `All ${evaluated} rows satisfy ${expression}${skipped}`
+          : `${failedRows.length} rows (${(failureRate * 100).toFixed(1)}%) violate ${expression}${skipped}`,
+        severity: gradeSeverity(failedRows.length, evaluated, params.severity ?? DEFAULT_SEVERITY_THRESHOLDS.Expression),
+        evaluatedRows: evaluated,
+        details: { kind: 'expression', expression, columns, unknownRows },
+      };
+    };
+
+    return { add, result };
+  }
+}
+
+/**
+ * Row-count anomalies against a seasonal baseline (see `core/volume.ts`);
+ * `threshold` is the control limit in standard deviations. By run, the
+ * dataset's row count is checked against `context.volumeHistory`. By day,
+ * rows are counted per UTC day of the rule's date column and every day is
+ * checked against the days before it; the day of `context.now` is still
+ * loading and is skipped. Deviations past twice the limit are critical.
+ */
+export class VolumeStrategy implements ValidationStrategy {
+  name = 'Volume';
+
+  validate(data: any[], column: string, threshold?: number, params?: RuleParams, context?: ValidationContext): StrategyResult {
+    const accumulator = this.stream(column, threshold, params, context);
+    accumulator.add(data, 0);
+    return accumulator.result(data.length);
+  }
+
+  stream(
+    column: string,
+    threshold = DEFAULT_VOLUME_THRESHOLD,
+    params: RuleParams = {},
+    context: ValidationContext = {}
+  ): StrategyAccumulator {
+    const now = (context.now ?? new Date()).getTime();
+    if (params.volumeBy === 'day') return this.streamDays(column, threshold, now);
+
+    const history = context.volumeHistory ?? [];
+    return {
+      add: () => {},
+      result: (rowCount) => {
+        const check = checkVolume(history, { time: now, count: rowCount }, threshold);
+        if (!check) {
+          // History builds up by itself, so its absence is not a problem to alert on.
+          return {
+            isValid: true,
+            failedRows: [],
+            message: `Volume baseline needs ${MIN_VOLUME_HISTORY} earlier runs, ${history.length} so far`,
+            severity: 'info',
+            evaluatedRows: 0,
+          };
+        }
+
+        return {
+          isValid: check.anomaly === null,
+          failedRows: [],
+          message: check.anomaly === null
+            ? `${rowCount} rows, within ${describeLimits(check)}`
+            : `Row count ${check.anomaly === 'drop' ? 'dropped' : 'spiked'} to ${rowCount}, outside ${describeLimits(check)}`,
+          severity: volumeSeverity([check], threshold),
+          details: { kind: 'volume', by: 'run', threshold, checks: [check] },
+        };
+      },
+    };
+  }
+
+  private streamDays(column: string, threshold: number, now: number): StrategyAccumulator {
+    const rowsByDay = new Map<number, number[]>();
+    const today = Math.floor(now / DAY_MS);
+    let evaluated = 0;
+
+    const add = (rows: any[], offset: number) => {
+      rows.forEach((row, index) => {
+        const time = parseTimestamp(row[column]);
+        if (isNaN(time)) return;
+        const day = Math.floor(time / DAY_MS);
+        if (day >= today) return;
+
+        evaluated++;
+        const dayRows = rowsByDay.get(day);
+        if (dayRows) dayRows.push(offset + index);
+        else rowsByDay.set(day, [offset + index]);
+      });
+    };
+
+    const result = (): StrategyResult => {
+      const points = dailyCounts(new Map(Array.from(rowsByDay, ([day, rows]) => [day, rows.length])));
+      if (points.length <= MIN_VOLUME_HISTORY) {
+        return {
+          isValid: true,
+          failedRows: [],
+          message: `Volume baseline needs more than ${MIN_VOLUME_HISTORY} complete days of ${column}, ${points.length} so far`,
+          severity: 'info',
+          evaluatedRows: 0,
+        };
+      }
+
+      const anomalies: (VolumeCheck & { label: string })[] = [];
+      const failedRows: number[] = [];
+      points.forEach((point) => {
+        const check = checkVolume(points, point, threshold);
+        if (!check?.anomaly) return;
+        anomalies.push({ ...check, label: new Date(point.time).toISOString().slice(0, 10) });
+        rowsByDay.get(point.time / DAY_MS)?.forEach((row) => failedRows.push(row));
+      });
+      failedRows.sort((a, b) => a - b);
+
+      const listed = anomalies
+        .slice(0, SAMPLE_SIZE)
+        .map((check) => `${check.label} ${check.anomaly} (${check.count} rows, expected ≈${Math.round(check.expected)})`)
+        .join(', ');
+      const more = anomalies.length > SAMPLE_SIZE ? ` and ${anomalies.length - SAMPLE_SIZE} more` : '';
+
+      return {
+        isValid: anomalies.length === 0,
+        failedRows,
+        message: anomalies.length === 0
+          ? `Daily ${column} volume is within ±${threshold}σ on all ${points.length} days`
+          : `${anomalies.length} of ${points.length} days have anomalous ${column} volume: ${listed}${more}`,
+        severity: volumeSeverity(anomalies, threshold),
+        evaluatedRows: evaluated,
+        details: { kind: 'volume', by: 'day', threshold, checks: anomalies },
+      };
+    };
+
+    return { add, result };
+  }
+}
+
+function describeLimits(check: VolumeCheck): string {
+  const source = check.method === 'weekday' ? `same-weekday mean of ${check.points} runs` : `EWMA of ${check.points} runs`;
+  return `${Math.round(check.lower)}–${Math.round(check.upper)} (expected ≈${Math.round(check.expected)}, ${source})`;
+}
+
+function volumeSeverity(checks: VolumeCheck[], threshold: number): StrategyResult['severity'] {
+  if (checks.some((check) => Math.abs(check.deviation) > threshold * 2)) return 'critical';
+  return checks.some((check) => check.anomaly !== null) ? 'warning' : 'info';
+}
+
+/** Rows pushed in dataset order; `finish` returns one result per enabled rule. */
+export interface ValidationStream {
+  push(rows: any[]): void;
+  finish(): ValidationResult[];
+}
+
 export class ValidationEngine {
   private strategies: Map<string, ValidationStrategy> = new Map();
 
@@ -132,27 +1764,118 @@ export class ValidationEngine {
     this.registerStrategy(new CompletenessStrategy());
     this.registerStrategy(new NumericalRangeStrategy());
     this.registerStrategy(new UniquenessStrategy());
+    this.registerStrategy(new FormatStrategy());
+    this.registerStrategy(new AllowedValuesStrategy());
+    this.registerStrategy(new ReferentialIntegrityStrategy());
+    this.registerStrategy(new DriftStrategy());
+    this.registerStrategy(new SchemaStrategy());
+    this.registerStrategy(new FreshnessStrategy());
+    this.registerStrategy(new ExpressionStrategy());
+    this.registerStrategy(new VolumeStrategy());
   }
 
   registerStrategy(strategy: ValidationStrategy): void {
     this.strategies.set(strategy.name, strategy);
   }
 
-  validate(strategyName: string, data: any[], column: string, threshold?: number): ValidationResult {
-    const strategy = this.strategies.get(strategyName);
+  validate(strategyName: string, data: any[], column: string, threshold?: number, params?: RuleParams): ValidationResult {
+    return this.validateRule(data, { strategy: strategyName, column, threshold, params });
+  }
+
+  validateRule(data: any[], config: ValidationConfig, context?: ValidationContext): ValidationResult {
+    const strategy = this.strategyFor(config);
+    const result = strategy.validate(data, config.column, config.threshold, config.params, context);
+    return this.toValidationResult(config, result, data.length);
+  }
+
+  /**
+   * Evaluates the enabled rules over rows pushed chunk by chunk. Strategies
+   * with a `stream` mode see each chunk once and keep only their own state;
+   * the rest are run on rows buffered for them at `finish`.
+   */
+  createStream(configs: ValidationConfig[], context?: ValidationContext): ValidationStream {
+    const checks = configs
+      .filter((cfg) => cfg.enabled !== false)
+      .map((config) => {
+        const strategy = this.strategyFor(config);
+        return {
+          config,
+          accumulator: strategy.stream?.(config.column, config.threshold, config.params, context),
+        };
+      });
+    const buffered: any[] = [];
+    const needsRows = checks.some((check) => !check.accumulator);
+    let rowCount = 0;
+
+    return {
+      push: (rows) => {
+        checks.forEach((check) => check.accumulator?.add(rows, rowCount));
+        if (needsRows) {
+          for (const row of rows) buffered.push(row);
+        }
+        rowCount += rows.length;
+      },
+      finish: () =>
+        checks.map(({ config, accumulator }) =>
+          accumulator
+            ? this.toValidationResult(config, accumulator.result(rowCount), rowCount)
+            : this.validateRule(buffered, config, context)
+        ),
+    };
+  }
+
+  getStrategyNames(): string[] {
+    return Array.from(this.strategies.keys());
+  }
+
+  validateAll(data: any[], config: ValidationConfig[], context?: ValidationContext): ValidationResult[] {
+    return config
+      .filter((cfg) => cfg.enabled !== false)
+      .map((cfg) => this.validateRule(data, cfg, context));
+  }
+
+  private strategyFor(config: ValidationConfig): ValidationStrategy {
+    const strategy = this.strategies.get(config.strategy);
     if (!strategy) {
-      throw new Error(`Unknown validation strategy: ${strategyName}`);
+      throw new Error(`Unknown validation strategy: ${config.strategy}`);
     }
-    return strategy.validate(data, column, threshold);
+    return strategy;
   }
 
-  validateAll(data: any[], config: ValidationConfig[]): ValidationResult[] {
-    return config.map((cfg) => this.validate(cfg.strategy, data, cfg.column, cfg.threshold));
+  private toValidationResult(config: ValidationConfig, result: StrategyResult, rowCount: number): ValidationResult {
+    const evaluatedRows = result.evaluatedRows ?? rowCount;
+
+    return {
+      ...result,
+      ruleId: ruleIdOf(config),
+      strategy: config.strategy,
+      column: config.column,
+      threshold: config.threshold,
+      evaluatedRows,
+      failureRate: evaluatedRows > 0 ? result.failedRows.length / evaluatedRows : 0,
+    };
   }
 }
 
+/**
+ * Stable identifier for a rule. Persisted rules carry their own id; ad-hoc
+ * configs fall back to strategy and column.
+ */
+export function ruleIdOf(config: ValidationConfig): string {
+  return config.id ?? `${config.strategy}:${config.column}`;
+}
+
 export interface ValidationConfig {
+  id?: string;
   strategy: string;
   column: string;
   threshold?: number;
+  params?: RuleParams;
+  enabled?: boolean;
+  /** Relative weight of the rule within its quality dimension; defaults to 1. */
+  weight?: number;
+  /** Overrides the dimension the strategy reports into; see `qualityScore`. */
+  dimension?: DqDimension;
+  /** Raises the severity of an alert that keeps failing; see `escalateAlert`. */
+  escalation?: EscalationStep[];
 }
\ No newline at end of file
@@ -0,0 +1,167 @@
+import { Alert, AlertStatus } from './MockDataService';
+import { SchemaViolation, ValidationResult, describeSchemaViolation } from './ValidationEngine';
+
+/**
+ * Status as the on-call sees it: a snooze that has run out counts as open
+ * again without anyone having to touch the stored alert.
+ */
+export function effectiveStatus(alert: Alert, now: Date = new Date()): AlertStatus {
+  if (alert.status === 'snoozed' && alert.snoozedUntil && new Date(alert.snoozedUntil) <= now) {
+    return 'open';
+  }
+  return alert.status;
+}
+
+/** Open, acknowledged and snoozed alerts: everything not yet resolved. */
+export function isUnresolved(alert: Alert): boolean {
+  return alert.status !== 'resolved';
+}
+
+export function acknowledgeAlert(alert: Alert, now: Date = new Date()): Alert {
+  return { ...alert, status: 'acknowledged', acknowledgedAt: now, snoozedUntil: undefined };
+}
+
+export function resolveAlert(alert: Alert, note: string, now: Date = new Date()): Alert {
+  return { ...alert, status: 'resolved', resolvedAt: now, resolutionNote: note.trim() || undefined, snoozedUntil: undefined };
+}
+
+export function snoozeAlert(alert: Alert, until: Date): Alert {
+  return { ...alert, status: 'snoozed', snoozedUntil: until };
+}
+
+export function reopenAlert(alert: Alert): Alert {
+  return { ...alert, status: 'open', snoozedUntil: undefined, resolvedAt: undefined, resolutionNote: undefined };
+}
+
+export function assignAlert(alert: Alert, owner: string): Alert {
+  return { ...alert, owner: owner.trim() || undefined };
+}
+
+/** One failure of a rule that an alert tracks. */
+export interface AlertFinding {
+  /** Set for schema rules, which track each kind of violation separately. */
+  violation?: SchemaViolation['kind'];
+  result: ValidationResult;
+}
+
+/** What repeat failures fold on: the rule, plus the violation kind for schema rules. */
+export function alertKey(alert: { ruleId: string; violation?: string }): string {
+  return alert.violation ? `${alert.ruleId}#${alert.violation}` : alert.ruleId;
+}
+
+/**
+ * The failures a result should raise alerts for. A schema result splits
+ * into one finding per violation kind, so a new kind of violation opens
+ * its own alert instead of folding into one that is already open.
+ */
+export function alertFindings(result: ValidationResult): AlertFinding[] {
+  if (result.isValid) return [];
+  if (result.details?.kind !== 'schema') return [{ result }];
+
+  const { violations } = result.details;
+  const kinds = Array.from(new Set(violations.map((v) => v.kind)));
+  return kinds.map((kind) => {
+    const matching = violations.filter((v) => v.kind === kind);
+    const failedRows = Array.from(new Set(matching.flatMap((v) => v.rows))).sort((a, b) => a - b);
+    return {
+      violation: kind,
+      result: {
+        ...result,
+        failedRows,
+        failureRate: result.evaluatedRows > 0 ? failedRows.length / result.evaluatedRows : 0,
+        message: `Schema contract violated: ${matching.map(describeSchemaViolation).join('; ')}`,
+        severity: kind === 'missing' || kind === 'type' ? 'critical' : 'warning',
+        details: { kind: 'schema', violations: matching },
+      },
+    };
+  });
+}
+
+/** A brand-new open alert for a failing rule. */
+export function alertFromResult(dataset: string, result: ValidationResult, now: Date = new Date()): Omit<Alert, 'id'> {
+  return {
+    dataset,
+    ruleId: result.ruleId,
+    timestamp: now,
+    firstSeen: now,
+    occurrences: 1,
+    severity: result.severity,
+    type: result.strategy,
+    message: result.message,
+    column: result.column,
+    affectedRows: result.failedRows.length,
+    status: 'open',
+  };
+}
+
+/**
+ * Folds a repeat failure into the rule's unresolved alert: the count goes
+ * up and the details track the latest run, while status, owner and any
+ * snooze are left as the on-call set them.
+ */
+export function foldAlert(alert: Alert, result: ValidationResult, now: Date = new Date()): Alert {
+  return {
+    ...alert,
+    timestamp: now,
+    occurrences: alert.occurrences + 1,
+    severity: result.severity,
+    message: result.message,
+    affectedRows: result.failedRows.length,
+  };
+}
+
+/** Once an alert has failed `afterRuns` runs in a row, it is raised to at least `severity`. */
+export interface EscalationStep {
+  afterRuns: number;
+  severity: 'warning' | 'critical';
+}
+
+export const SEVERITY_RANK: Record<Alert['severity'], number> = { info: 0, warning: 1, critical: 2 };
+
+/**
+ * Applies a rule's escalation policy to a freshly raised or folded alert:
+ * the most severe step its occurrences have reached wins, and a step never
+ * lowers what the run graded.
+ */
+export function escalateAlert<T extends Omit<Alert, 'id'>>(alert: T, steps: EscalationStep[] = []): T {
+  const graded = alert.severity;
+  const severity = steps
+    .filter((step) => alert.occurrences >= step.afterRuns)
+    .reduce<Alert['severity']>((worst, step) => (SEVERITY_RANK[step.severity] > SEVERITY_RANK[worst] ? step.severity : worst), graded);
+
+  if (severity === graded) return { ...alert, escalatedFrom: undefined };
+  return { ...alert, severity, escalatedFrom: graded as 'warning' | 'info' };
+}
+
+export const AUTO_RESOLVE_NOTE = 'Rule passed on a later run';
+export const RULE_REMOVED_NOTE = 'Rule was deleted or disabled';
+
+export interface AlertFilter {
+  /** 'active' is open plus acknowledged, i.e. what still needs attention. */
+  status?: AlertStatus | 'active' | 'all';
+  severity?: Alert['severity'] | 'all';
+  column?: string;
+  type?: string;
+  search?: string;
+}
+
+export function filterAlerts(alerts: Alert[], filter: AlertFilter, now: Date = new Date()): Alert[] {
+  const search = filter.search?.trim().toLowerCase() ?? '';
+
+  return alerts.filter((alert) => {
+    const status = effectiveStatus(alert, now);
+    if (filter.status === 'active' && status !== 'open' && status !== 'acknowledged') return false;
+    if (filter.status && filter.status !== 'active' && filter.status !== 'all' && status !== filter.status) return false;
+    if (filter.severity && filter.severity !== 'all' && alert.severity !== filter.severity) return false;
+    if (filter.column && alert.column !== filter.column) return false;
+    if (filter.type && alert.type !== filter.type) return false;
+
+    if (search) {
+      const haystack = [alert.message, alert.column, alert.type, alert.owner ?? '', alert.resolutionNote ?? '']
+        .join(' ')
+        .toLowerCase();
+      if (!haystack.includes(search)) return false;
+    }
+    return true;
+  });
+}
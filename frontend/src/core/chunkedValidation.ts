@@ -0,0 +1,153 @@
+import { DataRow } from './MockDataService';
+import { RowLearner, ValidationConfig, ValidationContext, ValidationEngine, ValidationResult } from './ValidationEngine';
+
+export interface ValidationProgress {
+  phase: 'loading' | 'validating';
+  /** Rows read so far, or rules evaluated so far. */
+  done: number;
+  total: number;
+}
+
+/** Returns up to `limit` rows starting at row `fromIndex`; fewer means the end was reached. */
+export type RowChunkReader = (fromIndex: number, limit: number) => Promise<DataRow[]>;
+
+export const DEFAULT_CHUNK_SIZE = 5000;
+
+/** Datasets at least this large are streamed rather than loaded whole. */
+export const STREAMING_ROW_THRESHOLD = 1_000_000;
+
+export interface ChunkedValidationOptions {
+  chunkSize?: number;
+  /** Expected row count, used as the progress total while loading. */
+  totalRows?: number;
+  onProgress?: (progress: ValidationProgress) => void;
+  signal?: AbortSignal;
+  /**
+   * Feed chunks straight to the rules instead of collecting every row first.
+   * Defaults to on once `totalRows` reaches `STREAMING_ROW_THRESHOLD`.
+   */
+  streaming?: boolean;
+}
+
+export interface ChunkedValidationOutcome {
+  rowCount: number;
+  results: ValidationResult[];
+}
+
+function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new DOMException('Validation cancelled', 'AbortError');
+  }
+}
+
+/**
+ * Reads a dataset chunk by chunk, then evaluates the enabled rules one at a
+ * time, reporting progress and checking for cancellation between steps.
+ * Strategies still see the whole column, so the results are exactly those
+ * of `ValidationEngine.validateAll`. In streaming mode each chunk is handed
+ * to `ValidationEngine.createStream` and dropped, so memory no longer grows
+ * with the dataset for streaming strategies; see their notes on accuracy.
+ */
+export async function validateInChunks(
+  read: RowChunkReader,
+  configs: ValidationConfig[],
+  context: ValidationContext = {},
+  options: ChunkedValidationOptions = {}
+): Promise<ChunkedValidationOutcome> {
+  const chunkSize = Math.max(1, options.chunkSize ?? DEFAULT_CHUNK_SIZE);
+  const { onProgress, signal } = options;
+  const streaming = options.streaming ?? (options.totalRows ?? 0) >= STREAMING_ROW_THRESHOLD;
+  const engine = new ValidationEngine();
+  const stream = streaming ? engine.createStream(configs, context) : undefined;
+  const rows: DataRow[] = [];
+  let rowCount = 0;
+
+  for (;;) {
+    throwIfCancelled(signal);
+    const chunk = await read(rowCount, chunkSize);
+    if (stream) {
+      stream.push(chunk);
+    } else {
+      for (const row of chunk) rows.push(row);
+    }
+    rowCount += chunk.length;
+
+    onProgress?.({ phase: 'loading', done: rowCount, total: Math.max(options.totalRows ?? 0, rowCount) });
+    if (chunk.length < chunkSize) break;
+  }
+
+  const enabled = configs.filter((config) => config.enabled !== false);
+  onProgress?.({ phase: 'validating', done: 0, total: enabled.length });
+
+  if (stream) {
+    throwIfCancelled(signal);
+    const results = stream.finish();
+    onProgress?.({ phase: 'validating', done: results.length, total: enabled.length });
+    return { rowCount, results };
+  }
+
+  const results: ValidationResult[] = [];
+  for (const config of enabled) {
+    throwIfCancelled(signal);
+    results.push(engine.validateRule(rows, config, context));
+    onProgress?.({ phase: 'validating', done: results.length, total: enabled.length });
+  }
+
+  return { rowCount, results };
+}
+
+export interface LearnOptions {
+  chunkSize?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Feeds every row of a dataset to `learner`, one chunk at a time, and
+ * returns what it learned. Only one chunk is held at once.
+ */
+export async function learnInChunks<T>(read: RowChunkReader, learner: RowLearner<T>, options: LearnOptions = {}): Promise<T> {
+  const chunkSize = Math.max(1, options.chunkSize ?? DEFAULT_CHUNK_SIZE);
+  for (let fromIndex = 0; ; fromIndex += chunkSize) {
+    throwIfCancelled(options.signal);
+    const chunk = await read(fromIndex, chunkSize);
+    learner.add(chunk);
+    if (chunk.length < chunkSize) break;
+  }
+  return learner.result();
+}
+
+export interface RowSample {
+  /** Drawn uniformly from the whole dataset, in dataset order. */
+  rows: DataRow[];
+  /** Rows the sample was drawn from. */
+  rowCount: number;
+  /** Every column that occurs in any row, in order of first appearance. */
+  columns: string[];
+}
+
+/** A uniform random sample of up to `size` rows (reservoir sampling, Algorithm R). */
+export function reservoirSample(size: number, random: () => number = Math.random): RowLearner<RowSample> {
+  const reservoir: { index: number; row: DataRow }[] = [];
+  const columns = new Set<string>();
+  let rowCount = 0;
+
+  return {
+    add(rows) {
+      rows.forEach((row: DataRow) => {
+        Object.keys(row).forEach((name) => columns.add(name));
+        if (reservoir.length < size) {
+          reservoir.push({ index: rowCount, row });
+        } else {
+          const slot = Math.floor(random() * (rowCount + 1));
+          if (slot < size) reservoir[slot] = { index: rowCount, row };
+        }
+        rowCount++;
+      });
+    },
+    result: () => ({
+      rows: [...reservoir].sort((a, b) => a.index - b.index).map(({ row }) => row),
+      rowCount,
+      columns: Array.from(columns),
+    }),
+  };
+}
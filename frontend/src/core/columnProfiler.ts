@@ -0,0 +1,322 @@
+import { ColumnType, RowLearner, schemaLearner } from './ValidationEngine';
+import { FrequentItems, HyperLogLog, KllSketch, RunningStats } from './sketches';
+import { DEFAULT_PERCENTILES } from './statsUtils';
+
+export interface NumericProfile {
+  min: number;
+  max: number;
+  mean: number;
+  stdDev: number;
+  /** p5, p25, p50, p75, p95 and p99. */
+  percentiles: Record<string, number>;
+  histogram: { bin: string; count: number }[];
+}
+
+export interface TextProfile {
+  minLength: number;
+  maxLength: number;
+  avgLength: number;
+  /** Character-class shapes, most frequent first; see `textPattern`. */
+  patterns: { pattern: string; count: number }[];
+}
+
+export interface DateProfile {
+  earliest: string;
+  latest: string;
+  spanDays: number;
+}
+
+export interface ColumnProfile {
+  name: string;
+  /** Same inference as the Schema strategy's contracts. */
+  type: ColumnType;
+  format?: string;
+  nullCount: number;
+  nullRate: number;
+  distinctCount: number;
+  /** Most frequent values as text, most frequent first. */
+  topValues: { value: string; count: number }[];
+  numeric?: NumericProfile;
+  text?: TextProfile;
+  dates?: DateProfile;
+}
+
+export interface DatasetProfile {
+  dataset: string;
+  capturedAt: string;
+  rowCount: number;
+  columns: ColumnProfile[];
+}
+
+export interface ProfileOptions {
+  /** How many top values and text patterns to keep per column. */
+  topN?: number;
+  bins?: number;
+}
+
+const DEFAULT_TOP_N = 5;
+const DEFAULT_BINS = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Past this many distinct values per column the count becomes a HyperLogLog estimate.
+const MAX_EXACT_DISTINCT = 100_000;
+
+const isBlank = (value: unknown) => value === null || value === undefined || value === '';
+
+/**
+ * Shape of a string by character class, with runs collapsed so values of
+ * different lengths group together: `ORD-1001` → `A-9`, `a.b@x.io` → `a.a@a.a`.
+ * `A` upper case, `a` lower case, `9` digit, a space for whitespace; other
+ * characters are kept as they are.
+ */
+export function textPattern(text: string): string {
+  let pattern = '';
+  for (const char of text) {
+    const symbol = /[A-Z]/.test(char) ? 'A' : /[a-z]/.test(char) ? 'a' : /[0-9]/.test(char) ? '9' : /\s/.test(char) ? ' ' : char;
+    if (!pattern.endsWith(symbol) || !'Aa9 '.includes(symbol)) pattern += symbol;
+  }
+  return pattern;
+}
+
+/** Running state for one column; blank cells are not added, so nulls are rows minus `present`. */
+interface ColumnAccumulator {
+  present: number;
+  /** Exact distinct values until there are more than `MAX_EXACT_DISTINCT`; null after. */
+  distinct: Set<string> | null;
+  distinctSketch: HyperLogLog | null;
+  values: FrequentItems;
+  moments: RunningStats;
+  quantiles: KllSketch;
+  strings: number;
+  minLength: number;
+  maxLength: number;
+  totalLength: number;
+  patterns: FrequentItems;
+  earliest: number;
+  latest: number;
+}
+
+const newAccumulator = (): ColumnAccumulator => ({
+  present: 0,
+  distinct: new Set(),
+  distinctSketch: null,
+  values: new FrequentItems(),
+  moments: new RunningStats(),
+  quantiles: new KllSketch(),
+  strings: 0,
+  minLength: Infinity,
+  maxLength: 0,
+  totalLength: 0,
+  patterns: new FrequentItems(),
+  earliest: Infinity,
+  latest: -Infinity,
+});
+
+function accumulate(column: ColumnAccumulator, value: unknown): void {
+  column.present++;
+
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  column.values.add(text);
+  if (column.distinct) {
+    column.distinct.add(text);
+    if (column.distinct.size > MAX_EXACT_DISTINCT) {
+      column.distinctSketch = new HyperLogLog();
+      column.distinct.forEach((seen) => column.distinctSketch!.add(seen));
+      column.distinct = null;
+    }
+  } else {
+    column.distinctSketch!.add(text);
+  }
+
+  if (typeof value === 'number' && isFinite(value)) {
+    column.moments.push(value);
+    column.quantiles.update(value);
+  }
+  if (typeof value === 'string') {
+    column.strings++;
+    column.minLength = Math.min(column.minLength, value.length);
+    column.maxLength = Math.max(column.maxLength, value.length);
+    column.totalLength += value.length;
+    column.patterns.add(textPattern(value));
+  }
+  const time = value instanceof Date ? value.getTime() : typeof value === 'string' ? Date.parse(value) : NaN;
+  if (!isNaN(time)) {
+    column.earliest = Math.min(column.earliest, time);
+    column.latest = Math.max(column.latest, time);
+  }
+}
+
+// Same bins as `generateDistributionData`, filled from the sketch's weighted values.
+function weightedHistogram(items: { value: number; weight: number }[], min: number, max: number, bins: number) {
+  const binSize = (max - min) / bins || 1;
+  const histogram = new Array(bins).fill(0);
+  items.forEach(({ value, weight }) => {
+    histogram[Math.min(Math.floor((value - min) / binSize), bins - 1)] += weight;
+  });
+  return histogram.map((count, index) => ({ bin: (min + index * binSize).toFixed(2), count }));
+}
+
+function profileNumbers(column: ColumnAccumulator, bins: number): NumericProfile | undefined {
+  const { moments, quantiles } = column;
+  if (moments.count === 0) return undefined;
+
+  return {
+    min: moments.min,
+    max: moments.max,
+    mean: moments.mean,
+    stdDev: moments.stdDev,
+    percentiles: Object.fromEntries(DEFAULT_PERCENTILES.map((p) => [`p${p}`, quantiles.quantile(p / 100)])),
+    histogram: weightedHistogram(quantiles.weightedItems(), moments.min, moments.max, bins),
+  };
+}
+
+function profileText(column: ColumnAccumulator, topN: number): TextProfile | undefined {
+  if (column.strings === 0) return undefined;
+
+  return {
+    minLength: column.minLength,
+    maxLength: column.maxLength,
+    avgLength: column.totalLength / column.strings,
+    patterns: column.patterns.top(topN).map(({ value, count }) => ({ pattern: value, count })),
+  };
+}
+
+function profileDates(column: ColumnAccumulator): DateProfile | undefined {
+  if (column.earliest === Infinity) return undefined;
+
+  return {
+    earliest: new Date(column.earliest).toISOString(),
+    latest: new Date(column.latest).toISOString(),
+    spanDays: (column.latest - column.earliest) / DAY_MS,
+  };
+}
+
+/**
+ * Streaming form of `profileDataset`, for feeding a whole dataset through
+ * `learnInChunks`. Moments and min/max are exact; percentiles and the
+ * histogram come from a KLL sketch, top values and patterns from
+ * Misra–Gries counters, and distinct counts switch to HyperLogLog past
+ * `MAX_EXACT_DISTINCT` values. All of them are exact on small datasets.
+ */
+export function profileLearner(dataset: string, options: ProfileOptions = {}): RowLearner<DatasetProfile> {
+  const topN = options.topN ?? DEFAULT_TOP_N;
+  const bins = options.bins ?? DEFAULT_BINS;
+  const schema = schemaLearner();
+  const accumulators = new Map<string, ColumnAccumulator>();
+  let rowCount = 0;
+
+  return {
+    add(rows) {
+      schema.add(rows);
+      rows.forEach((row) => {
+        Object.keys(row).forEach((name) => {
+          let column = accumulators.get(name);
+          if (!column) accumulators.set(name, (column = newAccumulator()));
+          if (!isBlank(row[name])) accumulate(column, row[name]);
+        });
+        rowCount++;
+      });
+    },
+    result() {
+      const columns = schema.result().map(({ name, type, format }): ColumnProfile => {
+        const column = accumulators.get(name) ?? newAccumulator();
+        const nullCount = rowCount - column.present;
+
+        return {
+          name,
+          type,
+          ...(format && { format }),
+          nullCount,
+          nullRate: rowCount > 0 ? nullCount / rowCount : 0,
+          distinctCount: column.distinct ? column.distinct.size : column.distinctSketch!.count(),
+          topValues: column.values.top(topN),
+          numeric: type === 'number' || type === 'any' ? profileNumbers(column, bins) : undefined,
+          text: type === 'string' || type === 'any' ? profileText(column, topN) : undefined,
+          dates: type === 'date' ? profileDates(column) : undefined,
+        };
+      });
+
+      return { dataset, capturedAt: new Date().toISOString(), rowCount, columns };
+    },
+  };
+}
+
+/**
+ * Profiles every column of a dataset: type, nulls, cardinality and top
+ * values for all of them, plus numeric, text or date details depending on
+ * the inferred type. Columns of type 'any' get every detail that applies.
+ */
+export function profileDataset(dataset: string, rows: any[], options: ProfileOptions = {}): DatasetProfile {
+  const learner = profileLearner(dataset, options);
+  learner.add(rows);
+  return learner.result();
+}
+
+export type ColumnProfileChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface ProfileDifference {
+  metric: string;
+  before: string | number;
+  after: string | number;
+}
+
+export interface ColumnProfileComparison {
+  column: string;
+  change: ColumnProfileChange;
+  differences: ProfileDifference[];
+}
+
+// Metrics compared between profiles; numbers count as changed past a 1% relative difference.
+const COMPARED_METRICS: [string, (profile: ColumnProfile) => string | number | undefined][] = [
+  ['type', (p) => p.type],
+  ['null %', (p) => p.nullRate * 100],
+  ['distinct', (p) => p.distinctCount],
+  ['min', (p) => p.numeric?.min],
+  ['mean', (p) => p.numeric?.mean],
+  ['median', (p) => p.numeric?.percentiles.p50],
+  ['max', (p) => p.numeric?.max],
+  ['avg length', (p) => p.text?.avgLength],
+  ['top pattern', (p) => p.text?.patterns[0]?.pattern],
+  ['earliest', (p) => p.dates?.earliest],
+  ['latest', (p) => p.dates?.latest],
+];
+
+const RELATIVE_TOLERANCE = 0.01;
+
+function differs(before: string | number, after: string | number): boolean {
+  if (typeof before === 'number' && typeof after === 'number') {
+    const scale = Math.max(Math.abs(before), Math.abs(after));
+    return scale > 0 && Math.abs(after - before) / scale > RELATIVE_TOLERANCE;
+  }
+  return before !== after;
+}
+
+/**
+ * Lines up two profiles column by column, in `after`'s column order with
+ * removed columns last, listing every metric that moved.
+ */
+export function compareProfiles(before: DatasetProfile, after: DatasetProfile): ColumnProfileComparison[] {
+  const beforeColumns = new Map(before.columns.map((column) => [column.name, column]));
+  const afterNames = new Set(after.columns.map((column) => column.name));
+
+  const compared = after.columns.map((column): ColumnProfileComparison => {
+    const previous = beforeColumns.get(column.name);
+    if (!previous) return { column: column.name, change: 'added', differences: [] };
+
+    const differences = COMPARED_METRICS.flatMap(([metric, read]) => {
+      const was = read(previous);
+      const now = read(column);
+      if (was === undefined && now === undefined) return [];
+      if (was === undefined || now === undefined || differs(was, now)) {
+        return [{ metric, before: was ?? '—', after: now ?? '—' }];
+      }
+      return [];
+    });
+    return { column: column.name, change: differences.length > 0 ? 'changed' : 'unchanged', differences };
+  });
+
+  const removed = before.columns
+    .filter((column) => !afterNames.has(column.name))
+    .map((column): ColumnProfileComparison => ({ column: column.name, change: 'removed', differences: [] }));
+
+  return [...compared, ...removed];
+}
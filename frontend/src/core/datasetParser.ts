@@ -0,0 +1,304 @@
+export type DatasetFormat = 'csv' | 'json' | 'ndjson';
+
+export type CellValue = string | number | boolean | null;
+
+export interface ParseError {
+  line: number;
+  message: string;
+}
+
+export interface ParseResult {
+  format: DatasetFormat;
+  columns: string[];
+  rows: Record<string, unknown>[];
+  errors: ParseError[];
+}
+
+export interface CsvOptions {
+  delimiter?: string;
+  coerceTypes?: boolean;
+}
+
+const NUMBER_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Normalises an ISO-style date or datetime to a full ISO-8601 UTC string,
+ * to match how seeded rows store `orderDate`. Datetimes without a zone are
+ * read as UTC, so a file imports to the same instants in every timezone.
+ * Anything else, including impossible dates, comes back unchanged.
+ */
+function normalizeDate(value: string): string {
+  const match = ISO_DATE_PATTERN.exec(value);
+  if (!match) return value;
+
+  const [, time, , , zone] = match;
+  const date = new Date(`${value.replace(' ', 'T')}${time && !zone ? 'Z' : ''}`);
+  return isNaN(date.getTime()) ? value : date.toISOString();
+}
+
+/**
+ * Converts a raw text cell into a typed value. Numbers with leading zeros
+ * (postcodes, zero-padded IDs) are kept as strings; dates are normalised
+ * by `normalizeDate`.
+ */
+export function coerceValue(raw: string): CellValue {
+  const value = raw.trim();
+  if (value === '') return null;
+
+  const lower = value.toLowerCase();
+  if (lower === 'true') return true;
+  if (lower === 'false') return false;
+  if (lower === 'null') return null;
+
+  if (NUMBER_PATTERN.test(value)) {
+    return Number(value);
+  }
+
+  return normalizeDate(value);
+}
+
+/** JSON rows are already typed; only their date strings need the same normalisation as CSV cells. */
+function normalizeDates(row: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(row).map(([key, value]) => [key, typeof value === 'string' ? normalizeDate(value) : value])
+  );
+}
+
+export function detectFormat(fileName: string, text: string): DatasetFormat {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'csv' || extension === 'tsv') return 'csv';
+  if (extension === 'ndjson' || extension === 'jsonl') return 'ndjson';
+  if (extension === 'json') return 'json';
+
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('[')) return 'json';
+  if (trimmed.startsWith('{')) return 'ndjson';
+  return 'csv';
+}
+
+/** Field delimiter for a delimited-text file: tabs for `.tsv`, commas otherwise. */
+export function csvDelimiter(fileName: string): string {
+  return fileName.toLowerCase().endsWith('.tsv') ? '\t' : ',';
+}
+
+/**
+ * RFC 4180 CSV parser: quoted fields may contain delimiters, newlines and
+ * escaped quotes (""). The first record is the header row.
+ */
+export function parseCSV(text: string, options: CsvOptions = {}): ParseResult {
+  const delimiter = options.delimiter ?? ',';
+  const coerceTypes = options.coerceTypes ?? true;
+  const errors: ParseError[] = [];
+  const records: { line: number; fields: string[] }[] = [];
+
+  let field = '';
+  let fields: string[] = [];
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    if (!(fields.length === 1 && fields[0].trim() === '')) {
+      records.push({ line: recordLine, fields });
+    }
+    field = '';
+    fields = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    errors.push({ line: recordLine, message: 'Unterminated quoted field' });
+  } else if (field !== '' || fields.length > 0) {
+    endRecord();
+  }
+
+  if (records.length === 0) {
+    return { format: 'csv', columns: [], rows: [], errors: [...errors, { line: 1, message: 'Missing header row' }] };
+  }
+
+  const [header, ...body] = records;
+  const columns = header.fields.map((name) => name.trim());
+
+  const seen = new Set<string>();
+  columns.forEach((name, index) => {
+    if (name === '') {
+      errors.push({ line: header.line, message: `Empty column name at position ${index + 1}` });
+    } else if (seen.has(name)) {
+      errors.push({ line: header.line, message: `Duplicate column name "${name}"` });
+    }
+    seen.add(name);
+  });
+
+  const rows: Record<string, unknown>[] = [];
+  for (const record of body) {
+    if (record.fields.length !== columns.length) {
+      errors.push({
+        line: record.line,
+        message: `Expected ${columns.length} fields but found ${record.fields.length}`,
+      });
+      continue;
+    }
+
+    const row: Record<string, unknown> = {};
+    columns.forEach((name, index) => {
+      const raw = record.fields[index];
+      row[name] = coerceTypes ? coerceValue(raw) : raw;
+    });
+    rows.push(row);
+  }
+
+  return { format: 'csv', columns, rows, errors };
+}
+
+export function parseJSON(text: string): ParseResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    return { format: 'json', columns: [], rows: [], errors: [{ line: 1, message: (error as Error).message }] };
+  }
+
+  if (!Array.isArray(parsed)) {
+    return { format: 'json', columns: [], rows: [], errors: [{ line: 1, message: 'Expected a top-level JSON array of objects' }] };
+  }
+
+  const errors: ParseError[] = [];
+  const rows: Record<string, unknown>[] = [];
+  const lines = elementLines(text);
+
+  parsed.forEach((item, index) => {
+    if (isPlainObject(item)) {
+      rows.push(normalizeDates(item));
+    } else {
+      errors.push({ line: lines[index], message: `Element ${index} is not an object` });
+    }
+  });
+
+  return { format: 'json', columns: collectColumns(rows), rows, errors };
+}
+
+export function parseNDJSON(text: string): ParseResult {
+  const errors: ParseError[] = [];
+  const rows: Record<string, unknown>[] = [];
+
+  text.split(/\r?\n/).forEach((content, index) => {
+    if (content.trim() === '') return;
+
+    try {
+      const item = JSON.parse(content);
+      if (isPlainObject(item)) {
+        rows.push(normalizeDates(item));
+      } else {
+        errors.push({ line: index + 1, message: 'Line is not a JSON object' });
+      }
+    } catch (error) {
+      errors.push({ line: index + 1, message: (error as Error).message });
+    }
+  });
+
+  return { format: 'ndjson', columns: collectColumns(rows), rows, errors };
+}
+
+export function parseDataset(text: string, format: DatasetFormat, options: CsvOptions = {}): ParseResult {
+  switch (format) {
+    case 'csv':
+      return parseCSV(text, options);
+    case 'json':
+      return parseJSON(text);
+    case 'ndjson':
+      return parseNDJSON(text);
+  }
+}
+
+/**
+ * Derives a catalog-friendly dataset name from an uploaded file name,
+ * e.g. "Orders 2024-Q1.csv" becomes "orders_2024_q1".
+ */
+export function datasetNameFromFile(fileName: string): string {
+  return fileName
+    .replace(/\.[^.]+$/, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/** Source line on which each element of a valid top-level JSON array starts. */
+function elementLines(text: string): number[] {
+  const lines: number[] = [];
+  let line = 1;
+  let depth = 0;
+  let inString = false;
+  let expectElement = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\n') line++;
+
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (/\s/.test(char)) continue;
+
+    if (depth === 1 && expectElement && char !== ']') {
+      lines.push(line);
+      expectElement = false;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === '[' || char === '{') {
+      depth++;
+      if (depth === 1) expectElement = true;
+    } else if (char === ']' || char === '}') {
+      depth--;
+    } else if (char === ',' && depth === 1) {
+      expectElement = true;
+    }
+  }
+  return lines;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function collectColumns(rows: Record<string, unknown>[]): string[] {
+  const columns = new Set<string>();
+  rows.forEach((row) => Object.keys(row).forEach((key) => columns.add(key)));
+  return Array.from(columns);
+}
@@ -0,0 +1,587 @@
+/**
+ * A small expression language for rules that span columns, e.g.
+ * `status == 'shipped' implies quantity > 0`. Expressions are parsed into a
+ * tree and interpreted against one row at a time; there is no `eval`, no
+ * property access and no way to reach anything but the row's own columns
+ * and the functions listed in `EXPRESSION_FUNCTIONS`.
+ *
+ * Values are strings, numbers, booleans or null. Missing columns read as
+ * null, and null propagates through arithmetic, ordering comparisons, `in`
+ * and functions, so those only fail a row when they are definitely false.
+ * `==` and `!=` instead treat null as a value, so `x == null` is the null
+ * check and `null != 'cancelled'` is true; guard such rules with
+ * `isNull(x) or …` to skip empty cells. Logic is three-valued:
+ * `null && false` is false, `null || true` is true.
+ */
+
+export type ExpressionValue = string | number | boolean | null;
+
+export type ExpressionNode =
+  | { type: 'literal'; value: ExpressionValue }
+  | { type: 'column'; name: string }
+  | { type: 'unary'; operator: '!' | '-'; operand: ExpressionNode }
+  | { type: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'in'; value: ExpressionNode; options: ExpressionNode[] }
+  | { type: 'call'; name: string; args: ExpressionNode[] };
+
+type BinaryOperator =
+  | 'implies' | '||' | '&&'
+  | '==' | '!=' | '<' | '<=' | '>' | '>='
+  | '+' | '-' | '*' | '/' | '%';
+
+export interface ExpressionError {
+  message: string;
+  /** Zero-based offset into the source where the problem starts. */
+  position: number;
+}
+
+export interface ExpressionParseResult {
+  ast: ExpressionNode | null;
+  error: ExpressionError | null;
+}
+
+/** What an expression can see besides the row. */
+export interface ExpressionEnvironment {
+  /** Epoch milliseconds returned by `now()`. */
+  now: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ExpressionFunction = {
+  minArgs: number;
+  maxArgs: number;
+  signature: string;
+  apply: (args: ExpressionValue[], env: ExpressionEnvironment) => ExpressionValue;
+};
+
+const isNull = (value: ExpressionValue) => value === null;
+
+const text = (value: ExpressionValue): string | null => (value === null ? null : String(value));
+
+const numeric = (value: ExpressionValue): number | null => (typeof value === 'number' && isFinite(value) ? value : null);
+
+const stringFunction = (apply: (value: string) => ExpressionValue): ExpressionFunction['apply'] => ([value]) => {
+  const str = text(value);
+  return str === null ? null : apply(str);
+};
+
+const stringPairFunction = (apply: (value: string, other: string) => boolean): ExpressionFunction['apply'] => ([value, other]) => {
+  const a = text(value);
+  const b = text(other);
+  return a === null || b === null ? null : apply(a, b);
+};
+
+const numberFunction = (apply: (value: number) => number): ExpressionFunction['apply'] => ([value]) => {
+  const n = numeric(value);
+  return n === null ? null : apply(n);
+};
+
+const regexCache = new Map<string, RegExp | null>();
+
+function compileRegex(pattern: string): RegExp | null {
+  if (!regexCache.has(pattern)) {
+    try {
+      regexCache.set(pattern, new RegExp(pattern));
+    } catch {
+      regexCache.set(pattern, null);
+    }
+  }
+  return regexCache.get(pattern)!;
+}
+
+function toTimestamp(value: ExpressionValue): number | null {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const time = Date.parse(value);
+  return isNaN(time) ? null : time;
+}
+
+/** Every function an expression may call, by name. */
+export const EXPRESSION_FUNCTIONS: Record<string, ExpressionFunction> = {
+  isNull: { minArgs: 1, maxArgs: 1, signature: 'isNull(x)', apply: ([value]) => isNull(value) },
+  isBlank: { minArgs: 1, maxArgs: 1, signature: 'isBlank(x)', apply: ([value]) => isNull(value) || value === '' },
+  coalesce: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    signature: 'coalesce(x, y, …)',
+    apply: (args) => args.find((value) => !isNull(value)) ?? null,
+  },
+  lower: { minArgs: 1, maxArgs: 1, signature: 'lower(s)', apply: stringFunction((s) => s.toLowerCase()) },
+  upper: { minArgs: 1, maxArgs: 1, signature: 'upper(s)', apply: stringFunction((s) => s.toUpperCase()) },
+  trim: { minArgs: 1, maxArgs: 1, signature: 'trim(s)', apply: stringFunction((s) => s.trim()) },
+  length: { minArgs: 1, maxArgs: 1, signature: 'length(s)', apply: stringFunction((s) => s.length) },
+  contains: { minArgs: 2, maxArgs: 2, signature: 'contains(s, part)', apply: stringPairFunction((s, part) => s.includes(part)) },
+  startsWith: { minArgs: 2, maxArgs: 2, signature: 'startsWith(s, prefix)', apply: stringPairFunction((s, prefix) => s.startsWith(prefix)) },
+  endsWith: { minArgs: 2, maxArgs: 2, signature: 'endsWith(s, suffix)', apply: stringPairFunction((s, suffix) => s.endsWith(suffix)) },
+  matches: {
+    minArgs: 2,
+    maxArgs: 2,
+    signature: 'matches(s, regex)',
+    apply: ([value, pattern]) => {
+      const str = text(value);
+      const regex = typeof pattern === 'string' ? compileRegex(pattern) : null;
+      return str === null || regex === null ? null : regex.test(str);
+    },
+  },
+  number: {
+    minArgs: 1,
+    maxArgs: 1,
+    signature: 'number(x)',
+    apply: ([value]) => {
+      if (typeof value === 'number') return numeric(value);
+      if (typeof value !== 'string' || value.trim() === '') return null;
+      return numeric(Number(value));
+    },
+  },
+  date: { minArgs: 1, maxArgs: 1, signature: 'date(x)', apply: ([value]) => toTimestamp(value) },
+  now: { minArgs: 0, maxArgs: 0, signature: 'now()', apply: (_args, env) => env.now },
+  days: { minArgs: 1, maxArgs: 1, signature: 'days(n)', apply: numberFunction((n) => n * DAY_MS) },
+  abs: { minArgs: 1, maxArgs: 1, signature: 'abs(x)', apply: numberFunction(Math.abs) },
+  round: {
+    minArgs: 1,
+    maxArgs: 2,
+    signature: 'round(x, digits)',
+    apply: ([value, digits]) => {
+      const n = numeric(value);
+      const scale = Math.pow(10, numeric(digits ?? 0) ?? 0);
+      return n === null ? null : Math.round(n * scale) / scale;
+    },
+  },
+  min: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    signature: 'min(x, y, …)',
+    apply: (args) => (args.every((a) => numeric(a) !== null) ? Math.min(...(args as number[])) : null),
+  },
+  max: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    signature: 'max(x, y, …)',
+    apply: (args) => (args.every((a) => numeric(a) !== null) ? Math.max(...(args as number[])) : null),
+  },
+};
+
+/** Own entries only, so names like `constructor` or `__proto__` are not functions. */
+const functionNamed = (name: string): ExpressionFunction | undefined =>
+  Object.prototype.hasOwnProperty.call(EXPRESSION_FUNCTIONS, name) ? EXPRESSION_FUNCTIONS[name] : undefined;
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+
+type TokenType = 'number' | 'string' | 'identifier' | 'column' | 'operator' | 'eof';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  value?: ExpressionValue;
+  position: number;
+}
+
+class ExpressionSyntaxError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(message);
+  }
+}
+
+// Longest first so `<=` wins over `<`.
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '=>', '<', '>', '+', '-', '*', '/', '%', '!', '(', ')', ','];
+
+const NUMBER = /^(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/;
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*/;
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const rest = source.slice(position);
+    const char = source[position];
+
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    const number = NUMBER.exec(rest);
+    if (number) {
+      tokens.push({ type: 'number', text: number[0], value: Number(number[0]), position });
+      position += number[0].length;
+      continue;
+    }
+
+    const identifier = IDENTIFIER.exec(rest);
+    if (identifier) {
+      tokens.push({ type: 'identifier', text: identifier[0], position });
+      position += identifier[0].length;
+      continue;
+    }
+
+    if (char === "'" || char === '"' || char === '`') {
+      let value = '';
+      let end = position + 1;
+      while (end < source.length && source[end] !== char) {
+        if (source[end] === '\\' && end + 1 < source.length) end++;
+        value += source[end];
+        end++;
+      }
+      if (end >= source.length) {
+        throw new ExpressionSyntaxError(char === '`' ? 'Unterminated column name' : 'Unterminated string', position);
+      }
+      tokens.push({ type: char === '`' ? 'column' : 'string', text: source.slice(position, end + 1), value, position });
+      position = end + 1;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => rest.startsWith(op));
+    if (operator) {
+      tokens.push({ type: 'operator', text: operator, position });
+      position += operator.length;
+      continue;
+    }
+
+    throw new ExpressionSyntaxError(
+      char === '=' ? 'Use "==" to compare values' : `Unexpected character "${char}"`,
+      position
+    );
+  }
+
+  tokens.push({ type: 'eof', text: '', position: source.length });
+  return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// Parser: recursive descent, one method per precedence level, loosest first.
+
+const KEYWORD_OPERATORS: Record<string, string> = { and: '&&', or: '||', not: '!' };
+const EQUALITY: Record<string, BinaryOperator> = { '==': '==', '===': '==', '!=': '!=', '!==': '!=' };
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.implication();
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      throw new ExpressionSyntaxError(`Unexpected "${next.text}"`, next.position);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  /** Operator text of the next token, with `and`/`or`/`not` mapped to their symbols. */
+  private operatorAt(): string | null {
+    const token = this.peek();
+    if (token.type === 'operator') return token.text;
+    if (token.type === 'identifier') return KEYWORD_OPERATORS[token.text] ?? (token.text === 'implies' || token.text === 'in' ? token.text : null);
+    return null;
+  }
+
+  private accept(...operators: string[]): string | null {
+    const operator = this.operatorAt();
+    if (operator !== null && operators.includes(operator)) {
+      this.index++;
+      return operator;
+    }
+    return null;
+  }
+
+  private expect(operator: string, what: string): void {
+    if (!this.accept(operator)) {
+      const token = this.peek();
+      throw new ExpressionSyntaxError(
+        token.type === 'eof' ? `Expected ${what} but the expression ended` : `Expected ${what} but found "${token.text}"`,
+        token.position
+      );
+    }
+  }
+
+  // `a implies b implies c` reads as `a implies (b implies c)`, like `=>` in logic.
+  private implication(): ExpressionNode {
+    const left = this.or();
+    if (this.accept('implies', '=>')) {
+      return { type: 'binary', operator: 'implies', left, right: this.implication() };
+    }
+    return left;
+  }
+
+  private or(): ExpressionNode {
+    let node = this.and();
+    while (this.accept('||')) {
+      node = { type: 'binary', operator: '||', left: node, right: this.and() };
+    }
+    return node;
+  }
+
+  private and(): ExpressionNode {
+    let node = this.equality();
+    while (this.accept('&&')) {
+      node = { type: 'binary', operator: '&&', left: node, right: this.equality() };
+    }
+    return node;
+  }
+
+  private equality(): ExpressionNode {
+    let node = this.comparison();
+    let operator: string | null;
+    while ((operator = this.accept('==', '===', '!=', '!=='))) {
+      node = { type: 'binary', operator: EQUALITY[operator], left: node, right: this.comparison() };
+    }
+    return node;
+  }
+
+  private comparison(): ExpressionNode {
+    let node = this.additive();
+    let operator: string | null;
+    while ((operator = this.accept('<', '<=', '>', '>=', 'in'))) {
+      if (operator === 'in') {
+        node = { type: 'in', value: node, options: this.list() };
+      } else {
+        node = { type: 'binary', operator: operator as BinaryOperator, left: node, right: this.additive() };
+      }
+    }
+    return node;
+  }
+
+  private additive(): ExpressionNode {
+    let node = this.multiplicative();
+    let operator: string | null;
+    while ((operator = this.accept('+', '-'))) {
+      node = { type: 'binary', operator: operator as BinaryOperator, left: node, right: this.multiplicative() };
+    }
+    return node;
+  }
+
+  private multiplicative(): ExpressionNode {
+    let node = this.unary();
+    let operator: string | null;
+    while ((operator = this.accept('*', '/', '%'))) {
+      node = { type: 'binary', operator: operator as BinaryOperator, left: node, right: this.unary() };
+    }
+    return node;
+  }
+
+  private unary(): ExpressionNode {
+    const operator = this.accept('!', '-');
+    if (operator) {
+      return { type: 'unary', operator: operator as '!' | '-', operand: this.unary() };
+    }
+    return this.primary();
+  }
+
+  private primary(): ExpressionNode {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        this.index++;
+        return { type: 'literal', value: token.value! };
+      case 'column':
+        this.index++;
+        return { type: 'column', name: token.value as string };
+      case 'identifier': {
+        this.index++;
+        if (token.text === 'true' || token.text === 'false') return { type: 'literal', value: token.text === 'true' };
+        if (token.text === 'null') return { type: 'literal', value: null };
+        if (this.peek().text === '(' && this.peek().type === 'operator') return this.call(token);
+        return { type: 'column', name: token.text };
+      }
+      case 'operator':
+        if (this.accept('(')) {
+          const node = this.implication();
+          this.expect(')', '")"');
+          return node;
+        }
+        throw new ExpressionSyntaxError(`Unexpected "${token.text}"`, token.position);
+      case 'eof':
+        throw new ExpressionSyntaxError('Expected a value but the expression ended', token.position);
+    }
+  }
+
+  private call(name: Token): ExpressionNode {
+    const fn = functionNamed(name.text);
+    if (!fn) {
+      throw new ExpressionSyntaxError(`Unknown function "${name.text}"`, name.position);
+    }
+
+    const args = this.list();
+    if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+      throw new ExpressionSyntaxError(`${fn.signature} takes ${describeArity(fn)}, got ${args.length}`, name.position);
+    }
+    const pattern = args[1];
+    if (name.text === 'matches' && pattern.type === 'literal' && typeof pattern.value === 'string' && !compileRegex(pattern.value)) {
+      throw new ExpressionSyntaxError(`Invalid regular expression "${pattern.value}"`, name.position);
+    }
+    return { type: 'call', name: name.text, args };
+  }
+
+  /** A parenthesised, comma-separated list of expressions. */
+  private list(): ExpressionNode[] {
+    this.expect('(', '"("');
+    const items: ExpressionNode[] = [];
+    if (!this.accept(')')) {
+      do {
+        items.push(this.implication());
+      } while (this.accept(','));
+      this.expect(')', '"," or ")"');
+    }
+    return items;
+  }
+}
+
+function describeArity(fn: ExpressionFunction): string {
+  if (fn.maxArgs === Infinity) return `at least ${fn.minArgs} arguments`;
+  if (fn.minArgs === fn.maxArgs) return fn.minArgs === 1 ? '1 argument' : `${fn.minArgs} arguments`;
+  return `${fn.minArgs} to ${fn.maxArgs} arguments`;
+}
+
+/** Parses an expression, reporting the first syntax error with its position instead of throwing. */
+export function parseExpression(source: string): ExpressionParseResult {
+  if (source.trim() === '') {
+    return { ast: null, error: { message: 'Expression is empty', position: 0 } };
+  }
+  try {
+    return { ast: new Parser(tokenize(source)).parse(), error: null };
+  } catch (error) {
+    if (error instanceof ExpressionSyntaxError) {
+      return { ast: null, error: { message: error.message, position: error.position } };
+    }
+    throw error;
+  }
+}
+
+/** Columns an expression reads, in order of first appearance. */
+export function referencedColumns(node: ExpressionNode): string[] {
+  const columns = new Set<string>();
+  const visit = (current: ExpressionNode): void => {
+    switch (current.type) {
+      case 'column':
+        columns.add(current.name);
+        break;
+      case 'unary':
+        visit(current.operand);
+        break;
+      case 'binary':
+        visit(current.left);
+        visit(current.right);
+        break;
+      case 'in':
+        visit(current.value);
+        current.options.forEach(visit);
+        break;
+      case 'call':
+        current.args.forEach(visit);
+        break;
+    }
+  };
+  visit(node);
+  return Array.from(columns);
+}
+
+// ---------------------------------------------------------------------------
+// Evaluator
+
+/** Reads a row's cell as an expression value; anything that is not a scalar reads as null. */
+function readColumn(row: Record<string, unknown>, name: string): ExpressionValue {
+  if (!Object.prototype.hasOwnProperty.call(row, name)) return null;
+  const value = row[name];
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string' || typeof value === 'boolean') return value;
+  if (typeof value === 'number') return isNaN(value) ? null : value;
+  return null;
+}
+
+/** Truth value of a logical operand: booleans as they are, null unknown, anything else by JS truthiness. */
+const truth = (value: ExpressionValue): boolean | null => (value === null ? null : typeof value === 'boolean' ? value : Boolean(value));
+
+function compare(operator: BinaryOperator, left: ExpressionValue, right: ExpressionValue): ExpressionValue {
+  if (left === null || right === null || typeof left !== typeof right || typeof left === 'boolean') return null;
+  switch (operator) {
+    case '<': return left < right;
+    case '<=': return left <= right;
+    case '>': return left > right;
+    default: return left >= right;
+  }
+}
+
+function arithmetic(operator: BinaryOperator, left: ExpressionValue, right: ExpressionValue): ExpressionValue {
+  if (operator === '+' && (typeof left === 'string' || typeof right === 'string')) {
+    return left === null || right === null ? null : String(left) + String(right);
+  }
+  const a = numeric(left);
+  const b = numeric(right);
+  if (a === null || b === null) return null;
+  switch (operator) {
+    case '+': return a + b;
+    case '-': return a - b;
+    case '*': return a * b;
+    case '/': return b === 0 ? null : a / b;
+    default: return b === 0 ? null : a % b;
+  }
+}
+
+export function evaluateExpression(
+  node: ExpressionNode,
+  row: Record<string, unknown>,
+  env: ExpressionEnvironment
+): ExpressionValue {
+  const evaluate = (current: ExpressionNode) => evaluateExpression(current, row, env);
+
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'column':
+      return readColumn(row, node.name);
+    case 'unary': {
+      const operand = evaluate(node.operand);
+      if (node.operator === '-') return numeric(operand) === null ? null : -(operand as number);
+      const value = truth(operand);
+      return value === null ? null : !value;
+    }
+    case 'in': {
+      const value = evaluate(node.value);
+      if (value === null) return null;
+      return node.options.some((option) => evaluate(option) === value);
+    }
+    case 'call':
+      return functionNamed(node.name)?.apply(node.args.map(evaluate), env) ?? null;
+    case 'binary':
+      break;
+  }
+
+  const { operator } = node;
+  if (operator === '&&' || operator === '||' || operator === 'implies') {
+    const left = truth(evaluate(node.left));
+    // Short-circuit where the left side alone decides.
+    if (operator === '&&' && left === false) return false;
+    if (operator === '||' && left === true) return true;
+    if (operator === 'implies' && left === false) return true;
+
+    const right = truth(evaluate(node.right));
+    if (operator === '&&') return right === false ? false : left === null || right === null ? null : true;
+    if (operator === '||') return right === true ? true : left === null || right === null ? null : false;
+    return right === true ? true : left === null || right === null ? null : false;
+  }
+
+  const left = evaluate(node.left);
+  const right = evaluate(node.right);
+  switch (operator) {
+    case '==':
+      return left === right;
+    case '!=':
+      return left !== right;
+    case '<':
+    case '<=':
+    case '>':
+    case '>=':
+      return compare(operator, left, right);
+    default:
+      return arithmetic(operator, left, right);
+  }
+}
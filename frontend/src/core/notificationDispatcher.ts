@@ -0,0 +1,109 @@
+import { Alert, dataService } from './MockDataService';
+import {
+  NotificationMessage,
+  NotificationRoute,
+  WebhookSender,
+  attemptDelivery,
+  notificationsFor,
+  postWebhook,
+} from './notifications';
+
+/** How often the outbox is checked for deliveries that have come due. */
+export const OUTBOX_POLL_MS = 30_000;
+
+export interface FlushOptions {
+  send?: WebhookSender;
+  now?: Date;
+}
+
+let flushing: Promise<number> | null = null;
+/** The latest call that arrived while a flush was running, which earns it another pass. */
+let rerun: FlushOptions | null = null;
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+/** Puts a message in the outbox for every route it matches. */
+export async function queueNotifications(messages: NotificationMessage[]): Promise<void> {
+  if (messages.length === 0) return;
+  const routes = await dataService.getNotificationRoutes();
+  const now = new Date();
+  await dataService.enqueueNotifications(messages.flatMap((message) => notificationsFor(routes, message, now)));
+}
+
+/** Tries the entries due at `now` once each and returns how many were tried. */
+async function deliverDue({ send = postWebhook, now }: FlushOptions): Promise<number> {
+  const at = now ?? new Date();
+  const due = (await dataService.getOutbox()).filter((entry) => new Date(entry.nextAttemptAt) <= at);
+  for (const entry of due) {
+    await dataService.recordDelivery(await attemptDelivery(entry, send, now ?? new Date()));
+  }
+  return due.length;
+}
+
+/**
+ * Tries every outbox entry that is due, one at a time, and returns how many
+ * were tried. Nothing is tried while the browser is offline, so an outage
+ * does not use up retries. Overlapping calls share one flush: a call made
+ * while it runs gets another pass with its own options once the current one
+ * ends, so entries queued mid-flush go out without waiting for the next poll.
+ */
+export function flushOutbox(options: FlushOptions = {}): Promise<number> {
+  if (!isOnline()) return Promise.resolve(0);
+  if (flushing) {
+    rerun = options;
+    return flushing;
+  }
+  flushing = (async () => {
+    let tried = 0;
+    let next: FlushOptions | null = options;
+    while (next) {
+      rerun = null;
+      tried += await deliverDue(next);
+      next = rerun;
+    }
+    return tried;
+  })().finally(() => {
+    flushing = null;
+    rerun = null;
+  });
+  return flushing;
+}
+
+/** Sends a sample alert through one route, via the outbox like any other notification. */
+export async function sendTestNotification(route: NotificationRoute): Promise<void> {
+  const now = new Date();
+  const alert: Alert = {
+    id: `test-${now.getTime()}`,
+    dataset: route.datasets[0] ?? 'example_dataset',
+    ruleId: 'Completeness:email',
+    timestamp: now,
+    firstSeen: now,
+    occurrences: 1,
+    severity: 'critical',
+    type: 'Completeness',
+    message: 'Test notification from Data Quality Guard',
+    column: route.columns[0] ?? 'email',
+    affectedRows: 0,
+    status: 'open',
+  };
+  await dataService.enqueueNotifications(notificationsFor([{ ...route, enabled: true }], { event: 'opened', alert }, now));
+  await flushOutbox();
+}
+
+/**
+ * Flushes the outbox now, every `OUTBOX_POLL_MS` and whenever the browser
+ * comes back online. Returns a function that stops it.
+ */
+export function startNotificationDispatcher(): () => void {
+  const flush = () => {
+    flushOutbox().catch((error) => console.error('Failed to deliver notifications:', error));
+  };
+
+  flush();
+  const timer = setInterval(flush, OUTBOX_POLL_MS);
+  window.addEventListener('online', flush);
+  return () => {
+    clearInterval(timer);
+    window.removeEventListener('online', flush);
+  };
+}
@@ -0,0 +1,262 @@
+import { Alert } from './MockDataService';
+import { SEVERITY_RANK } from './alertLifecycle';
+
+/**
+ * Alert notifications: routes pick which alerts go to which webhook,
+ * templates turn an alert into the request body, and deliveries wait in an
+ * outbox until the endpoint accepts them, retrying with exponential backoff.
+ * Everything here is pure apart from `postWebhook`; the dispatcher wires it
+ * to storage.
+ */
+
+export type NotificationTemplate = 'slack' | 'json';
+
+/**
+ * Slack and most chat webhooks do not answer CORS preflights, so the Slack
+ * template goes out as a simple `text/plain` request carrying the JSON.
+ * Generic endpoints get real JSON and must allow CORS from this origin.
+ */
+export const TEMPLATE_CONTENT_TYPES: Record<NotificationTemplate, string> = {
+  slack: 'text/plain;charset=UTF-8',
+  json: 'application/json',
+};
+
+/** 'escalated' is a repeat failure whose severity went up. */
+export type NotificationEvent = 'opened' | 'escalated' | 'resolved';
+
+export interface NotificationRoute {
+  id: string;
+  name: string;
+  url: string;
+  template: NotificationTemplate;
+  enabled: boolean;
+  /** Lowest severity the route sends. */
+  minSeverity: Alert['severity'];
+  /** Datasets the route covers; empty covers all of them. */
+  datasets: string[];
+  /** Columns the route covers; empty covers all of them. */
+  columns: string[];
+  /** Also send when an alert resolves itself. */
+  sendResolved: boolean;
+}
+
+export interface NotificationMessage {
+  event: NotificationEvent;
+  alert: Alert;
+  /** Severity before an escalation. */
+  previousSeverity?: Alert['severity'];
+}
+
+/** A rendered request waiting to be delivered. */
+export interface OutboxEntry {
+  id: string;
+  routeId: string;
+  alertId: string;
+  dataset: string;
+  event: NotificationEvent;
+  url: string;
+  body: string;
+  /** Missing on entries queued before templates chose one; those go out as JSON. */
+  contentType?: string;
+  createdAt: Date;
+  /** Failed attempts so far. */
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError?: string;
+}
+
+export type DeliveryOutcome = 'delivered' | 'retrying' | 'failed';
+
+export interface DeliveryLogEntry {
+  id: string;
+  outboxId: string;
+  routeId: string;
+  alertId: string;
+  dataset: string;
+  event: NotificationEvent;
+  timestamp: Date;
+  /** 1 for the first try. */
+  attempt: number;
+  outcome: DeliveryOutcome;
+  /** HTTP status, when the endpoint answered. */
+  status?: number;
+  error?: string;
+}
+
+export interface WebhookResponse {
+  status: number;
+}
+
+/** Sends a body to a URL; rejects when the endpoint cannot be reached. */
+export type WebhookSender = (url: string, body: string, contentType: string) => Promise<WebhookResponse>;
+
+export const MAX_DELIVERY_ATTEMPTS = 6;
+export const BASE_BACKOFF_MS = 30_000;
+export const MAX_BACKOFF_MS = 60 * 60 * 1000;
+export const DELIVERY_TIMEOUT_MS = 10_000;
+
+const EVENT_TITLES: Record<NotificationEvent, string> = {
+  opened: 'New',
+  escalated: 'Escalated',
+  resolved: 'Resolved',
+};
+
+const SLACK_COLORS: Record<Alert['severity'], string> = {
+  critical: '#dc2626',
+  warning: '#ca8a04',
+  info: '#2563eb',
+};
+
+export function routeMatches(route: NotificationRoute, message: NotificationMessage): boolean {
+  const { alert, event } = message;
+  if (!route.enabled) return false;
+  if (event === 'resolved' && !route.sendResolved) return false;
+  if (SEVERITY_RANK[alert.severity] < SEVERITY_RANK[route.minSeverity]) return false;
+  if (route.datasets.length > 0 && !route.datasets.includes(alert.dataset)) return false;
+  if (route.columns.length > 0 && !route.columns.includes(alert.column)) return false;
+  return true;
+}
+
+const isoString = (date: Date | string) => new Date(date).toISOString();
+
+/** The request body a template makes of a message. */
+export function renderPayload(template: NotificationTemplate, message: NotificationMessage, now: Date = new Date()): object {
+  const { event, alert, previousSeverity } = message;
+
+  if (template === 'json') {
+    return {
+      event,
+      timestamp: now.toISOString(),
+      ...(previousSeverity && { previousSeverity }),
+      alert: {
+        id: alert.id,
+        dataset: alert.dataset,
+        ruleId: alert.ruleId,
+        ...(alert.violation && { violation: alert.violation }),
+        type: alert.type,
+        column: alert.column,
+        severity: alert.severity,
+        message: alert.message,
+        affectedRows: alert.affectedRows,
+        occurrences: alert.occurrences,
+        status: alert.status,
+        firstSeen: isoString(alert.firstSeen),
+        lastSeen: isoString(alert.timestamp),
+        ...(alert.owner && { owner: alert.owner }),
+      },
+    };
+  }
+
+  const raised = previousSeverity ? ` (was ${previousSeverity})` : '';
+  return {
+    text: `*${EVENT_TITLES[event]} ${alert.severity} alert*${raised} on \`${alert.dataset}.${alert.column}\`: ${alert.message}`,
+    attachments: [
+      {
+        color: event === 'resolved' ? '#16a34a' : SLACK_COLORS[alert.severity],
+        fields: [
+          { title: 'Rule', value: alert.type, short: true },
+          { title: 'Affected rows', value: String(alert.affectedRows), short: true },
+          { title: 'Occurrences', value: String(alert.occurrences), short: true },
+          { title: 'Status', value: alert.status, short: true },
+        ],
+        footer: 'Data Quality Guard',
+        ts: Math.floor(now.getTime() / 1000),
+      },
+    ],
+  };
+}
+
+/** Outbox entries for every route a message matches, due straight away. */
+export function notificationsFor(
+  routes: NotificationRoute[],
+  message: NotificationMessage,
+  now: Date = new Date()
+): Omit<OutboxEntry, 'id'>[] {
+  return routes
+    .filter((route) => routeMatches(route, message))
+    .map((route) => ({
+      routeId: route.id,
+      alertId: message.alert.id,
+      dataset: message.alert.dataset,
+      event: message.event,
+      url: route.url,
+      body: JSON.stringify(renderPayload(route.template, message, now)),
+      contentType: TEMPLATE_CONTENT_TYPES[route.template],
+      createdAt: now,
+      attempts: 0,
+      nextAttemptAt: now,
+    }));
+}
+
+/** Wait before the next try after `attempts` failures: 30s, 1m, 2m, … capped at an hour. */
+export function backoffDelay(attempts: number): number {
+  return Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+/** Timeouts, rate limits and server errors may clear up; other refusals will not. */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/** POSTs a body with `fetch`, giving up after `DELIVERY_TIMEOUT_MS`. */
+export const postWebhook: WebhookSender = async (url, body, contentType) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': contentType },
+      body,
+      signal: controller.signal,
+    });
+    return { status: response.status };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+export interface DeliveryAttempt {
+  /** The entry to keep in the outbox, or null once it is delivered or given up on. */
+  entry: OutboxEntry | null;
+  log: Omit<DeliveryLogEntry, 'id'>;
+}
+
+/** Tries one outbox entry once and says what to keep and what to log. */
+export async function attemptDelivery(
+  entry: OutboxEntry,
+  send: WebhookSender,
+  now: Date = new Date()
+): Promise<DeliveryAttempt> {
+  const attempt = entry.attempts + 1;
+  let status: number | undefined;
+  let error: string | undefined;
+
+  try {
+    ({ status } = await send(entry.url, entry.body, entry.contentType ?? TEMPLATE_CONTENT_TYPES.json));
+    if (status < 200 || status >= 300) error = `HTTP ${status}`;
+  } catch (caught) {
+    error = (caught as Error).message || 'Network error';
+  }
+
+  const retry = error !== undefined && (status === undefined || isRetryableStatus(status)) && attempt < MAX_DELIVERY_ATTEMPTS;
+  const outcome: DeliveryOutcome = error === undefined ? 'delivered' : retry ? 'retrying' : 'failed';
+  const log: Omit<DeliveryLogEntry, 'id'> = {
+    outboxId: entry.id,
+    routeId: entry.routeId,
+    alertId: entry.alertId,
+    dataset: entry.dataset,
+    event: entry.event,
+    timestamp: now,
+    attempt,
+    outcome,
+    ...(status !== undefined && { status }),
+    ...(error !== undefined && { error }),
+  };
+
+  return {
+    entry: retry
+      ? { ...entry, attempts: attempt, nextAttemptAt: new Date(now.getTime() + backoffDelay(attempt)), lastError: error }
+      : null,
+    log,
+  };
+}
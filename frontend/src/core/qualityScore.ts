@@ -0,0 +1,111 @@
+import { ValidationConfig, ValidationResult, ruleIdOf } from './ValidationEngine';
+
+/** The standard data quality dimensions each rule reports into. */
+export type DqDimension = 'completeness' | 'uniqueness' | 'validity' | 'consistency' | 'timeliness' | 'accuracy';
+
+export const DQ_DIMENSIONS: DqDimension[] = ['completeness', 'uniqueness', 'validity', 'consistency', 'timeliness', 'accuracy'];
+
+/** Dimension of each built-in strategy; a rule's own `dimension` overrides it. */
+export const STRATEGY_DIMENSIONS: Record<string, DqDimension> = {
+  Completeness: 'completeness',
+  Volume: 'completeness',
+  Uniqueness: 'uniqueness',
+  Format: 'validity',
+  AllowedValues: 'validity',
+  Schema: 'validity',
+  ReferentialIntegrity: 'consistency',
+  Drift: 'consistency',
+  Expression: 'consistency',
+  NumericalRange: 'accuracy',
+  Freshness: 'timeliness',
+};
+
+/** Relative weight per dimension; missing dimensions weigh 1. */
+export type DimensionWeights = Partial<Record<DqDimension, number>>;
+
+export interface DimensionScore {
+  dimension: DqDimension;
+  /** 0–100, the weighted mean pass rate of the dimension's rules. */
+  score: number;
+  weight: number;
+  rules: number;
+}
+
+export interface QualityScore {
+  /** 0–100, the weighted mean of the dimension scores. */
+  score: number;
+  /** Only dimensions with at least one scored rule, in `DQ_DIMENSIONS` order. */
+  dimensions: DimensionScore[];
+}
+
+export function dimensionOf(config: ValidationConfig): DqDimension {
+  return config.dimension ?? STRATEGY_DIMENSIONS[config.strategy] ?? 'validity';
+}
+
+/**
+ * How much a failing result that flags no rows still passes, by severity.
+ * Such findings judge the dataset as a whole: a critical drift or missing
+ * column fails outright, while an informational one, such as an expected
+ * category that did not occur, costs nothing.
+ */
+const DATASET_FINDING_PASS_RATE: Record<ValidationResult['severity'], number> = {
+  critical: 0,
+  warning: 0.5,
+  info: 1,
+};
+
+/**
+ * Share of evaluated rows that passed, 0–1; dataset-level findings score
+ * by `DATASET_FINDING_PASS_RATE`. Results that evaluated nothing, such as
+ * a drift rule without a baseline, carry no evidence and return null.
+ */
+export function rulePassRate(result: ValidationResult): number | null {
+  if (result.evaluatedRows === 0) return null;
+  if (!result.isValid && result.failedRows.length === 0) return DATASET_FINDING_PASS_RATE[result.severity];
+  return Math.min(Math.max(1 - result.failureRate, 0), 1);
+}
+
+const weightOf = (weight: number | undefined) => (weight !== undefined && isFinite(weight) && weight >= 0 ? weight : 1);
+
+/**
+ * Scores a run: each dimension is the mean pass rate of its rules weighted
+ * by rule `weight`, and the overall score is the mean of the dimension
+ * scores weighted by `dimensionWeights`. A run with nothing to score is 100.
+ */
+export function scoreQuality(
+  configs: ValidationConfig[],
+  results: ValidationResult[],
+  dimensionWeights: DimensionWeights = {}
+): QualityScore {
+  const configsById = new Map(configs.map((config) => [ruleIdOf(config), config]));
+  const totals = new Map<DqDimension, { weighted: number; weight: number; rules: number }>();
+
+  results.forEach((result) => {
+    const passRate = rulePassRate(result);
+    if (passRate === null) return;
+
+    const config = configsById.get(result.ruleId) ?? { strategy: result.strategy, column: result.column };
+    const dimension = dimensionOf(config);
+    const weight = weightOf(config.weight);
+    const total = totals.get(dimension) ?? { weighted: 0, weight: 0, rules: 0 };
+    total.weighted += passRate * weight;
+    total.weight += weight;
+    total.rules++;
+    totals.set(dimension, total);
+  });
+
+  const dimensions = DQ_DIMENSIONS.filter((dimension) => totals.has(dimension)).map((dimension): DimensionScore => {
+    const total = totals.get(dimension)!;
+    return {
+      dimension,
+      score: total.weight > 0 ? (total.weighted / total.weight) * 100 : 100,
+      weight: weightOf(dimensionWeights[dimension]),
+      rules: total.rules,
+    };
+  });
+
+  const totalWeight = dimensions.reduce((sum, d) => sum + d.weight, 0);
+  const score = totalWeight > 0 ? dimensions.reduce((sum, d) => sum + d.score * d.weight, 0) / totalWeight : 100;
+
+  return { score, dimensions };
+}
@@ -0,0 +1,110 @@
+import type { Alert, ValidationRun } from './MockDataService';
+import { alertFindings } from './alertLifecycle';
+import { ValidationResult } from './ValidationEngine';
+
+/** One rule's verdict on one cell of the dataset. */
+export interface CellFinding {
+  ruleId: string;
+  strategy: string;
+  severity: ValidationResult['severity'];
+  message: string;
+  /** Per-row score where the strategy has one (outlier score), otherwise unset. */
+  score?: number;
+  failureRate: number;
+}
+
+/** Findings keyed by row index, then by column. */
+export type RowFindings = Map<number, Map<string, CellFinding[]>>;
+
+/**
+ * Indexes a run's failing rows so the explorer can highlight exactly the
+ * cells the engine flagged. Composite uniqueness keys and expressions mark
+ * every column they read, and schema violations mark the column each one
+ * is about.
+ */
+export function indexFindings(results: ValidationResult[]): RowFindings {
+  const findings: RowFindings = new Map();
+
+  results.forEach((result) => {
+    if (result.failedRows.length === 0) return;
+
+    const columns = result.details?.kind === 'duplicates' || result.details?.kind === 'expression'
+      ? result.details.columns
+      : [result.column];
+    const scores = new Map(
+      result.details?.kind === 'outliers' ? result.details.scores.map((s) => [s.row, s.score]) : []
+    );
+    // Schema violations name their own column per row.
+    const schemaColumns = new Map<number, string[]>();
+    if (result.details?.kind === 'schema') {
+      result.details.violations.forEach((violation) => {
+        violation.rows.forEach((row) => schemaColumns.set(row, [...(schemaColumns.get(row) ?? []), violation.column]));
+      });
+    }
+
+    result.failedRows.forEach((row) => {
+      const byColumn = findings.get(row) ?? new Map<string, CellFinding[]>();
+      (schemaColumns.get(row) ?? columns).forEach((column) => {
+        const cell = byColumn.get(column) ?? [];
+        cell.push({
+          ruleId: result.ruleId,
+          strategy: result.strategy,
+          severity: result.severity,
+          message: result.message,
+          score: scores.get(row),
+          failureRate: result.failureRate,
+        });
+        byColumn.set(column, cell);
+      });
+      findings.set(row, byColumn);
+    });
+  });
+
+  return findings;
+}
+
+/** Rows a single rule flagged in a run, in dataset order. */
+export function rowsForRule(results: ValidationResult[], ruleId: string): number[] {
+  const result = results.find((r) => r.ruleId === ruleId);
+  return result ? [...result.failedRows].sort((a, b) => a - b) : [];
+}
+
+export interface AlertRows {
+  /** The run the alert last failed in, or null once it has left the history. */
+  run: ValidationRun | null;
+  /** Whether `run` is the dataset's latest run. */
+  latest: boolean;
+  /** Rows the alert is about, in dataset order. */
+  rows: number[];
+}
+
+/**
+ * The rows an alert is about: those its rule flagged in the run the alert
+ * last failed in, narrowed to its violation kind for schema alerts. `runs`
+ * are the dataset's runs, oldest first.
+ */
+export function rowsForAlert(runs: ValidationRun[], alert: Pick<Alert, 'ruleId' | 'violation' | 'runId'>): AlertRows {
+  const run = runs.find((r) => r.id === alert.runId) ?? null;
+  const result = run?.results.find((r) => r.ruleId === alert.ruleId);
+  const finding = result && alertFindings(result).find((f) => f.violation === alert.violation);
+  return {
+    run,
+    latest: run !== null && run === runs[runs.length - 1],
+    rows: finding ? [...finding.result.failedRows].sort((a, b) => a - b) : [],
+  };
+}
+
+/**
+ * Native tooltip text naming each rule that flagged a cell and its score.
+ * `labels` maps rule ids to display names; the strategy is the fallback.
+ */
+export function describeFindings(findings: CellFinding[], labels: Map<string, string> = new Map()): string {
+  return findings
+    .map((finding) => {
+      const score = finding.score !== undefined && isFinite(finding.score)
+        ? `score ${finding.score.toFixed(2)}`
+        : `${(finding.failureRate * 100).toFixed(1)}% of rows failing`;
+      return `${labels.get(finding.ruleId) ?? finding.strategy} (${finding.severity}, ${score}): ${finding.message}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,157 @@
+import { ValidationConfig } from './ValidationEngine';
+import { DQ_DIMENSIONS, DqDimension } from './qualityScore';
+
+export const RULE_SET_VERSION = 1;
+
+export interface RuleSetFile {
+  version: number;
+  dataset: string;
+  rules: ValidationConfig[];
+}
+
+export interface RuleSetParseResult {
+  dataset: string | null;
+  rules: ValidationConfig[];
+  errors: string[];
+}
+
+/**
+ * Serialises a dataset's rules to the JSON document teams check into git.
+ * Storage-only fields (owning dataset, timestamps) are dropped and keys are
+ * written in a fixed order so exports diff cleanly.
+ */
+export function serializeRuleSet(dataset: string, rules: ValidationConfig[]): string {
+  const file: RuleSetFile = {
+    version: RULE_SET_VERSION,
+    dataset,
+    rules: rules.map((rule) => ({
+      id: rule.id,
+      strategy: rule.strategy,
+      column: rule.column,
+      threshold: rule.threshold,
+      params: rule.params,
+      enabled: rule.enabled ?? true,
+      weight: rule.weight,
+      dimension: rule.dimension,
+      escalation: rule.escalation,
+    })),
+  };
+  return JSON.stringify(file, null, 2) + '\n';
+}
+
+/**
+ * Parses and checks a rule set document. Accepts either the exported
+ * `{ version, dataset, rules }` shape or a bare array of rules; invalid
+ * rules are reported and left out.
+ */
+export function parseRuleSet(text: string, knownStrategies: string[]): RuleSetParseResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    return { dataset: null, rules: [], errors: [`Invalid JSON: ${(error as Error).message}`] };
+  }
+
+  let dataset: string | null = null;
+  let items: unknown;
+
+  if (Array.isArray(parsed)) {
+    items = parsed;
+  } else if (typeof parsed === 'object' && parsed !== null) {
+    const file = parsed as Partial<RuleSetFile>;
+    if (file.version !== undefined && file.version > RULE_SET_VERSION) {
+      return { dataset: null, rules: [], errors: [`Unsupported rule set version ${file.version}`] };
+    }
+    dataset = typeof file.dataset === 'string' ? file.dataset : null;
+    items = file.rules;
+  }
+
+  if (!Array.isArray(items)) {
+    return { dataset, rules: [], errors: ['Expected a "rules" array'] };
+  }
+
+  const errors: string[] = [];
+  const rules: ValidationConfig[] = [];
+
+  items.forEach((item, index) => {
+    const problem = checkRule(item, knownStrategies);
+    if (problem) {
+      errors.push(`Rule ${index + 1}: ${problem}`);
+      return;
+    }
+
+    const rule = item as ValidationConfig;
+    rules.push({
+      ...(rule.id !== undefined && { id: rule.id }),
+      strategy: rule.strategy,
+      column: rule.column,
+      ...(rule.threshold !== undefined && { threshold: rule.threshold }),
+      ...(rule.params !== undefined && { params: rule.params }),
+      enabled: rule.enabled ?? true,
+      ...(rule.weight !== undefined && { weight: rule.weight }),
+      ...(rule.dimension !== undefined && { dimension: rule.dimension }),
+      ...(rule.escalation !== undefined && { escalation: rule.escalation }),
+    });
+  });
+
+  return { dataset, rules, errors };
+}
+
+function checkRule(item: unknown, knownStrategies: string[]): string | null {
+  if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+    return 'not an object';
+  }
+
+  const rule = item as Record<string, unknown>;
+  if (typeof rule.strategy !== 'string' || !knownStrategies.includes(rule.strategy)) {
+    return `unknown strategy "${String(rule.strategy)}"`;
+  }
+  if (typeof rule.column !== 'string' || rule.column.trim() === '') {
+    return 'missing column';
+  }
+  if (rule.threshold !== undefined && (typeof rule.threshold !== 'number' || !isFinite(rule.threshold))) {
+    return 'threshold must be a number';
+  }
+  if (rule.params !== undefined && (typeof rule.params !== 'object' || rule.params === null || Array.isArray(rule.params))) {
+    return 'params must be an object';
+  }
+  if (rule.enabled !== undefined && typeof rule.enabled !== 'boolean') {
+    return 'enabled must be true or false';
+  }
+  if (rule.id !== undefined && typeof rule.id !== 'string') {
+    return 'id must be a string';
+  }
+  if (rule.weight !== undefined && (typeof rule.weight !== 'number' || !isFinite(rule.weight) || rule.weight < 0)) {
+    return 'weight must be a non-negative number';
+  }
+  if (rule.dimension !== undefined && !DQ_DIMENSIONS.includes(rule.dimension as DqDimension)) {
+    return `unknown dimension "${String(rule.dimension)}"`;
+  }
+  const severity = (rule.params as Record<string, unknown> | undefined)?.severity;
+  if (severity !== undefined && !isSeverityThresholds(severity)) {
+    return 'params.severity needs a unit of "rate" or "count" and non-negative warning/critical cut-offs';
+  }
+  if (rule.escalation !== undefined && !(Array.isArray(rule.escalation) && rule.escalation.every(isEscalationStep))) {
+    return 'escalation must be a list of { afterRuns, severity } steps';
+  }
+  return null;
+}
+
+const isCutoff = (value: unknown) => value === undefined || (typeof value === 'number' && isFinite(value) && value >= 0);
+
+function isSeverityThresholds(value: unknown): boolean {
+  if (typeof value !== 'object' || value === null) return false;
+  const thresholds = value as Record<string, unknown>;
+  return (thresholds.unit === 'rate' || thresholds.unit === 'count') && isCutoff(thresholds.warning) && isCutoff(thresholds.critical);
+}
+
+function isEscalationStep(value: unknown): boolean {
+  if (typeof value !== 'object' || value === null) return false;
+  const step = value as Record<string, unknown>;
+  return (
+    typeof step.afterRuns === 'number' &&
+    Number.isInteger(step.afterRuns) &&
+    step.afterRuns >= 1 &&
+    (step.severity === 'warning' || step.severity === 'critical')
+  );
+}
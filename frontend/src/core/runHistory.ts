@@ -0,0 +1,99 @@
+import { ValidationRun } from './MockDataService';
+import { ValidationConfig, ValidationResult, ruleIdOf } from './ValidationEngine';
+
+/** One chart point per run: the DQ score plus each rule's failure rate in percent. */
+export interface RunTrendPoint {
+  runId: string;
+  startedAt: number;
+  dqScore: number;
+  [ruleId: string]: number | string;
+}
+
+export interface RunTrend {
+  points: RunTrendPoint[];
+  /** Every rule seen in any run, with its most recent config. */
+  rules: ValidationConfig[];
+}
+
+/**
+ * Turns a dataset's runs into chart rows. A rule missing from a run (added
+ * later, deleted or disabled) is left out of that point rather than drawn as 0.
+ */
+export function buildRunTrend(runs: ValidationRun[]): RunTrend {
+  const rules = new Map<string, ValidationConfig>();
+
+  const points = runs.map((run) => {
+    run.rules.forEach((rule) => rules.set(ruleIdOf(rule), rule));
+
+    const point: RunTrendPoint = {
+      runId: run.id,
+      startedAt: new Date(run.startedAt).getTime(),
+      dqScore: run.dqScore,
+    };
+    run.results.forEach((result) => {
+      point[result.ruleId] = result.failureRate * 100;
+    });
+    return point;
+  });
+
+  return { points, rules: Array.from(rules.values()) };
+}
+
+export type RuleChange = 'added' | 'removed' | 'fixed' | 'regressed' | 'improved' | 'worsened' | 'unchanged';
+
+export interface RuleComparison {
+  ruleId: string;
+  rule: ValidationConfig;
+  before?: ValidationResult;
+  after?: ValidationResult;
+  change: RuleChange;
+  /** Threshold or params differ between the two runs' rule snapshots. */
+  configChanged: boolean;
+}
+
+/**
+ * Lines up two runs rule by rule. `before` is normally the older run; the
+ * change describes how each rule moved from it to `after`.
+ */
+export function compareRuns(before: ValidationRun, after: ValidationRun): RuleComparison[] {
+  const beforeRules = new Map(before.rules.map((rule) => [ruleIdOf(rule), rule]));
+  const afterRules = new Map(after.rules.map((rule) => [ruleIdOf(rule), rule]));
+  const beforeResults = new Map(before.results.map((result) => [result.ruleId, result]));
+  const afterResults = new Map(after.results.map((result) => [result.ruleId, result]));
+  const ruleIds = Array.from(new Set([...beforeResults.keys(), ...afterResults.keys()]));
+
+  return ruleIds.map((ruleId) => {
+    const previous = beforeResults.get(ruleId);
+    const current = afterResults.get(ruleId);
+    const oldRule = beforeRules.get(ruleId);
+    const newRule = afterRules.get(ruleId);
+    const rule = newRule ?? oldRule ?? {
+      id: ruleId,
+      strategy: (current ?? previous)!.strategy,
+      column: (current ?? previous)!.column,
+    };
+
+    return {
+      ruleId,
+      rule,
+      before: previous,
+      after: current,
+      change: classifyChange(previous, current),
+      configChanged: !!oldRule && !!newRule && ruleSettings(oldRule) !== ruleSettings(newRule),
+    };
+  });
+}
+
+function classifyChange(before?: ValidationResult, after?: ValidationResult): RuleChange {
+  if (!before) return 'added';
+  if (!after) return 'removed';
+  if (!before.isValid && after.isValid) return 'fixed';
+  if (before.isValid && !after.isValid) return 'regressed';
+  if (after.failureRate < before.failureRate) return 'improved';
+  if (after.failureRate > before.failureRate) return 'worsened';
+  return 'unchanged';
+}
+
+function ruleSettings(rule: ValidationConfig): string {
+  return JSON.stringify({ column: rule.column, threshold: rule.threshold, params: rule.params ?? {} });
+}
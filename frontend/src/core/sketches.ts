@@ -0,0 +1,272 @@
+import { quantile } from './statsUtils';
+
+/**
+ * Single-pass summaries for columns too large to hold in memory. Each one
+ * is updated value by value (so chunk by chunk) in constant or logarithmic
+ * space; the error bounds are documented per class.
+ */
+
+/**
+ * Mean, variance and the third and fourth central moments in one pass
+ * (Welford / Terriberry). Exact up to floating-point rounding.
+ */
+export class RunningStats {
+  count = 0;
+  mean = 0;
+  min = Infinity;
+  max = -Infinity;
+  private m2 = 0;
+  private m3 = 0;
+  private m4 = 0;
+
+  push(value: number): void {
+    const n1 = this.count;
+    this.count++;
+    const n = this.count;
+    const delta = value - this.mean;
+    const deltaN = delta / n;
+    const deltaN2 = deltaN * deltaN;
+    const term = delta * deltaN * n1;
+
+    this.mean += deltaN;
+    this.m4 += term * deltaN2 * (n * n - 3 * n + 3) + 6 * deltaN2 * this.m2 - 4 * deltaN * this.m3;
+    this.m3 += term * deltaN * (n - 2) - 3 * deltaN * this.m2;
+    this.m2 += term;
+
+    if (value < this.min) this.min = value;
+    if (value > this.max) this.max = value;
+  }
+
+  /** Population variance (divides by n); 0 when empty. */
+  get variance(): number {
+    return this.count > 0 ? this.m2 / this.count : 0;
+  }
+
+  /** Sample variance (divides by n − 1); 0 with fewer than two values. */
+  get sampleVariance(): number {
+    return this.count > 1 ? this.m2 / (this.count - 1) : 0;
+  }
+
+  get stdDev(): number {
+    return Math.sqrt(this.variance);
+  }
+
+  get skewness(): number {
+    return this.m2 > 0 ? (Math.sqrt(this.count) * this.m3) / Math.pow(this.m2, 1.5) : 0;
+  }
+
+  /** Excess kurtosis (normal = 0). */
+  get kurtosis(): number {
+    return this.m2 > 0 ? (this.count * this.m4) / (this.m2 * this.m2) - 3 : 0;
+  }
+}
+
+// Deterministic PRNG (mulberry32) so compaction, and therefore results, are reproducible.
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export const KLL_DEFAULT_K = 200;
+
+/**
+ * KLL quantile sketch (Karnin, Lang & Liberty 2016). With the default
+ * k = 200 the rank of any returned quantile is within about ±1.7% of the
+ * requested one with 99% confidence, using O(k) memory however many values
+ * are added. Until the first compaction (a few hundred values) it holds
+ * every value and answers exactly, interpolating like `quantile`.
+ */
+export class KllSketch {
+  private levels: number[][] = [[]];
+  private total = 0;
+  private random = seededRandom(0x5eed);
+
+  constructor(private readonly k: number = KLL_DEFAULT_K) {}
+
+  get count(): number {
+    return this.total;
+  }
+
+  /** True while no values have been compacted away. */
+  get isExact(): boolean {
+    return this.levels.length === 1;
+  }
+
+  update(value: number): void {
+    this.levels[0].push(value);
+    this.total++;
+    if (this.levels[0].length >= this.capacity(0)) {
+      this.compress();
+    }
+  }
+
+  /** Value at normalised rank `p` in [0, 1]. NaN when empty. */
+  quantile(p: number): number {
+    if (this.total === 0) return NaN;
+    if (this.isExact) {
+      return quantile([...this.levels[0]].sort((a, b) => a - b), p);
+    }
+
+    const items = this.weightedItems();
+    const target = Math.min(Math.max(p, 0), 1) * this.total;
+    let cumulative = 0;
+    for (const item of items) {
+      cumulative += item.weight;
+      if (cumulative >= target) return item.value;
+    }
+    return items[items.length - 1].value;
+  }
+
+  /** Approximate fraction of values ≤ `value`. */
+  rank(value: number): number {
+    if (this.total === 0) return 0;
+    let below = 0;
+    this.levels.forEach((level, height) => {
+      level.forEach((item) => {
+        if (item <= value) below += 2 ** height;
+      });
+    });
+    return below / this.total;
+  }
+
+  /** Retained values with the number of originals each stands for, ascending. */
+  weightedItems(): { value: number; weight: number }[] {
+    const items = this.levels.flatMap((level, height) => level.map((value) => ({ value, weight: 2 ** height })));
+    return items.sort((a, b) => a.value - b.value);
+  }
+
+  private capacity(height: number): number {
+    const depth = this.levels.length - 1 - height;
+    return Math.max(8, Math.ceil(this.k * Math.pow(2 / 3, depth)));
+  }
+
+  private compress(): void {
+    for (let height = 0; height < this.levels.length; height++) {
+      const level = this.levels[height];
+      if (level.length < this.capacity(height)) continue;
+
+      if (height + 1 === this.levels.length) this.levels.push([]);
+      level.sort((a, b) => a - b);
+      // An odd item out stays behind so weights stay exact.
+      const carry = level.length % 2 === 1 ? [level.pop()!] : [];
+      const offset = this.random() < 0.5 ? 0 : 1;
+      for (let i = offset; i < level.length; i += 2) {
+        this.levels[height + 1].push(level[i]);
+      }
+      this.levels[height] = carry;
+    }
+  }
+}
+
+// FNV-1a followed by the murmur3 finaliser for better avalanche.
+function hash32(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+export const HLL_DEFAULT_PRECISION = 14;
+
+/**
+ * HyperLogLog distinct counter (Flajolet et al. 2007) with the small- and
+ * large-range corrections. Relative standard error is 1.04 / √(2^precision):
+ * 0.81% at the default precision of 14, using 16 KB.
+ */
+export class HyperLogLog {
+  private readonly registers: Uint8Array;
+
+  constructor(private readonly precision: number = HLL_DEFAULT_PRECISION) {
+    this.registers = new Uint8Array(1 << precision);
+  }
+
+  /** Relative standard error of `count()`. */
+  get standardError(): number {
+    return 1.04 / Math.sqrt(this.registers.length);
+  }
+
+  /** Adds a value; numbers and their string forms count as different values. */
+  add(value: unknown): void {
+    const hash = hash32(`${typeof value}:${String(value)}`);
+    const index = hash >>> (32 - this.precision);
+    const rest = (hash << this.precision) | (1 << (this.precision - 1));
+    const rho = Math.clz32(rest) + 1;
+    if (rho > this.registers[index]) this.registers[index] = rho;
+  }
+
+  count(): number {
+    const m = this.registers.length;
+    let sum = 0;
+    let zeros = 0;
+    for (const register of this.registers) {
+      sum += 2 ** -register;
+      if (register === 0) zeros++;
+    }
+
+    const alpha = 0.7213 / (1 + 1.079 / m);
+    const estimate = (alpha * m * m) / sum;
+    if (estimate <= 2.5 * m && zeros > 0) {
+      return Math.round(m * Math.log(m / zeros));
+    }
+    const twoTo32 = 2 ** 32;
+    if (estimate > twoTo32 / 30) {
+      return Math.round(-twoTo32 * Math.log(1 - estimate / twoTo32));
+    }
+    return Math.round(estimate);
+  }
+}
+
+export const FREQUENT_ITEMS_DEFAULT_CAPACITY = 1000;
+
+/**
+ * Misra–Gries frequent items. Counts are exact while at most `capacity`
+ * distinct items have been seen; past that each kept count is low by at
+ * most n / (capacity + 1), and every item more frequent than that is kept.
+ */
+export class FrequentItems {
+  private readonly counts = new Map<string, number>();
+  private trimmed = false;
+
+  constructor(private readonly capacity: number = FREQUENT_ITEMS_DEFAULT_CAPACITY) {}
+
+  /** True while no counts have been decremented. */
+  get isExact(): boolean {
+    return !this.trimmed;
+  }
+
+  add(item: string): void {
+    const count = this.counts.get(item);
+    if (count !== undefined) {
+      this.counts.set(item, count + 1);
+    } else if (this.counts.size < this.capacity) {
+      this.counts.set(item, 1);
+    } else {
+      // The new item and one of every kept item cancel out.
+      this.trimmed = true;
+      this.counts.forEach((kept, key) => {
+        if (kept === 1) this.counts.delete(key);
+        else this.counts.set(key, kept - 1);
+      });
+    }
+  }
+
+  /** The `n` most frequent items, ties broken alphabetically. */
+  top(n: number): { value: string; count: number }[] {
+    return Array.from(this.counts, ([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+      .slice(0, n);
+  }
+}
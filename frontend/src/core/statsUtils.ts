@@ -8,6 +8,34 @@ export interface StatisticalSummary {
   q3: number;
 }
 
+/**
+ * Full descriptive statistics for one column. Extends the basic summary, so
+ * anything that accepts a `StatisticalSummary` accepts this too.
+ */
+export interface ColumnStatistics extends StatisticalSummary {
+  /** Values that were finite numbers and fed the moments below. */
+  count: number;
+  /** `null`, `undefined` or empty-string cells. */
+  nullCount: number;
+  /** Non-null cells that are not finite numbers (NaN, Infinity, text). */
+  nanCount: number;
+  /** Distinct non-null values, numeric or not. */
+  distinctCount: number;
+  /** Population variance (divides by n); `stdDev` is its square root. */
+  variance: number;
+  /** Sample variance (divides by n − 1); 0 when fewer than two values. */
+  sampleVariance: number;
+  sampleStdDev: number;
+  /** Moment coefficient of skewness; 0 for constant input. */
+  skewness: number;
+  /** Excess kurtosis (normal = 0); 0 for constant input. */
+  kurtosis: number;
+  /** Requested percentiles keyed `p5`, `p95`, `p99`, ... */
+  percentiles: Record<string, number>;
+}
+
+export const DEFAULT_PERCENTILES = [5, 25, 50, 75, 95, 99];
+
 export function calculateStats(values: number[]): StatisticalSummary {
   if (values.length === 0) {
     return { mean: 0, median: 0, stdDev: 0, min: 0, max: 0, q1: 0, q3: 0 };
@@ -15,45 +43,323 @@ export function calculateStats(values: number[]): StatisticalSummary {
 
   const sorted = [...values].sort((a, b) => a - b);
   const mean = values.reduce((a, b) => a + b, 0) / values.length;
-  const variance = values.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / values.length;
-  const stdDev = Math.sqrt(variance);
+  const stdDev = Math.sqrt(variance(values));
 
-  const median = sorted[Math.floor(sorted.length / 2)];
-  const q1 = sorted[Math.floor(sorted.length * 0.25)];
-  const q3 = sorted[Math.floor(sorted.length * 0.75)];
+  const median = quantile(sorted, 0.5);
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
   const min = sorted[0];
   const max = sorted[sorted.length - 1];
 
   return { mean, median, stdDev, min, max, q1, q3 };
 }
 
+/**
+ * Describes a raw column: null and non-numeric cells are counted and then
+ * excluded from the numeric statistics. With no numeric values every
+ * numeric field is 0, matching `calculateStats([])`.
+ */
+export function describeColumn(values: unknown[], percentiles: number[] = DEFAULT_PERCENTILES): ColumnStatistics {
+  let nullCount = 0;
+  let nanCount = 0;
+  const numbers: number[] = [];
+  const distinct = new Set<unknown>();
+
+  for (const value of values) {
+    if (value === null || value === undefined || value === '') {
+      nullCount++;
+      continue;
+    }
+    distinct.add(value);
+    if (typeof value === 'number' && isFinite(value)) {
+      numbers.push(value);
+    } else {
+      nanCount++;
+    }
+  }
+
+  const summary = calculateStats(numbers);
+  const sorted = [...numbers].sort((a, b) => a - b);
+  const sampleVariance = variance(numbers, true);
+  const { skewness, kurtosis } = shapeMoments(numbers, summary.mean);
+
+  return {
+    ...summary,
+    count: numbers.length,
+    nullCount,
+    nanCount,
+    distinctCount: distinct.size,
+    variance: summary.stdDev * summary.stdDev,
+    sampleVariance,
+    sampleStdDev: Math.sqrt(sampleVariance),
+    skewness,
+    kurtosis,
+    percentiles: Object.fromEntries(
+      percentiles.map((p) => [`p${p}`, sorted.length > 0 ? quantile(sorted, p / 100) : 0])
+    ),
+  };
+}
+
+/**
+ * Population (divide by n) or sample (divide by n − 1) variance. Returns 0
+ * when there are too few values to estimate it.
+ */
+export function variance(values: number[], sample: boolean = false): number {
+  const denominator = sample ? values.length - 1 : values.length;
+  if (denominator <= 0) return 0;
+
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  return values.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / denominator;
+}
+
+/**
+ * Percentile of unsorted values, `p` in [0, 100] (e.g. 95 for p95).
+ * Interpolates between neighbours like `quantile`.
+ */
+export function percentile(values: number[], p: number): number {
+  return quantile([...values].sort((a, b) => a - b), p / 100);
+}
+
+/**
+ * Linearly interpolated quantile of an ascending-sorted array (the
+ * "type 7" estimator used by NumPy and R). `p` is in [0, 1].
+ */
+export function quantile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return NaN;
+
+  const position = (sorted.length - 1) * Math.min(Math.max(p, 0), 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function shapeMoments(values: number[], mean: number): { skewness: number; kurtosis: number } {
+  const n = values.length;
+  if (n === 0) return { skewness: 0, kurtosis: 0 };
+
+  let m2 = 0;
+  let m3 = 0;
+  let m4 = 0;
+  for (const value of values) {
+    const d = value - mean;
+    m2 += d * d;
+    m3 += d * d * d;
+    m4 += d * d * d * d;
+  }
+  m2 /= n;
+  m3 /= n;
+  m4 /= n;
+
+  if (m2 === 0) return { skewness: 0, kurtosis: 0 };
+  return { skewness: m3 / Math.pow(m2, 1.5), kurtosis: m4 / (m2 * m2) - 3 };
+}
+
 export function calculateZScore(value: number, mean: number, stdDev: number): number {
   if (stdDev === 0) return 0;
   return (value - mean) / stdDev;
 }
 
+/**
+ * KL divergence of `current` from `baseline`, both binned on the same
+ * equal-width edges so the histograms are comparable.
+ */
 export function detectDrift(baseline: number[], current: number[], bins: number = 10): number {
-  const baselineHist = createHistogram(baseline, bins);
-  const currentHist = createHistogram(current, bins);
+  const edges = sharedBinEdges(baseline, current, bins);
+  const baselineHist = toProportions(binCounts(baseline, edges));
+  const currentHist = toProportions(binCounts(current, edges));
 
   return calculateKLDivergence(baselineHist, currentHist);
 }
 
-function createHistogram(values: number[], bins: number): number[] {
-  if (values.length === 0) return new Array(bins).fill(0);
+/**
+ * Equal-width edges spanning both samples, so a value lands in the same bin
+ * whichever sample it came from. Returns `bins + 1` edges.
+ */
+export function sharedBinEdges(a: number[], b: number[], bins: number): number[] {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of [a, b].flat()) {
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  if (min === Infinity) return [0, 1];
 
-  const min = Math.min(...values);
-  const max = Math.max(...values);
-  const binSize = (max - min) / bins || 1;
-  const histogram = new Array(bins).fill(0);
+  const width = (max - min) / bins || 1;
+  return Array.from({ length: bins + 1 }, (_, i) => min + i * width);
+}
+
+/** Counts per bin; the last bin is closed so the maximum is included. */
+export function binCounts(values: number[], edges: number[]): number[] {
+  const bins = edges.length - 1;
+  const counts = new Array(bins).fill(0);
+  const width = edges[1] - edges[0];
 
   values.forEach((value) => {
-    const binIndex = Math.min(Math.floor((value - min) / binSize), bins - 1);
-    histogram[binIndex]++;
+    const index = Math.floor((value - edges[0]) / width);
+    counts[Math.min(Math.max(index, 0), bins - 1)]++;
   });
+  return counts;
+}
 
-  const total = histogram.reduce((a, b) => a + b, 0);
-  return histogram.map((count) => count / total);
+export function toProportions(counts: number[]): number[] {
+  const total = counts.reduce((a, b) => a + b, 0);
+  return counts.map((count) => (total > 0 ? count / total : 0));
+}
+
+// Floor for empty bins so log ratios stay finite.
+const DRIFT_EPSILON = 1e-4;
+
+/**
+ * Population Stability Index between two distributions over the same bins.
+ * Rule of thumb: < 0.1 stable, 0.1–0.25 moderate shift, > 0.25 major shift.
+ */
+export function populationStabilityIndex(expected: number[], actual: number[]): number {
+  let psi = 0;
+  for (let i = 0; i < expected.length; i++) {
+    const e = Math.max(expected[i], DRIFT_EPSILON);
+    const a = Math.max(actual[i], DRIFT_EPSILON);
+    psi += (a - e) * Math.log(a / e);
+  }
+  return psi;
+}
+
+/** Jensen-Shannon divergence in bits: symmetric and bounded to [0, 1]. */
+export function jensenShannonDivergence(p: number[], q: number[]): number {
+  let divergence = 0;
+  for (let i = 0; i < p.length; i++) {
+    const m = (p[i] + q[i]) / 2;
+    if (p[i] > 0) divergence += 0.5 * p[i] * Math.log2(p[i] / m);
+    if (q[i] > 0) divergence += 0.5 * q[i] * Math.log2(q[i] / m);
+  }
+  return Math.min(Math.max(divergence, 0), 1);
+}
+
+export interface TestStatistic {
+  statistic: number;
+  pValue: number;
+}
+
+/**
+ * Two-sample Kolmogorov-Smirnov test: the largest gap between the samples'
+ * empirical CDFs, with the asymptotic p-value (Numerical Recipes `probks`).
+ */
+export function kolmogorovSmirnov(a: number[], b: number[]): TestStatistic {
+  if (a.length === 0 || b.length === 0) return { statistic: 0, pValue: 1 };
+
+  const x = [...a].sort((m, n) => m - n);
+  const y = [...b].sort((m, n) => m - n);
+  let i = 0;
+  let j = 0;
+  let d = 0;
+
+  while (i < x.length && j < y.length) {
+    const value = Math.min(x[i], y[j]);
+    while (i < x.length && x[i] === value) i++;
+    while (j < y.length && y[j] === value) j++;
+    d = Math.max(d, Math.abs(i / x.length - j / y.length));
+  }
+
+  const ne = Math.sqrt((x.length * y.length) / (x.length + y.length));
+  return { statistic: d, pValue: kolmogorovProbability((ne + 0.12 + 0.11 / ne) * d) };
+}
+
+function kolmogorovProbability(lambda: number): number {
+  if (lambda < 1e-3) return 1;
+
+  let sum = 0;
+  let sign = 1;
+  for (let k = 1; k <= 100; k++) {
+    const term = sign * 2 * Math.exp(-2 * k * k * lambda * lambda);
+    sum += term;
+    if (Math.abs(term) < 1e-10) return Math.min(Math.max(sum, 0), 1);
+    sign = -sign;
+  }
+  return 1;
+}
+
+/**
+ * Chi-square test of homogeneity on two count vectors over the same
+ * categories. Categories empty in both samples are ignored.
+ */
+export function chiSquareTest(a: number[], b: number[]): TestStatistic & { degreesOfFreedom: number } {
+  const totalA = a.reduce((x, y) => x + y, 0);
+  const totalB = b.reduce((x, y) => x + y, 0);
+  const total = totalA + totalB;
+  let statistic = 0;
+  let categories = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    const column = a[i] + b[i];
+    if (column === 0) continue;
+    categories++;
+
+    const expectedA = (column * totalA) / total;
+    const expectedB = (column * totalB) / total;
+    statistic += Math.pow(a[i] - expectedA, 2) / expectedA + Math.pow(b[i] - expectedB, 2) / expectedB;
+  }
+
+  const degreesOfFreedom = categories - 1;
+  if (degreesOfFreedom < 1 || totalA === 0 || totalB === 0) {
+    return { statistic: 0, pValue: 1, degreesOfFreedom: Math.max(degreesOfFreedom, 0) };
+  }
+  return { statistic, pValue: chiSquareSurvival(statistic, degreesOfFreedom), degreesOfFreedom };
+}
+
+/** P(X > x) for a chi-square distribution: the regularized upper gamma Q(k/2, x/2). */
+export function chiSquareSurvival(x: number, degreesOfFreedom: number): number {
+  if (x <= 0) return 1;
+  const a = degreesOfFreedom / 2;
+  const z = x / 2;
+  return z < a + 1 ? 1 - lowerGammaSeries(a, z) : upperGammaFraction(a, z);
+}
+
+function logGamma(x: number): number {
+  // Lanczos approximation, g = 7.
+  const c = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+    1.5056327351493116e-7,
+  ];
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+
+  x -= 1;
+  let sum = c[0];
+  for (let i = 1; i < 9; i++) sum += c[i] / (x + i);
+  const t = x + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+function lowerGammaSeries(a: number, x: number): number {
+  let term = 1 / a;
+  let sum = term;
+  for (let n = 1; n < 500; n++) {
+    term *= x / (a + n);
+    sum += term;
+    if (Math.abs(term) < Math.abs(sum) * 1e-14) break;
+  }
+  return sum * Math.exp(-x + a * Math.log(x) - logGamma(a));
+}
+
+function upperGammaFraction(a: number, x: number): number {
+  // Modified Lentz evaluation of the continued fraction.
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-14) break;
+  }
+  return Math.exp(-x + a * Math.log(x) - logGamma(a)) * h;
 }
 
 function calculateKLDivergence(p: number[], q: number[]): number {
@@ -72,8 +378,13 @@ function calculateKLDivergence(p: number[], q: number[]): number {
 export function generateDistributionData(values: number[], bins: number = 20) {
   if (values.length === 0) return [];
 
-  const min = Math.min(...values);
-  const max = Math.max(...values);
+  // A loop rather than Math.min(...values): spreading large columns overflows the call stack.
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of values) {
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
   const binSize = (max - min) / bins || 1;
   const histogram = new Array(bins).fill(0);
 
@@ -0,0 +1,25 @@
+import { dataService } from './MockDataService';
+import { validateInChunks } from './chunkedValidation';
+import { prepareRun } from './validationRunner';
+import type { ValidationWorkerMessage, ValidationWorkerRequest } from './validationWorkerClient';
+
+const post = (message: ValidationWorkerMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<ValidationWorkerRequest>) => {
+  const { dataset, chunkSize } = event.data;
+
+  try {
+    // The worker has its own connection; the page has already upgraded the schema.
+    await dataService.init();
+    const { context, ...prepared } = await prepareRun(dataset);
+    const { rowCount, results } = await validateInChunks(
+      (fromIndex, limit) => dataService.getRowChunk(dataset, fromIndex, limit),
+      prepared.configs,
+      context,
+      { chunkSize, totalRows: prepared.rowCount, onProgress: (progress) => post({ type: 'progress', progress }) }
+    );
+    post({ type: 'done', prepared, rowCount, results });
+  } catch (error) {
+    post({ type: 'error', message: (error as Error).message });
+  }
+};
@@ -0,0 +1,192 @@
+import { Alert, dataService } from './MockDataService';
+import {
+  AUTO_RESOLVE_NOTE,
+  RULE_REMOVED_NOTE,
+  SEVERITY_RANK,
+  alertFindings,
+  alertFromResult,
+  alertKey,
+  effectiveStatus,
+  escalateAlert,
+  foldAlert,
+  isUnresolved,
+  resolveAlert,
+} from './alertLifecycle';
+import {
+  ColumnBaseline,
+  ValidationConfig,
+  ValidationContext,
+  ValidationResult,
+  ruleIdOf,
+} from './ValidationEngine';
+import { ChunkedValidationOptions, validateInChunks } from './chunkedValidation';
+import { scoreQuality } from './qualityScore';
+import { NotificationMessage } from './notifications';
+import { flushOutbox, queueNotifications } from './notificationDispatcher';
+
+/** What a run needs before it touches the dataset's rows. */
+export interface PreparedRun {
+  startedAt: Date;
+  rowCount: number;
+  configs: ValidationConfig[];
+  context: ValidationContext;
+}
+
+/**
+ * Validates one dataset against its own rules, raises or folds an alert per
+ * failing rule (resolving those whose rule now passes or is gone), records
+ * the score in the catalog and appends the run to the dataset's history.
+ */
+export async function runValidation(
+  datasetName: string,
+  options: ChunkedValidationOptions = {}
+): Promise<ValidationResult[]> {
+  const prepared = await prepareRun(datasetName);
+  const { rowCount, results } = await validateInChunks(
+    (fromIndex, limit) => dataService.getRowChunk(datasetName, fromIndex, limit),
+    prepared.configs,
+    prepared.context,
+    { totalRows: prepared.rowCount, ...options }
+  );
+  await recordRun(datasetName, prepared, rowCount, results);
+  return results;
+}
+
+export async function prepareRun(datasetName: string): Promise<PreparedRun> {
+  const info = await dataService.getDatasetInfo(datasetName);
+  if (!info) {
+    throw new Error(`Unknown dataset: ${datasetName}`);
+  }
+
+  const startedAt = new Date();
+  const rules = await dataService.getRules(datasetName);
+  const configs = rules.map(snapshotRule);
+  const context = await loadValidationContext(datasetName, configs);
+  return { startedAt, rowCount: info.rowCount, configs, context };
+}
+
+/**
+ * Turns a finished run's results into alerts, a catalog score and a history
+ * entry, and queues notifications for new, escalated and resolved alerts.
+ */
+export async function recordRun(
+  datasetName: string,
+  prepared: Omit<PreparedRun, 'context'>,
+  rowCount: number,
+  results: ValidationResult[]
+): Promise<void> {
+  // Stored first so alerts can point at the run whose rows they are about.
+  const info = await dataService.getDatasetInfo(datasetName);
+  const dqScore = Math.round(scoreQuality(prepared.configs, results, info?.dimensionWeights).score);
+  await dataService.recordValidation(datasetName, dqScore);
+  const run = await dataService.addRun({
+    dataset: datasetName,
+    startedAt: prepared.startedAt,
+    finishedAt: new Date(),
+    rowCount,
+    dqScore,
+    rules: prepared.configs,
+    results,
+  });
+
+  const alerts = await dataService.getAlerts(datasetName);
+  const openByKey = new Map<string, Alert>();
+  alerts.filter(isUnresolved).forEach((alert) => {
+    const key = alertKey(alert);
+    if (!openByKey.has(key)) openByKey.set(key, alert);
+  });
+
+  const escalationByRule = new Map(prepared.configs.map((config) => [ruleIdOf(config), config.escalation]));
+
+  const messages: NotificationMessage[] = [];
+
+  for (const result of results) {
+    const escalation = escalationByRule.get(result.ruleId);
+    const failing = new Set<string>();
+
+    for (const { violation, result: failure } of alertFindings(result)) {
+      const key = alertKey({ ruleId: result.ruleId, violation });
+      const open = openByKey.get(key);
+      failing.add(key);
+
+      if (open) {
+        const folded = escalateAlert({ ...foldAlert(open, failure), runId: run.id }, escalation);
+        await dataService.updateAlert(folded);
+        // A snoozed alert stays quiet until the snooze runs out.
+        if (SEVERITY_RANK[folded.severity] > SEVERITY_RANK[open.severity] && effectiveStatus(folded) !== 'snoozed') {
+          messages.push({ event: 'escalated', alert: folded, previousSeverity: open.severity });
+        }
+      } else {
+        const raised = { ...alertFromResult(datasetName, failure), ...(violation && { violation }), runId: run.id };
+        const alert = await dataService.addAlert(escalateAlert(raised, escalation));
+        messages.push({ event: 'opened', alert });
+      }
+    }
+
+    // The rule's other open alerts track failures that did not recur.
+    for (const [key, open] of openByKey) {
+      if (open.ruleId !== result.ruleId || failing.has(key)) continue;
+      const resolved = resolveAlert(open, AUTO_RESOLVE_NOTE);
+      await dataService.updateAlert(resolved);
+      messages.push({ event: 'resolved', alert: resolved });
+    }
+  }
+
+  // Deleted or disabled rules will never pass again, so their alerts close here.
+  const enabledRules = new Set(prepared.configs.filter((config) => config.enabled !== false).map(ruleIdOf));
+  for (const open of openByKey.values()) {
+    if (enabledRules.has(open.ruleId)) continue;
+    const resolved = resolveAlert(open, RULE_REMOVED_NOTE);
+    await dataService.updateAlert(resolved);
+    messages.push({ event: 'resolved', alert: resolved });
+  }
+
+  await queueNotifications(messages);
+  flushOutbox().catch((error) => console.error('Failed to deliver notifications:', error));
+}
+
+/** The rule's validation settings without its storage bookkeeping. */
+function snapshotRule(rule: ValidationConfig): ValidationConfig {
+  return {
+    id: rule.id,
+    strategy: rule.strategy,
+    column: rule.column,
+    threshold: rule.threshold,
+    params: rule.params,
+    enabled: rule.enabled,
+    weight: rule.weight,
+    dimension: rule.dimension,
+    escalation: rule.escalation,
+  };
+}
+
+/** Loads every other dataset the enabled rules reference, plus saved drift baselines and run row counts. */
+export async function loadValidationContext(
+  datasetName: string,
+  configs: ValidationConfig[]
+): Promise<ValidationContext> {
+  const names = new Set(
+    configs
+      .filter((config) => config.enabled !== false && config.params?.referenceDataset)
+      .map((config) => config.params!.referenceDataset!)
+  );
+
+  const datasets: Record<string, any[]> = {};
+  for (const name of names) {
+    if (await dataService.getDatasetInfo(name)) {
+      datasets[name] = await dataService.getDataset(name);
+    }
+  }
+  const baselines: Record<string, ColumnBaseline> = {};
+  if (configs.some((config) => config.enabled !== false && config.strategy === 'Drift')) {
+    for (const baseline of await dataService.getBaselines(datasetName)) {
+      baselines[baseline.column] = baseline;
+    }
+  }
+  const context: ValidationContext = { datasets, baselines };
+  if (configs.some((config) => config.enabled !== false && config.strategy === 'Volume' && config.params?.volumeBy !== 'day')) {
+    const runs = await dataService.getRuns(datasetName);
+    context.volumeHistory = runs.map((run) => ({ time: new Date(run.startedAt).getTime(), count: run.rowCount }));
+  }
+  return context;
+}
@@ -0,0 +1,78 @@
+import { ValidationResult } from './ValidationEngine';
+import { ValidationProgress } from './chunkedValidation';
+import { PreparedRun, recordRun, runValidation } from './validationRunner';
+
+export type ValidationWorkerRequest = { type: 'start'; dataset: string; chunkSize?: number };
+
+export type ValidationWorkerMessage =
+  | { type: 'progress'; progress: ValidationProgress }
+  | { type: 'done'; prepared: Omit<PreparedRun, 'context'>; rowCount: number; results: ValidationResult[] }
+  | { type: 'error'; message: string };
+
+export interface ValidationJob {
+  /** Resolves with the run's results once they are recorded; rejects with an AbortError when cancelled. */
+  promise: Promise<ValidationResult[]>;
+  cancel: () => void;
+}
+
+export function isCancellation(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Validates a dataset off the main thread. The worker reads and checks the
+ * rows; alerts and history are written here once it reports back, so a
+ * cancelled run leaves no trace. Without Worker support the run happens
+ * in-thread with the same chunking and progress events.
+ */
+export function startValidation(
+  datasetName: string,
+  onProgress?: (progress: ValidationProgress) => void
+): ValidationJob {
+  if (typeof Worker === 'undefined') {
+    const controller = new AbortController();
+    return {
+      promise: runValidation(datasetName, { onProgress, signal: controller.signal }),
+      cancel: () => controller.abort(),
+    };
+  }
+
+  const worker = new Worker(new URL('./validation.worker.ts', import.meta.url), { type: 'module' });
+  let rejectJob: (error: unknown) => void = () => {};
+
+  const promise = new Promise<ValidationResult[]>((resolve, reject) => {
+    rejectJob = reject;
+
+    worker.onmessage = (event: MessageEvent<ValidationWorkerMessage>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.progress);
+          return;
+        case 'done':
+          worker.terminate();
+          recordRun(datasetName, message.prepared, message.rowCount, message.results)
+            .then(() => resolve(message.results), reject);
+          return;
+        case 'error':
+          worker.terminate();
+          reject(new Error(message.message));
+          return;
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Validation worker failed'));
+    };
+  });
+
+  worker.postMessage({ type: 'start', dataset: datasetName } satisfies ValidationWorkerRequest);
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      rejectJob(new DOMException('Validation cancelled', 'AbortError'));
+    },
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * Row-count baselines for volume checks. A count is compared with the
+ * counts before it: the same weekday's counts when there are enough of
+ * them, otherwise an exponentially weighted moving average (EWMA) of all of
+ * them. The control limits are `expected ± k·σ`, where σ never drops below
+ * the Poisson noise of the expected count, so small, steady counts do not
+ * alert on every wobble.
+ */
+
+export interface VolumePoint {
+  /** Epoch milliseconds of the run or the start of the UTC day. */
+  time: number;
+  count: number;
+}
+
+export type VolumeBaselineMethod = 'weekday' | 'ewma';
+
+export interface VolumeBaseline {
+  method: VolumeBaselineMethod;
+  expected: number;
+  stdDev: number;
+  /** How many earlier counts the baseline rests on. */
+  points: number;
+}
+
+export interface VolumeCheck extends VolumeBaseline {
+  count: number;
+  lower: number;
+  upper: number;
+  /** Signed distance from the expected count in standard deviations. */
+  deviation: number;
+  anomaly: 'drop' | 'spike' | null;
+}
+
+/** Earlier counts needed before anything is judged. */
+export const MIN_VOLUME_HISTORY = 3;
+/** Same-weekday counts needed before the weekday baseline replaces the EWMA. */
+export const MIN_WEEKDAY_POINTS = 3;
+export const DEFAULT_VOLUME_THRESHOLD = 3;
+export const EWMA_ALPHA = 0.3;
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Relative change from the expected count below which the trend reads as stable. */
+const TREND_TOLERANCE = 0.05;
+
+/** Most recent same-weekday counts the weekday baseline uses. */
+const WEEKDAY_WINDOW = 8;
+
+const weekday = (time: number) => new Date(time).getUTCDay();
+
+/** EWMA of a series with its exponentially weighted variance. */
+export function ewma(values: number[], alpha = EWMA_ALPHA): { mean: number; variance: number } {
+  let mean = values[0] ?? 0;
+  let variance = 0;
+  for (let i = 1; i < values.length; i++) {
+    const diff = values[i] - mean;
+    const increment = alpha * diff;
+    mean += increment;
+    variance = (1 - alpha) * (variance + diff * increment);
+  }
+  return { mean, variance };
+}
+
+/** Baseline for a count at `time` from the earlier points, or null with too little history. */
+export function volumeBaseline(history: VolumePoint[], time: number): VolumeBaseline | null {
+  const earlier = history.filter((point) => point.time < time).sort((a, b) => a.time - b.time);
+  if (earlier.length < MIN_VOLUME_HISTORY) return null;
+
+  const sameDay = earlier.filter((point) => weekday(point.time) === weekday(time)).slice(-WEEKDAY_WINDOW);
+  if (sameDay.length >= MIN_WEEKDAY_POINTS) {
+    const counts = sameDay.map((point) => point.count);
+    const mean = counts.reduce((sum, count) => sum + count, 0) / counts.length;
+    const variance = counts.reduce((sum, count) => sum + (count - mean) ** 2, 0) / (counts.length - 1);
+    return { method: 'weekday', expected: mean, stdDev: Math.sqrt(variance), points: sameDay.length };
+  }
+
+  const { mean, variance } = ewma(earlier.map((point) => point.count));
+  return { method: 'ewma', expected: mean, stdDev: Math.sqrt(variance), points: earlier.length };
+}
+
+/** Checks one count against its baseline; null until there is enough history. */
+export function checkVolume(
+  history: VolumePoint[],
+  current: VolumePoint,
+  threshold = DEFAULT_VOLUME_THRESHOLD
+): VolumeCheck | null {
+  const baseline = volumeBaseline(history, current.time);
+  if (!baseline) return null;
+
+  const stdDev = Math.max(baseline.stdDev, Math.sqrt(Math.max(baseline.expected, 1)));
+  const deviation = (current.count - baseline.expected) / stdDev;
+  return {
+    ...baseline,
+    stdDev,
+    count: current.count,
+    lower: Math.max(0, baseline.expected - threshold * stdDev),
+    upper: baseline.expected + threshold * stdDev,
+    deviation,
+    anomaly: deviation < -threshold ? 'drop' : deviation > threshold ? 'spike' : null,
+  };
+}
+
+/** Turns row counts keyed by UTC day number into one point per day of the range, empty days as zero. */
+export function dailyCounts(days: Map<number, number>): VolumePoint[] {
+  let first = Infinity;
+  let last = -Infinity;
+  days.forEach((_count, day) => {
+    first = Math.min(first, day);
+    last = Math.max(last, day);
+  });
+
+  const points: VolumePoint[] = [];
+  for (let day = first; day <= last; day++) {
+    points.push({ time: day * DAY_MS, count: days.get(day) ?? 0 });
+  }
+  return points;
+}
+
+export interface VolumeTrend {
+  direction: 'up' | 'down' | 'stable';
+  expected: number;
+  /** Relative change from the expected count. */
+  change: number;
+  anomaly: VolumeCheck['anomaly'];
+}
+
+/**
+ * Direction of the current count against history: against the baseline
+ * once there is enough of it, before that against the latest count. Null
+ * without any history.
+ */
+export function volumeTrend(history: VolumePoint[], current: VolumePoint): VolumeTrend | null {
+  if (history.length === 0) return null;
+
+  const check = checkVolume(history, current);
+  const latest = history.reduce((a, b) => (b.time > a.time ? b : a));
+  const expected = check ? check.expected : latest.count;
+  const change = expected > 0 ? (current.count - expected) / expected : current.count > 0 ? 1 : 0;
+  const anomaly = check?.anomaly ?? null;
+
+  return {
+    direction: anomaly === 'spike' || change > TREND_TOLERANCE ? 'up' : anomaly === 'drop' || change < -TREND_TOLERANCE ? 'down' : 'stable',
+    expected,
+    change,
+    anomaly,
+  };
+}
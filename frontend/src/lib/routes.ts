@@ -0,0 +1,9 @@
+export const datasetPath = (name: string) => `/datasets/${encodeURIComponent(name)}`;
+
+/** The explorer; with an alert id it shows only the rows that alert is about. */
+export const datasetRowsPath = (name: string, alertId?: string) =>
+  `${datasetPath(name)}/rows${alertId ? `?alert=${encodeURIComponent(alertId)}` : ''}`;
+
+export const datasetHistoryPath = (name: string) => `${datasetPath(name)}/history`;
+
+export const notificationsPath = '/notifications';
@@ -0,0 +1,39 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeAll } from 'vitest';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { dataService } from '../core/MockDataService';
+import DatasetCatalog from '../components/DatasetCatalog';
+
+const renderCatalog = () =>
+  render(
+    <MemoryRouter>
+      <DatasetCatalog />
+    </MemoryRouter>
+  );
+
+describe('DatasetCatalog', () => {
+  beforeAll(async () => {
+    await dataService.init();
+    await dataService.importDataset('orders', [{ id: 1 }, { id: 2 }]);
+  });
+
+  it('should only delete a dataset once the deletion is confirmed', async () => {
+    renderCatalog();
+    fireEvent.click(await screen.findByLabelText('Delete orders'));
+
+    const confirmation = screen.getByTestId('delete-dataset-confirmation');
+    expect(confirmation).toHaveTextContent('Delete "orders"? Its 2 rows, alerts, validation rules');
+    expect(confirmation).toHaveTextContent('This cannot be undone.');
+    expect(await dataService.getDatasetInfo('orders')).toBeTruthy();
+
+    fireEvent.click(screen.getByTestId('delete-dataset-cancel-btn'));
+    expect(screen.queryByTestId('delete-dataset-confirmation')).not.toBeInTheDocument();
+    expect(await dataService.getDatasetInfo('orders')).toBeTruthy();
+
+    fireEvent.click(screen.getByLabelText('Delete orders'));
+    fireEvent.click(screen.getByTestId('delete-dataset-confirm-btn'));
+    await waitFor(() => expect(screen.queryByTestId('catalog-row')).not.toBeInTheDocument());
+    expect(await dataService.getDatasetInfo('orders')).toBeUndefined();
+  });
+});
@@ -0,0 +1,62 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import { dataService, DEMO_DATASET } from '../core/MockDataService';
+
+/** Creates the version 1 schema: one table of rows and alerts with no dataset or lifecycle. */
+async function createVersion1(): Promise<void> {
+  const request = indexedDB.open('DataQualityGuardDB', 1);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    db.createObjectStore('dataset', { keyPath: 'id' }).put({ id: 1, email: 'a@x.io', price: 10 });
+    const alerts = db.createObjectStore('alerts', { keyPath: 'id' });
+    alerts.createIndex('timestamp', 'timestamp', { unique: false });
+    ['a1', 'a2'].forEach((id) =>
+      alerts.put({
+        id,
+        ruleId: 'Completeness:email',
+        timestamp: new Date('2024-01-01T00:00:00Z'),
+        severity: 'warning',
+        type: 'Completeness',
+        message: 'missing email values',
+        column: 'email',
+        affectedRows: 1,
+      })
+    );
+  };
+  const db = await new Promise<IDBDatabase>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  db.close();
+}
+
+describe('MockDataService', () => {
+  it('should upgrade a version 1 database to the current schema', async () => {
+    await createVersion1();
+    await dataService.init();
+
+    const alerts = await dataService.getAlerts(DEMO_DATASET);
+    expect(alerts.map((alert) => alert.id).sort()).toEqual(['a1', 'a2']);
+    alerts.forEach((alert) => {
+      expect(alert).toMatchObject({ dataset: DEMO_DATASET, status: 'open', occurrences: 1 });
+      expect(alert.firstSeen).toEqual(alert.timestamp);
+    });
+
+    expect(await dataService.getDataset(DEMO_DATASET)).toEqual([{ id: 1, email: 'a@x.io', price: 10 }]);
+    expect((await dataService.getRules(DEMO_DATASET)).map((rule) => rule.strategy).sort()).toEqual([
+      'Completeness',
+      'NumericalRange',
+      'Uniqueness',
+    ]);
+    expect(await dataService.getOutbox()).toEqual([]);
+  });
+
+  it('should read only the requested rows', async () => {
+    await dataService.importDataset('orders', [{ id: 'a' }, { id: 'b' }, { id: 'c' }]);
+
+    expect(await dataService.getRows('orders', [2, 0, 7])).toEqual([
+      { index: 2, row: { id: 'c' } },
+      { index: 0, row: { id: 'a' } },
+    ]);
+  });
+});
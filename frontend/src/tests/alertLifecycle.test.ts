@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { Alert } from '../core/MockDataService';
+import {
+  acknowledgeAlert,
+  alertFindings,
+  alertFromResult,
+  alertKey,
+  assignAlert,
+  effectiveStatus,
+  escalateAlert,
+  filterAlerts,
+  foldAlert,
+  reopenAlert,
+  resolveAlert,
+  snoozeAlert,
+} from '../core/alertLifecycle';
+import { ValidationEngine, inferSchema } from '../core/ValidationEngine';
+
+const engine = new ValidationEngine();
+const now = new Date('2024-03-01T12:00:00Z');
+
+const failing = engine.validate('Completeness', [{ email: '' }, { email: 'a@x.io' }], 'email');
+const worse = engine.validate('Completeness', [{ email: '' }, { email: '' }], 'email');
+
+const makeAlert = (overrides: Partial<Alert> = {}): Alert => ({
+  id: 'a1',
+  ...alertFromResult('orders', failing, now),
+  ...overrides,
+});
+
+describe('alertLifecycle', () => {
+  it('should open a new alert from a failing result', () => {
+    const alert = alertFromResult('orders', failing, now);
+    expect(alert).toMatchObject({
+      ruleId: 'Completeness:email',
+      status: 'open',
+      occurrences: 1,
+      firstSeen: now,
+      affectedRows: 1,
+      type: 'Completeness',
+    });
+  });
+
+  it('should fold a repeat failure into the existing alert', () => {
+    const later = new Date('2024-03-02T12:00:00Z');
+    const folded = foldAlert(assignAlert(acknowledgeAlert(makeAlert(), now), 'dana'), worse, later);
+
+    expect(folded.id).toBe('a1');
+    expect(folded.occurrences).toBe(2);
+    expect(folded.timestamp).toBe(later);
+    expect(folded.firstSeen).toBe(now);
+    expect(folded.affectedRows).toBe(2);
+    expect(folded.status).toBe('acknowledged');
+    expect(folded.owner).toBe('dana');
+  });
+
+  it('should resolve with a note and reopen', () => {
+    const resolved = resolveAlert(makeAlert(), '  backfilled emails ', now);
+    expect(resolved).toMatchObject({ status: 'resolved', resolvedAt: now, resolutionNote: 'backfilled emails' });
+
+    const reopened = reopenAlert(resolved);
+    expect(reopened.status).toBe('open');
+    expect(reopened.resolutionNote).toBeUndefined();
+  });
+
+  it('should treat an expired snooze as open', () => {
+    const snoozed = snoozeAlert(makeAlert(), new Date('2024-03-05T00:00:00Z'));
+    expect(effectiveStatus(snoozed, now)).toBe('snoozed');
+    expect(effectiveStatus(snoozed, new Date('2024-03-06T00:00:00Z'))).toBe('open');
+  });
+
+  it('should clear the owner when assigned a blank name', () => {
+    expect(assignAlert(makeAlert({ owner: 'dana' }), ' ').owner).toBeUndefined();
+  });
+
+  it('should escalate alerts that keep failing', () => {
+    const steps = [
+      { afterRuns: 3, severity: 'warning' as const },
+      { afterRuns: 5, severity: 'critical' as const },
+    ];
+    expect(escalateAlert(makeAlert({ severity: 'info', occurrences: 2 }), steps).severity).toBe('info');
+    expect(escalateAlert(makeAlert({ severity: 'info', occurrences: 3 }), steps)).toMatchObject({
+      severity: 'warning',
+      escalatedFrom: 'info',
+    });
+    expect(escalateAlert(makeAlert({ severity: 'warning', occurrences: 6 }), steps).severity).toBe('critical');
+    // Steps never lower what the run graded, and a recovered grade drops the marker.
+    const critical = escalateAlert(makeAlert({ severity: 'critical', occurrences: 3, escalatedFrom: 'warning' }), steps);
+    expect(critical.severity).toBe('critical');
+    expect(critical.escalatedFrom).toBeUndefined();
+    expect(escalateAlert(makeAlert({ severity: 'warning', occurrences: 9 })).severity).toBe('warning');
+  });
+
+  it('should split a schema failure into one finding per violation kind', () => {
+    const schema = inferSchema([{ id: 1, email: 'a@x.io', price: 10 }]);
+    const rows = [{ id: 1, email: '' }, { id: 2, email: 'b@x.io' }, { id: 3, email: null }];
+    const result = engine.validateRule(rows, { id: 'schema', strategy: 'Schema', column: '*', params: { schema } });
+
+    const findings = alertFindings(result);
+    expect(findings.map((f) => f.violation)).toEqual(['nullability', 'missing']);
+    expect(findings[0].result).toMatchObject({ severity: 'warning', failedRows: [0, 2] });
+    expect(findings[0].result.failureRate).toBeCloseTo(2 / 3);
+    expect(findings[1].result).toMatchObject({ severity: 'critical', failedRows: [], message: 'Schema contract violated: missing column price' });
+    expect(findings.map((f) => alertKey({ ruleId: result.ruleId, violation: f.violation }))).toEqual([
+      'schema#nullability',
+      'schema#missing',
+    ]);
+
+    expect(alertFindings(failing)).toEqual([{ result: failing }]);
+    expect(alertKey(makeAlert())).toBe('Completeness:email');
+    expect(alertFindings(engine.validateRule(rows.slice(1, 2), { strategy: 'Completeness', column: 'email' }))).toEqual([]);
+  });
+
+  describe('filterAlerts', () => {
+    const alerts = [
+      makeAlert({ id: 'open', severity: 'warning', message: 'missing email values' }),
+      makeAlert({ id: 'ack', status: 'acknowledged', severity: 'critical', column: 'price', type: 'NumericalRange', owner: 'sam' }),
+      makeAlert({ id: 'snoozed', severity: 'warning', status: 'snoozed', snoozedUntil: new Date('2024-04-01T00:00:00Z') }),
+      makeAlert({ id: 'resolved', severity: 'info', status: 'resolved', resolutionNote: 'upstream fix' }),
+    ];
+    const ids = (filtered: Alert[]) => filtered.map((a) => a.id);
+
+    it('should show open and acknowledged alerts as active', () => {
+      expect(ids(filterAlerts(alerts, { status: 'active' }, now))).toEqual(['open', 'ack']);
+      expect(ids(filterAlerts(alerts, { status: 'all' }, now))).toHaveLength(4);
+      expect(ids(filterAlerts(alerts, { status: 'snoozed' }, now))).toEqual(['snoozed']);
+    });
+
+    it('should filter by severity, column and type', () => {
+      expect(ids(filterAlerts(alerts, { severity: 'critical' }, now))).toEqual(['ack']);
+      expect(ids(filterAlerts(alerts, { column: 'price' }, now))).toEqual(['ack']);
+      expect(ids(filterAlerts(alerts, { type: 'NumericalRange' }, now))).toEqual(['ack']);
+    });
+
+    it('should search message, owner and resolution note', () => {
+      expect(ids(filterAlerts(alerts, { search: 'SAM' }, now))).toEqual(['ack']);
+      expect(ids(filterAlerts(alerts, { search: 'upstream' }, now))).toEqual(['resolved']);
+    });
+  });
+});
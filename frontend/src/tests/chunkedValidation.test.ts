@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import { RowChunkReader, ValidationProgress, learnInChunks, reservoirSample, validateInChunks } from '../core/chunkedValidation';
+import {
+  OUTLIER_TAIL_SIZE,
+  ValidationConfig,
+  ValidationEngine,
+  allowedValuesLearner,
+  baselineLearner,
+  captureBaseline,
+  inferSchema,
+  learnAllowedValues,
+  schemaLearner,
+} from '../core/ValidationEngine';
+
+const rows = Array.from({ length: 103 }, (_, i) => ({
+  id: i,
+  orderId: i === 42 ? 'ORD-1025' : `ORD-${1000 + i}`,
+  email: i === 15 ? '' : `customer${i}@example.com`,
+  price: i === 87 ? 50000 : 100 + (i % 17),
+  status: ['completed', 'pending', 'shipped'][i % 3],
+}));
+
+const configs: ValidationConfig[] = [
+  { id: 'email', strategy: 'Completeness', column: 'email' },
+  { id: 'order', strategy: 'Uniqueness', column: 'orderId' },
+  { id: 'price', strategy: 'NumericalRange', column: 'price', threshold: 3 },
+  { id: 'price-iqr', strategy: 'NumericalRange', column: 'price', params: { method: 'iqr' } },
+  { id: 'status', strategy: 'AllowedValues', column: 'status', params: { allowedValues: ['completed', 'pending'] } },
+  { id: 'drift', strategy: 'Drift', column: 'price' },
+  { id: 'off', strategy: 'Completeness', column: 'id', enabled: false },
+];
+const context = { baselines: { price: captureBaseline(rows.slice(0, 50), 'price') } };
+
+const readerOf = (data: any[]): RowChunkReader => async (fromIndex, limit) => data.slice(fromIndex, fromIndex + limit);
+
+describe('validateInChunks', () => {
+  const expected = new ValidationEngine().validateAll(rows, configs, context);
+
+  it.each([1, 7, 100, 103, 5000])('should match the synchronous engine with chunks of %i rows', async (chunkSize) => {
+    const outcome = await validateInChunks(readerOf(rows), configs, context, { chunkSize });
+    expect(outcome.rowCount).toBe(rows.length);
+    expect(outcome.results).toEqual(expected);
+  });
+
+  it('should report loading and validating progress', async () => {
+    const events: ValidationProgress[] = [];
+    await validateInChunks(readerOf(rows), configs, context, {
+      chunkSize: 50,
+      totalRows: rows.length,
+      onProgress: (progress) => events.push(progress),
+    });
+
+    expect(events.filter((e) => e.phase === 'loading')).toEqual([
+      { phase: 'loading', done: 50, total: 103 },
+      { phase: 'loading', done: 100, total: 103 },
+      { phase: 'loading', done: 103, total: 103 },
+    ]);
+    const validating = events.filter((e) => e.phase === 'validating');
+    expect(validating[0]).toEqual({ phase: 'validating', done: 0, total: 6 });
+    expect(validating[validating.length - 1]).toEqual({ phase: 'validating', done: 6, total: 6 });
+  });
+
+  it('should stop with an AbortError when cancelled between chunks', async () => {
+    const controller = new AbortController();
+    let reads = 0;
+    const reader: RowChunkReader = async (fromIndex, limit) => {
+      reads++;
+      if (reads === 2) controller.abort();
+      return rows.slice(fromIndex, fromIndex + limit);
+    };
+
+    await expect(
+      validateInChunks(reader, configs, context, { chunkSize: 10, signal: controller.signal })
+    ).rejects.toMatchObject({ name: 'AbortError' });
+    expect(reads).toBe(2);
+  });
+
+  it('should handle an empty dataset', async () => {
+    const outcome = await validateInChunks(readerOf([]), [configs[0]], {}, { chunkSize: 10 });
+    expect(outcome.rowCount).toBe(0);
+    expect(outcome.results).toEqual(new ValidationEngine().validateAll([], [configs[0]]));
+  });
+
+  describe('streaming', () => {
+    it.each([1, 10, 5000])('should match the synchronous engine with chunks of %i rows', async (chunkSize) => {
+      const outcome = await validateInChunks(readerOf(rows), configs, context, { chunkSize, streaming: true });
+
+      expect(outcome.rowCount).toBe(rows.length);
+      expect(outcome.results).toHaveLength(expected.length);
+      outcome.results.forEach((result, index) => {
+        const exact = expected[index];
+        expect(result.ruleId).toBe(exact.ruleId);
+        expect(result.isValid).toBe(exact.isValid);
+        expect(result.failedRows).toEqual(exact.failedRows);
+        expect(result.severity).toBe(exact.severity);
+        expect(result.message).toBe(exact.message);
+        expect(result.failureRate).toBe(exact.failureRate);
+      });
+    });
+
+    it('should estimate outliers beyond the retained tails', async () => {
+      const wide = Array.from({ length: 20_000 }, (_, i) => ({ price: i % 10 === 0 || i % 10 === 5 ? 10_000 + i : 100 + (i % 7) }));
+      const outcome = await validateInChunks(
+        readerOf(wide),
+        [{ id: 'iqr', strategy: 'NumericalRange', column: 'price', params: { method: 'iqr' } }],
+        {},
+        { chunkSize: 1000, streaming: true }
+      );
+      const [result] = outcome.results;
+
+      expect(result.failedRows).toHaveLength(OUTLIER_TAIL_SIZE);
+      expect(result.message).toMatch(/^≈\d+ anomalies detected in price/);
+      const estimated = Number(result.message.match(/^≈(\d+)/)![1]);
+      expect(Math.abs(estimated - 4000)).toBeLessThan(400);
+      expect(result.severity).toBe('critical');
+    });
+  });
+});
+
+describe('learnInChunks', () => {
+  // A column, a gap and a category that only show up past the first chunks.
+  const late = [...rows, { id: 103, price: 120, status: 'cancelled', coupon: 'SPRING' }];
+
+  it.each([1, 7, 5000])('should learn what the whole-array helpers learn with chunks of %i rows', async (chunkSize) => {
+    const read = readerOf(late);
+    const { capturedAt: _at, ...baseline } = await learnInChunks(read, baselineLearner('price'), { chunkSize });
+    const { capturedAt: _expectedAt, ...expectedBaseline } = captureBaseline(late, 'price');
+
+    expect(await learnInChunks(read, schemaLearner(), { chunkSize })).toEqual(inferSchema(late));
+    expect(await learnInChunks(read, allowedValuesLearner('status'), { chunkSize })).toEqual(learnAllowedValues(late, 'status'));
+    expect(baseline).toEqual(expectedBaseline);
+  });
+
+  it('should learn from rows past the first chunk', async () => {
+    const schema = await learnInChunks(readerOf(late), schemaLearner(), { chunkSize: 10 });
+    expect(schema.find((column) => column.name === 'coupon')).toMatchObject({ nullable: true });
+    expect(schema.find((column) => column.name === 'orderId')).toMatchObject({ nullable: true });
+    expect(await learnInChunks(readerOf(late), allowedValuesLearner('status'), { chunkSize: 10 })).toContain('cancelled');
+  });
+
+  it('should keep evenly spaced quantiles of large numeric columns', async () => {
+    const many = Array.from({ length: 50_000 }, (_, i) => ({ amount: (i * 7919) % 50_000 }));
+    const baseline = await learnInChunks(readerOf(many), baselineLearner('amount'), { chunkSize: 5000 });
+    if (baseline.kind !== 'numeric') throw new Error('expected a numeric baseline');
+
+    expect(baseline.size).toBe(50_000);
+    expect(baseline.values).toHaveLength(10_000);
+    expect(baseline.values.every((value, i) => i === 0 || value >= baseline.values[i - 1])).toBe(true);
+    // Rank error of the default KLL sketch is under 2%.
+    expect(Math.abs(baseline.values[5000] - 25_000)).toBeLessThan(1000);
+  });
+
+  it('should sample rows from across the whole dataset', async () => {
+    const numbered = Array.from({ length: 20_000 }, (_, i) => ({ i, ...(i === 19_999 && { last: true }) }));
+    const sample = await learnInChunks(readerOf(numbered), reservoirSample(100), { chunkSize: 5000 });
+
+    expect(sample.rowCount).toBe(20_000);
+    expect(sample.columns).toEqual(['i', 'last']);
+    expect(sample.rows).toHaveLength(100);
+    const indices = sample.rows.map((row) => row.i as number);
+    expect(indices).toEqual([...indices].sort((a, b) => a - b));
+    expect(indices.some((i) => i >= 10_000)).toBe(true);
+  });
+
+  it('should keep every row of a dataset smaller than the sample', async () => {
+    const sample = await learnInChunks(readerOf(rows), reservoirSample(500), { chunkSize: 7 });
+    expect(sample.rows).toEqual(rows);
+  });
+});
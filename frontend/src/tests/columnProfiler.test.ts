@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { compareProfiles, profileDataset, profileLearner, textPattern } from '../core/columnProfiler';
+
+const rows = [
+  { orderId: 'ORD-1001', email: 'a@x.io', price: 10, orderDate: '2024-01-01', status: 'paid' },
+  { orderId: 'ORD-1002', email: '', price: 20, orderDate: '2024-01-05', status: 'paid' },
+  { orderId: 'ORD-1003', email: 'c@x.io', price: 30, orderDate: '2024-01-11', status: 'open' },
+  { orderId: 'X-1', email: 'd@x.io', price: 40, orderDate: '2024-01-03', status: 'paid' },
+];
+
+describe('columnProfiler', () => {
+  const profile = profileDataset('orders', rows);
+  const column = (name: string) => profile.columns.find((c) => c.name === name)!;
+
+  it('should profile every column', () => {
+    expect(profile.rowCount).toBe(4);
+    expect(profile.columns.map((c) => `${c.name}:${c.type}`)).toEqual([
+      'orderId:string',
+      'email:string',
+      'price:number',
+      'orderDate:date',
+      'status:string',
+    ]);
+  });
+
+  it('should count nulls, distinct and top values', () => {
+    expect(column('email')).toMatchObject({ nullCount: 1, nullRate: 0.25, distinctCount: 3 });
+    expect(column('status').topValues).toEqual([
+      { value: 'paid', count: 3 },
+      { value: 'open', count: 1 },
+    ]);
+  });
+
+  it('should describe numeric columns with quantiles and a histogram', () => {
+    const numeric = column('price').numeric!;
+    expect(numeric.min).toBe(10);
+    expect(numeric.max).toBe(40);
+    expect(numeric.percentiles.p50).toBe(25);
+    expect(numeric.histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(4);
+    expect(column('price').text).toBeUndefined();
+  });
+
+  it('should describe string lengths and character patterns', () => {
+    const text = column('orderId').text!;
+    expect(text).toMatchObject({ minLength: 3, maxLength: 8, avgLength: 6.75 });
+    expect(text.patterns).toEqual([{ pattern: 'A-9', count: 4 }]);
+    expect(textPattern('Jane Doe 42')).toBe('Aa Aa 9');
+    expect(textPattern('a.b@x.io')).toBe('a.a@a.a');
+  });
+
+  it('should give the range of date columns', () => {
+    expect(column('orderDate').dates).toEqual({
+      earliest: '2024-01-01T00:00:00.000Z',
+      latest: '2024-01-11T00:00:00.000Z',
+      spanDays: 10,
+    });
+  });
+
+  it('should give the same profile when fed chunk by chunk', () => {
+    const learner = profileLearner('orders');
+    learner.add(rows.slice(0, 1));
+    learner.add(rows.slice(1, 3));
+    learner.add(rows.slice(3));
+    const { capturedAt: _capturedAt, ...streamed } = learner.result();
+    const { capturedAt: _whole, ...whole } = profile;
+    expect(streamed).toEqual(whole);
+  });
+
+  it('should estimate percentiles and distinct counts on large columns', () => {
+    const large = Array.from({ length: 150_000 }, (_, i) => ({ id: i, amount: i % 1000 }));
+    const [id, amount] = profileDataset('large', large).columns;
+
+    expect(Math.abs(id.distinctCount / large.length - 1)).toBeLessThan(0.03);
+    expect(amount.distinctCount).toBe(1000);
+    expect(Math.abs(amount.numeric!.percentiles.p50 - 500)).toBeLessThan(30);
+    expect(amount.numeric!.histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(large.length);
+  });
+
+  it('should compare two profiles column by column', () => {
+    const later = profileDataset('orders', rows.map(({ status: _status, ...row }, i) => ({
+      ...row,
+      price: row.price * 3,
+      email: i === 0 ? '' : row.email,
+      coupon: 'SAVE10',
+    })));
+    const comparison = compareProfiles(profile, later);
+    const byColumn = new Map(comparison.map((c) => [c.column, c]));
+
+    expect(byColumn.get('orderId')!.change).toBe('unchanged');
+    expect(byColumn.get('coupon')!.change).toBe('added');
+    expect(byColumn.get('status')!.change).toBe('removed');
+    expect(byColumn.get('price')!.differences.map((d) => d.metric)).toEqual(['min', 'mean', 'median', 'max']);
+    expect(byColumn.get('email')!.differences).toContainEqual({ metric: 'null %', before: 25, after: 50 });
+    expect(comparison[comparison.length - 1].column).toBe('status');
+  });
+});
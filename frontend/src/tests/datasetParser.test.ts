@@ -0,0 +1,138 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  coerceValue,
+  csvDelimiter,
+  datasetNameFromFile,
+  detectFormat,
+  parseCSV,
+  parseJSON,
+  parseNDJSON,
+} from '../core/datasetParser';
+
+describe('datasetParser', () => {
+  describe('coerceValue', () => {
+    it('should coerce numbers, booleans and empty cells', () => {
+      expect(coerceValue('42')).toBe(42);
+      expect(coerceValue('-3.5')).toBe(-3.5);
+      expect(coerceValue('TRUE')).toBe(true);
+      expect(coerceValue('false')).toBe(false);
+      expect(coerceValue('  ')).toBeNull();
+    });
+
+    it('should keep zero-padded identifiers as strings', () => {
+      expect(coerceValue('00123')).toBe('00123');
+      expect(coerceValue('ORD-1025')).toBe('ORD-1025');
+      expect(coerceValue('  Lamp ')).toBe('Lamp');
+    });
+
+    it('should normalise dates to ISO strings', () => {
+      expect(coerceValue('2024-03-01T10:00:00Z')).toBe('2024-03-01T10:00:00.000Z');
+      expect(coerceValue('2024-03-01T10:00:00+02:00')).toBe('2024-03-01T08:00:00.000Z');
+      expect(coerceValue('2024-13-45')).toBe('2024-13-45');
+    });
+
+    describe('datetimes without a zone', () => {
+      const timezone = process.env.TZ;
+      afterEach(() => {
+        process.env.TZ = timezone;
+      });
+
+      it.each(['America/New_York', 'Asia/Tokyo', 'UTC'])('should read them as UTC in %s', (zone) => {
+        process.env.TZ = zone;
+        expect(coerceValue('2024-01-05 10:00')).toBe('2024-01-05T10:00:00.000Z');
+        expect(coerceValue('2024-01-05T23:30:15')).toBe('2024-01-05T23:30:15.000Z');
+        expect(coerceValue('2024-01-05')).toBe('2024-01-05T00:00:00.000Z');
+      });
+    });
+  });
+
+  describe('parseCSV', () => {
+    it('should parse quoted fields with delimiters, quotes and newlines', () => {
+      const csv = 'id,name,note\n1,"Monitor 27""","a, b"\n2,Lamp,"multi\nline"\n';
+      const result = parseCSV(csv);
+      expect(result.errors).toEqual([]);
+      expect(result.columns).toEqual(['id', 'name', 'note']);
+      expect(result.rows).toEqual([
+        { id: 1, name: 'Monitor 27"', note: 'a, b' },
+        { id: 2, name: 'Lamp', note: 'multi\nline' },
+      ]);
+    });
+
+    it('should report rows with the wrong number of fields', () => {
+      const result = parseCSV('a,b\r\n1,2\r\n3\r\n4,5,6\r\n7,8');
+      expect(result.rows.length).toBe(2);
+      expect(result.errors.map((e) => e.line)).toEqual([3, 4]);
+      expect(result.errors[0].message).toContain('Expected 2 fields');
+    });
+
+    it('should split .tsv files on tabs', () => {
+      const result = parseCSV('a\tb\n1\tx, y', { delimiter: csvDelimiter('orders.TSV') });
+      expect(result.rows).toEqual([{ a: 1, b: 'x, y' }]);
+      expect(csvDelimiter('orders.csv')).toBe(',');
+    });
+
+    it('should report an unterminated quote', () => {
+      const result = parseCSV('a,b\n1,"open');
+      expect(result.errors[0].message).toContain('Unterminated');
+    });
+  });
+
+  describe('parseJSON / parseNDJSON', () => {
+    it('should reject non-array JSON documents', () => {
+      const result = parseJSON('{"id": 1}');
+      expect(result.rows.length).toBe(0);
+      expect(result.errors[0].message).toContain('array');
+    });
+
+    it('should collect columns across JSON objects', () => {
+      const result = parseJSON('[{"a": 1}, {"b": true}, 3]');
+      expect(result.columns).toEqual(['a', 'b']);
+      expect(result.errors).toEqual([{ line: 1, message: 'Element 2 is not an object' }]);
+    });
+
+    it('should report the source line of elements that are not objects', () => {
+      const result = parseJSON('[\n  {"a": "x,\\"]"},\n\n  [1, 2],\n  {"a": 2}, "b"\n]');
+      expect(result.rows).toEqual([{ a: 'x,"]' }, { a: 2 }]);
+      expect(result.errors).toEqual([
+        { line: 4, message: 'Element 1 is not an object' },
+        { line: 5, message: 'Element 3 is not an object' },
+      ]);
+    });
+
+    it('should normalise dates the same way as CSV cells', () => {
+      const csv = parseCSV('id,orderDate,note\n1,2024-01-05 10:00,2024 sale\n2,2024-01-06T08:00:00+01:00,\n');
+      const lines = [
+        '{"id":1,"orderDate":"2024-01-05 10:00","note":"2024 sale"}',
+        '{"id":2,"orderDate":"2024-01-06T08:00:00+01:00","note":null}',
+      ];
+      const ndjson = parseNDJSON(lines.join('\n'));
+      const json = parseJSON(`[${lines.join(',')}]`);
+
+      expect(ndjson.rows).toEqual(csv.rows);
+      expect(json.rows).toEqual(csv.rows);
+      expect(csv.rows[1].orderDate).toBe('2024-01-06T07:00:00.000Z');
+    });
+
+    it('should report malformed NDJSON lines and skip blanks', () => {
+      const result = parseNDJSON('{"a":1}\n\n{"a":\n[1]\n{"a":2}');
+      expect(result.rows).toEqual([{ a: 1 }, { a: 2 }]);
+      expect(result.errors.map((e) => e.line)).toEqual([3, 4]);
+    });
+  });
+
+  describe('detectFormat', () => {
+    it('should prefer the file extension and fall back to content', () => {
+      expect(detectFormat('orders.jsonl', '')).toBe('ndjson');
+      expect(detectFormat('orders.csv', '[')).toBe('csv');
+      expect(detectFormat('export', '[{"a":1}]')).toBe('json');
+      expect(detectFormat('export', '{"a":1}')).toBe('ndjson');
+    });
+  });
+
+  describe('datasetNameFromFile', () => {
+    it('should drop the extension and normalise separators', () => {
+      expect(datasetNameFromFile('Orders 2024-Q1.csv')).toBe('orders_2024_q1');
+      expect(datasetNameFromFile('customers.ndjson')).toBe('customers');
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { ExpressionValue, evaluateExpression, parseExpression, referencedColumns } from '../core/expression';
+
+const env = { now: Date.parse('2024-03-10T12:00:00Z') };
+
+const evaluate = (source: string, row: Record<string, unknown> = {}): ExpressionValue => {
+  const { ast, error } = parseExpression(source);
+  if (!ast) throw new Error(error!.message);
+  return evaluateExpression(ast, row, env);
+};
+
+describe('expression', () => {
+  it('should follow operator precedence', () => {
+    expect(evaluate('1 + 2 * 3')).toBe(7);
+    expect(evaluate('(1 + 2) * 3')).toBe(9);
+    expect(evaluate('10 - 4 - 3')).toBe(3);
+    expect(evaluate('-2 * 3 < 0 && !false')).toBe(true);
+    expect(evaluate('1 < 2 == true')).toBe(true);
+    expect(evaluate("true or false and false")).toBe(true);
+  });
+
+  it('should read columns and compare them', () => {
+    const row = { status: 'shipped', quantity: 0, price: 25, 'ship date': '2024-03-02' };
+    expect(evaluate("status == 'shipped' implies quantity > 0", row)).toBe(false);
+    expect(evaluate("status == 'pending' implies quantity > 0", row)).toBe(true);
+    expect(evaluate('price * 4 <= 100', row)).toBe(true);
+    expect(evaluate("status in ('shipped', 'completed')", row)).toBe(true);
+    expect(evaluate('date(`ship date`) < now()', row)).toBe(true);
+    expect(evaluate("now() - date(`ship date`) > days(7)", row)).toBe(true);
+  });
+
+  it('should propagate nulls with three-valued logic', () => {
+    expect(evaluate('missing > 0')).toBeNull();
+    expect(evaluate('missing * 2')).toBeNull();
+    expect(evaluate('missing > 0 && false')).toBe(false);
+    expect(evaluate('missing > 0 || true')).toBe(true);
+    expect(evaluate('missing == null')).toBe(true);
+    expect(evaluate('isNull(missing) and coalesce(missing, 3) == 3')).toBe(true);
+    expect(evaluate('1 / 0')).toBeNull();
+    expect(evaluate("'a' < 1")).toBeNull();
+  });
+
+  it('should treat null as a value in equality', () => {
+    expect(evaluate("missing != 'cancelled'")).toBe(true);
+    expect(evaluate("missing == 'cancelled'")).toBe(false);
+    expect(evaluate("missing in ('cancelled')")).toBeNull();
+    expect(evaluate("isNull(status) or status != 'cancelled'", { status: 'cancelled' })).toBe(false);
+  });
+
+  it('should provide string functions', () => {
+    const row = { email: '  Ann@Example.COM ', sku: 'ORD-1001' };
+    expect(evaluate("lower(trim(email)) == 'ann@example.com'", row)).toBe(true);
+    expect(evaluate("startsWith(sku, 'ORD-') and length(sku) == 8", row)).toBe(true);
+    expect(evaluate("matches(sku, '^ORD-\\\\d{4}$')", row)).toBe(true);
+    expect(evaluate("contains(upper(email), 'EXAMPLE') and endsWith(sku, '01')", row)).toBe(true);
+    expect(evaluate("'#' + sku", row)).toBe('#ORD-1001');
+  });
+
+  it('should not reach anything outside the row', () => {
+    expect(evaluate('constructor == null', {})).toBe(true);
+    expect(evaluate('__proto__ == null', {})).toBe(true);
+    expect(parseExpression('status.length').error?.message).toBe('Unexpected character "."');
+    expect(parseExpression('eval(1)').error).toEqual({ message: 'Unknown function "eval"', position: 0 });
+    for (const name of ['__proto__', 'constructor', 'toString', 'hasOwnProperty']) {
+      expect(parseExpression(`${name}(1)`).error).toEqual({ message: `Unknown function "${name}"`, position: 0 });
+    }
+  });
+
+  it('should report syntax errors with their position', () => {
+    expect(parseExpression('quantity > ').error).toEqual({ message: 'Expected a value but the expression ended', position: 11 });
+    expect(parseExpression('price = 3').error).toEqual({ message: 'Use "==" to compare values', position: 6 });
+    expect(parseExpression('(a > 1').error).toEqual({ message: 'Expected ")" but the expression ended', position: 6 });
+    expect(parseExpression("name == 'x").error).toEqual({ message: 'Unterminated string', position: 8 });
+    expect(parseExpression('a b').error).toEqual({ message: 'Unexpected "b"', position: 2 });
+    expect(parseExpression('lower(a, b)').error?.message).toBe('lower(s) takes 1 argument, got 2');
+    expect(parseExpression("matches(a, '(')").error?.message).toBe('Invalid regular expression "("');
+    expect(parseExpression('  ').error?.message).toBe('Expression is empty');
+  });
+
+  it('should list the columns an expression reads', () => {
+    const { ast } = parseExpression("status == 'cancelled' implies isNull(shipDate) or date(shipDate) <= date(cancelledAt)");
+    expect(referencedColumns(ast!)).toEqual(['status', 'shipDate', 'cancelledAt']);
+  });
+});
@@ -0,0 +1,53 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeAll } from 'vitest';
+import { dataService } from '../core/MockDataService';
+import { flushOutbox } from '../core/notificationDispatcher';
+import { OutboxEntry, WebhookSender } from '../core/notifications';
+
+const now = new Date('2024-03-01T12:00:00Z');
+
+const queued = (alertId: string): Omit<OutboxEntry, 'id'> => ({
+  routeId: 'r1',
+  alertId,
+  dataset: 'orders',
+  event: 'opened',
+  url: 'http://example.invalid/hook',
+  body: JSON.stringify({ alertId }),
+  createdAt: now,
+  attempts: 0,
+  nextAttemptAt: now,
+});
+
+describe('notificationDispatcher', () => {
+  beforeAll(async () => {
+    await dataService.init();
+  });
+
+  it('should give a call made during a flush its own pass', async () => {
+    const sent: string[] = [];
+    let release!: () => void;
+    const held = new Promise<void>((resolve) => (release = resolve));
+    const slow: WebhookSender = async (_url, body) => {
+      sent.push(`slow:${JSON.parse(body).alertId}`);
+      await held;
+      return { status: 200 };
+    };
+    const fast: WebhookSender = async (_url, body) => {
+      sent.push(`fast:${JSON.parse(body).alertId}`);
+      return { status: 200 };
+    };
+
+    await dataService.enqueueNotifications([queued('a1')]);
+    const first = flushOutbox({ send: slow, now });
+    while (sent.length === 0) await new Promise((resolve) => setTimeout(resolve, 0));
+
+    await dataService.enqueueNotifications([queued('a2')]);
+    const second = flushOutbox({ send: fast, now });
+    release();
+
+    expect(await first).toBe(2);
+    expect(await second).toBe(2);
+    expect(sent).toEqual(['slow:a1', 'fast:a2']);
+    expect(await dataService.getOutbox()).toEqual([]);
+  });
+});
@@ -0,0 +1,197 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { Alert } from '../core/MockDataService';
+import {
+  BASE_BACKOFF_MS,
+  MAX_BACKOFF_MS,
+  MAX_DELIVERY_ATTEMPTS,
+  NotificationRoute,
+  OutboxEntry,
+  attemptDelivery,
+  backoffDelay,
+  notificationsFor,
+  postWebhook,
+  TEMPLATE_CONTENT_TYPES,
+  renderPayload,
+  routeMatches,
+} from '../core/notifications';
+
+const now = new Date('2024-03-01T12:00:00Z');
+
+const alert: Alert = {
+  id: 'a1',
+  dataset: 'orders',
+  ruleId: 'Completeness:email',
+  timestamp: now,
+  firstSeen: new Date('2024-02-28T12:00:00Z'),
+  occurrences: 3,
+  severity: 'critical',
+  type: 'Completeness',
+  message: '12 missing email values',
+  column: 'email',
+  affectedRows: 12,
+  status: 'open',
+};
+
+const route: NotificationRoute = {
+  id: 'r1',
+  name: '#data-oncall',
+  url: 'http://example.invalid/hook',
+  template: 'json',
+  enabled: true,
+  minSeverity: 'warning',
+  datasets: [],
+  columns: [],
+  sendResolved: false,
+};
+
+/** A local webhook endpoint that answers with scripted statuses and records what it received. */
+function webhookStandIn() {
+  const received: { body: string; contentType?: string }[] = [];
+  const statuses: number[] = [];
+  const server: Server = createServer((request, response) => {
+    let body = '';
+    request.on('data', (chunk) => (body += chunk));
+    request.on('end', () => {
+      received.push({ body, contentType: request.headers['content-type'] });
+      response.statusCode = statuses.shift() ?? 200;
+      response.end();
+    });
+  });
+  return {
+    received,
+    statuses,
+    server,
+    url: () => `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`,
+  };
+}
+
+describe('notifications', () => {
+  it('should route by severity, dataset, column and event', () => {
+    const opened = { event: 'opened' as const, alert };
+    expect(routeMatches(route, opened)).toBe(true);
+    expect(routeMatches({ ...route, enabled: false }, opened)).toBe(false);
+    expect(routeMatches(route, { ...opened, alert: { ...alert, severity: 'info' } })).toBe(false);
+    expect(routeMatches({ ...route, minSeverity: 'critical' }, opened)).toBe(true);
+    expect(routeMatches({ ...route, datasets: ['customers'] }, opened)).toBe(false);
+    expect(routeMatches({ ...route, datasets: ['customers', 'orders'], columns: ['email'] }, opened)).toBe(true);
+    expect(routeMatches({ ...route, columns: ['price'] }, opened)).toBe(false);
+    expect(routeMatches(route, { event: 'resolved', alert })).toBe(false);
+    expect(routeMatches({ ...route, sendResolved: true }, { event: 'resolved', alert })).toBe(true);
+  });
+
+  it('should render Slack and generic JSON payloads', () => {
+    const message = { event: 'escalated' as const, alert, previousSeverity: 'warning' as const };
+    const slack = renderPayload('slack', message, now) as { text: string; attachments: { color: string; ts: number }[] };
+    expect(slack.text).toBe('*Escalated critical alert* (was warning) on `orders.email`: 12 missing email values');
+    expect(slack.attachments[0]).toMatchObject({ color: '#dc2626', ts: now.getTime() / 1000 });
+
+    expect(renderPayload('json', message, now)).toEqual({
+      event: 'escalated',
+      timestamp: '2024-03-01T12:00:00.000Z',
+      previousSeverity: 'warning',
+      alert: {
+        id: 'a1',
+        dataset: 'orders',
+        ruleId: 'Completeness:email',
+        type: 'Completeness',
+        column: 'email',
+        severity: 'critical',
+        message: '12 missing email values',
+        affectedRows: 12,
+        occurrences: 3,
+        status: 'open',
+        firstSeen: '2024-02-28T12:00:00.000Z',
+        lastSeen: '2024-03-01T12:00:00.000Z',
+      },
+    });
+  });
+
+  it('should queue one entry per matching route', () => {
+    const slackRoute = { ...route, id: 'r2', template: 'slack' as const };
+    const entries = notificationsFor([route, slackRoute, { ...route, id: 'r3', columns: ['price'] }], { event: 'opened', alert }, now);
+    expect(entries.map((entry) => entry.routeId)).toEqual(['r1', 'r2']);
+    expect(entries[0]).toMatchObject({ alertId: 'a1', dataset: 'orders', attempts: 0, nextAttemptAt: now });
+    expect(JSON.parse(entries[1].body).text).toContain('New critical alert');
+  });
+
+  it('should only send the generic template as JSON, so Slack needs no CORS preflight', () => {
+    const [json, slack] = notificationsFor([route, { ...route, id: 'r2', template: 'slack' }], { event: 'opened', alert }, now);
+    expect(json.contentType).toBe('application/json');
+    expect(slack.contentType).toBe(TEMPLATE_CONTENT_TYPES.slack);
+    expect(slack.contentType).toMatch(/^text\/plain/);
+  });
+
+  it('should back off exponentially up to a cap', () => {
+    expect(backoffDelay(1)).toBe(BASE_BACKOFF_MS);
+    expect(backoffDelay(2)).toBe(BASE_BACKOFF_MS * 2);
+    expect(backoffDelay(4)).toBe(BASE_BACKOFF_MS * 8);
+    expect(backoffDelay(20)).toBe(MAX_BACKOFF_MS);
+  });
+
+  describe('delivery against a local webhook', () => {
+    const standIn = webhookStandIn();
+    let entry: OutboxEntry;
+
+    beforeAll(async () => {
+      await new Promise<void>((resolve) => standIn.server.listen(0, '127.0.0.1', resolve));
+      const [queued] = notificationsFor([{ ...route, url: standIn.url() }], { event: 'opened', alert }, now);
+      entry = { ...queued, id: 'o1' };
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => standIn.server.close(resolve));
+    });
+
+    it('should retry server errors and deliver once the endpoint recovers', async () => {
+      standIn.statuses.push(503);
+      const first = await attemptDelivery(entry, postWebhook, now);
+      expect(first.log).toMatchObject({ outboxId: 'o1', attempt: 1, outcome: 'retrying', status: 503, error: 'HTTP 503' });
+      expect(first.entry).toMatchObject({ attempts: 1, lastError: 'HTTP 503' });
+      expect(first.entry!.nextAttemptAt.getTime()).toBe(now.getTime() + BASE_BACKOFF_MS);
+
+      const second = await attemptDelivery(first.entry!, postWebhook, now);
+      expect(second.entry).toBeNull();
+      expect(second.log).toMatchObject({ attempt: 2, outcome: 'delivered', status: 200 });
+
+      expect(standIn.received).toHaveLength(2);
+      expect(standIn.received[1].contentType).toBe('application/json');
+      expect(JSON.parse(standIn.received[1].body).alert.id).toBe('a1');
+    });
+
+    it('should send each template with its own content type', async () => {
+      const [slack] = notificationsFor([{ ...route, url: standIn.url(), template: 'slack' }], { event: 'opened', alert }, now);
+      await attemptDelivery({ ...slack, id: 'o2' }, postWebhook, now);
+      await attemptDelivery({ ...entry, contentType: undefined }, postWebhook, now);
+
+      const [sentSlack, sentLegacy] = standIn.received.slice(-2);
+      expect(sentSlack.contentType).toBe('text/plain;charset=UTF-8');
+      expect(JSON.parse(sentSlack.body).text).toContain('New critical alert');
+      expect(sentLegacy.contentType).toBe('application/json');
+    });
+
+    it('should give up on refusals that retrying cannot fix', async () => {
+      standIn.statuses.push(404);
+      const result = await attemptDelivery(entry, postWebhook, now);
+      expect(result.entry).toBeNull();
+      expect(result.log).toMatchObject({ outcome: 'failed', status: 404 });
+    });
+
+    it('should give up after the last attempt', async () => {
+      standIn.statuses.push(500);
+      const result = await attemptDelivery({ ...entry, attempts: MAX_DELIVERY_ATTEMPTS - 1 }, postWebhook, now);
+      expect(result.entry).toBeNull();
+      expect(result.log).toMatchObject({ attempt: MAX_DELIVERY_ATTEMPTS, outcome: 'failed' });
+    });
+
+    it('should keep entries for endpoints that cannot be reached', async () => {
+      const unreachable = { ...entry, url: 'http://127.0.0.1:1/hook' };
+      const result = await attemptDelivery(unreachable, postWebhook, now);
+      expect(result.log.outcome).toBe('retrying');
+      expect(result.log.status).toBeUndefined();
+      expect(result.entry?.lastError).toBeTruthy();
+    });
+  });
+});
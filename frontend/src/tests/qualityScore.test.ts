@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { dimensionOf, rulePassRate, scoreQuality } from '../core/qualityScore';
+import { ValidationConfig, ValidationEngine, ValidationResult } from '../core/ValidationEngine';
+
+const engine = new ValidationEngine();
+
+const data = [
+  { orderId: 'A', email: 'a@x.io', status: 'paid' },
+  { orderId: 'B', email: '', status: 'paid' },
+  { orderId: 'C', email: 'c@x.io', status: 'lost' },
+  { orderId: 'D', email: 'not-an-email', status: 'shipped' },
+];
+
+const score = (rules: ValidationConfig[], weights = {}) => scoreQuality(rules, engine.validateAll(data, rules), weights);
+
+describe('qualityScore', () => {
+  const completeness: ValidationConfig = { id: 'c', strategy: 'Completeness', column: 'email' };
+  const uniqueness: ValidationConfig = { id: 'u', strategy: 'Uniqueness', column: 'orderId' };
+
+  it('should map strategies to dimensions unless the rule overrides it', () => {
+    expect(dimensionOf(completeness)).toBe('completeness');
+    expect(dimensionOf({ strategy: 'NumericalRange', column: 'price' })).toBe('accuracy');
+    expect(dimensionOf({ strategy: 'Drift', column: 'price' })).toBe('consistency');
+    expect(dimensionOf({ strategy: 'Freshness', column: 'orderDate' })).toBe('timeliness');
+    expect(dimensionOf({ ...completeness, dimension: 'timeliness' })).toBe('timeliness');
+    expect(dimensionOf({ strategy: 'Custom', column: 'x' })).toBe('validity');
+  });
+
+  it('should score each dimension by its pass rate', () => {
+    const result = score([completeness, uniqueness]);
+    expect(result.dimensions).toEqual([
+      { dimension: 'completeness', score: 75, weight: 1, rules: 1 },
+      { dimension: 'uniqueness', score: 100, weight: 1, rules: 1 },
+    ]);
+    expect(result.score).toBe(87.5);
+  });
+
+  it('should weight dimensions', () => {
+    expect(score([completeness, uniqueness], { completeness: 3 }).score).toBe(81.25);
+    expect(score([completeness, uniqueness], { completeness: 0 }).score).toBe(100);
+  });
+
+  it('should weight rules within a dimension', () => {
+    const format: ValidationConfig = { id: 'f', strategy: 'Format', column: 'email', params: { format: 'email' }, weight: 3 };
+    const allowed: ValidationConfig = {
+      id: 'a',
+      strategy: 'AllowedValues',
+      column: 'status',
+      params: { allowedValues: ['paid', 'shipped', 'lost'] },
+    };
+    const result = score([format, allowed]);
+    // Format passes 2 of the 3 present emails, AllowedValues passes everything.
+    expect(result.dimensions).toHaveLength(1);
+    expect(result.dimensions[0].rules).toBe(2);
+    expect(result.score).toBeCloseTo(((2 / 3) * 3 + 1) / 4 * 100);
+  });
+
+  it('should skip rules that evaluated nothing and score an empty run as 100', () => {
+    const drift: ValidationConfig = { id: 'd', strategy: 'Drift', column: 'email' };
+    expect(score([drift]).dimensions).toEqual([]);
+    expect(score([drift]).score).toBe(100);
+    expect(scoreQuality([], []).score).toBe(100);
+  });
+
+  it('should fail dataset-level checks outright', () => {
+    const result: ValidationResult = {
+      ruleId: 'd',
+      strategy: 'Drift',
+      column: 'price',
+      isValid: false,
+      failedRows: [],
+      message: 'Distribution drifted',
+      severity: 'critical',
+      evaluatedRows: 100,
+      failureRate: 0,
+    };
+    expect(rulePassRate(result)).toBe(0);
+    expect(rulePassRate({ ...result, severity: 'warning' })).toBe(0.5);
+    expect(rulePassRate({ ...result, isValid: true })).toBe(1);
+  });
+
+  it('should not fail clean rows over informational dataset-level findings', () => {
+    const orders = Array.from({ length: 1000 }, (_, n) => ({ customerId: `C${n % 10}`, status: n % 2 ? 'paid' : 'shipped' }));
+    const customers = Array.from({ length: 11 }, (_, n) => ({ id: `C${n}` }));
+    const rules: ValidationConfig[] = [
+      { id: 'a', strategy: 'AllowedValues', column: 'status', params: { allowedValues: ['paid', 'shipped', 'cancelled'] } },
+      {
+        id: 'r',
+        strategy: 'ReferentialIntegrity',
+        column: 'customerId',
+        params: { referenceDataset: 'customers', referenceColumn: 'id', checkReverse: true },
+      },
+    ];
+    const results = engine.validateAll(orders, rules, { datasets: { customers } });
+
+    expect(results.map((r) => [r.isValid, r.severity])).toEqual([[false, 'info'], [false, 'info']]);
+    expect(scoreQuality(rules, results).score).toBe(100);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { ValidationRun } from '../core/MockDataService';
+import { describeFindings, indexFindings, rowsForAlert, rowsForRule } from '../core/rowFindings';
+import { ValidationEngine } from '../core/ValidationEngine';
+
+describe('rowFindings', () => {
+  const engine = new ValidationEngine();
+  const data = [
+    { orderId: 'ORD-1', email: 'a@x.io', price: 100 },
+    { orderId: 'ORD-2', email: '', price: 120 },
+    { orderId: 'ORD-1', email: 'c@x.io', price: 110 },
+    { orderId: 'ORD-4', email: 'd@x.io', price: 9000 },
+    { orderId: 'ORD-5', email: 'e@x.io', price: 105 },
+  ];
+  const results = engine.validateAll(data, [
+    { id: 'email', strategy: 'Completeness', column: 'email' },
+    { id: 'dupes', strategy: 'Uniqueness', column: 'orderId' },
+    { id: 'price', strategy: 'NumericalRange', column: 'price', params: { method: 'iqr' } },
+  ]);
+
+  it('should index exactly the cells each rule flagged', () => {
+    const findings = indexFindings(results);
+
+    expect(Array.from(findings.keys()).sort()).toEqual([0, 1, 2, 3]);
+    expect(findings.get(1)!.get('email')!.map((f) => f.ruleId)).toEqual(['email']);
+    expect(findings.get(0)!.get('orderId')!.map((f) => f.ruleId)).toEqual(['dupes']);
+    // A price under the old hardcoded 10000 cut-off is still flagged.
+    expect(findings.get(3)!.get('price')![0].score).toBeGreaterThan(1.5);
+    expect(findings.has(4)).toBe(false);
+  });
+
+  it('should mark every column of a composite key', () => {
+    const composite = engine.validateAll(
+      [{ a: 1, b: 2 }, { a: 1, b: 2 }],
+      [{ id: 'ab', strategy: 'Uniqueness', column: 'a', params: { columns: ['a', 'b'] } }]
+    );
+    const findings = indexFindings(composite);
+    expect(Array.from(findings.get(1)!.keys())).toEqual(['a', 'b']);
+  });
+
+  it('should mark every column an expression reads', () => {
+    const findings = indexFindings(engine.validateAll(
+      [{ status: 'shipped', quantity: 0 }],
+      [{ id: 'expr', strategy: 'Expression', column: 'status', params: { expression: "status == 'shipped' implies quantity > 0" } }]
+    ));
+    expect(Array.from(findings.get(0)!.keys())).toEqual(['status', 'quantity']);
+  });
+
+  it('should mark the column each schema violation is about', () => {
+    const schema = [
+      { name: 'id', type: 'number' as const, nullable: false },
+      { name: 'email', type: 'string' as const, nullable: false },
+    ];
+    const findings = indexFindings(engine.validateAll(
+      [{ id: 1, email: '' }, { id: 'two', email: 'b@x.io' }],
+      [{ id: 'schema', strategy: 'Schema', column: '*', params: { schema } }]
+    ));
+    expect(Array.from(findings.get(0)!.keys())).toEqual(['email']);
+    expect(Array.from(findings.get(1)!.keys())).toEqual(['id']);
+  });
+
+  it('should list the rows a rule flagged', () => {
+    expect(rowsForRule(results, 'dupes')).toEqual([0, 2]);
+    expect(rowsForRule(results, 'missing-rule')).toEqual([]);
+  });
+
+  it("should list the rows of the alert's own run and violation", () => {
+    const schema = [
+      { name: 'id', type: 'number' as const, nullable: false },
+      { name: 'email', type: 'string' as const, nullable: false },
+    ];
+    const schemaRule = { id: 'schema', strategy: 'Schema', column: '*', params: { schema } };
+    const run = (id: string, rows: any[]): ValidationRun => ({
+      id,
+      dataset: 'orders',
+      startedAt: new Date(),
+      finishedAt: new Date(),
+      rowCount: rows.length,
+      dqScore: 0,
+      rules: [schemaRule],
+      results: engine.validateAll(rows, [schemaRule]),
+    });
+    const runs = [
+      run('run-1', [{ id: 1, email: '' }, { id: 'two', email: 'b@x.io' }, { id: 3, email: '' }]),
+      run('run-2', [{ id: 1, email: 'a@x.io' }, { id: 2, email: '' }]),
+    ];
+
+    expect(rowsForAlert(runs, { ruleId: 'schema', violation: 'nullability', runId: 'run-1' })).toEqual({
+      run: runs[0],
+      latest: false,
+      rows: [0, 2],
+    });
+    expect(rowsForAlert(runs, { ruleId: 'schema', violation: 'type', runId: 'run-1' }).rows).toEqual([1]);
+    expect(rowsForAlert(runs, { ruleId: 'schema', violation: 'nullability', runId: 'run-2' })).toMatchObject({ latest: true, rows: [1] });
+    expect(rowsForAlert(runs, { ruleId: 'schema', violation: 'type', runId: 'run-2' }).rows).toEqual([]);
+    expect(rowsForAlert(runs, { ruleId: 'schema', violation: 'nullability' })).toEqual({ run: null, latest: false, rows: [] });
+    expect(rowsForAlert([{ ...runs[0], results }], { ruleId: 'dupes', runId: 'run-1' }).rows).toEqual([0, 2]);
+  });
+
+  it('should name the rule and score in tooltips', () => {
+    const findings = indexFindings(results);
+    const price = describeFindings(findings.get(3)!.get('price')!, new Map([['price', 'Anomaly Detection: price']]));
+    expect(price).toMatch(/^Anomaly Detection: price \(\w+, score \d+\.\d{2}\): /);
+
+    const email = describeFindings(findings.get(1)!.get('email')!);
+    expect(email).toContain('Completeness (critical, 20.0% of rows failing)');
+  });
+});
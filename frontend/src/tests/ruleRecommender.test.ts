@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { profileDataset } from '../core/columnProfiler';
+import { MAX_SUGGESTED_CATEGORIES, recommendRules } from '../core/ruleRecommender';
+
+const statuses = ['completed', 'pending', 'shipped'];
+const rows = Array.from({ length: 100 }, (_, i) => ({
+  orderId: `ORD-${1000 + i}`,
+  email: i === 15 ? '' : `customer${i}@example.com`,
+  price: 100 + (i % 50) * 4,
+  status: statuses[i % 3],
+  paid: i % 2 === 0 ? 'yes' : 'no',
+}));
+const profile = profileDataset('orders', rows, { topN: MAX_SUGGESTED_CATEGORIES });
+const byId = (suggestions: ReturnType<typeof recommendRules>) => new Map(suggestions.map((s) => [s.id, s]));
+
+describe('recommendRules', () => {
+  const suggestions = recommendRules(profile);
+  const found = byId(suggestions);
+
+  it('should suggest completeness only for fully populated columns', () => {
+    expect(found.has('Completeness:orderId')).toBe(true);
+    expect(found.has('Completeness:email')).toBe(false);
+    expect(found.get('Completeness:orderId')!.reason).toBe('No missing values in a sample of 100 rows');
+  });
+
+  it('should suggest uniqueness for identifier-like columns', () => {
+    const uniqueness = found.get('Uniqueness:orderId')!;
+    expect(uniqueness.confidence).toBeGreaterThan(0.75);
+    expect(uniqueness.reason).toContain('looks like an identifier');
+    // `paid` ends in "id" but repeats, and is not an identifier either way.
+    expect(found.has('Uniqueness:paid')).toBe(false);
+  });
+
+  it('should suggest allowed values for low-cardinality strings', () => {
+    expect(found.get('AllowedValues:status')!.config.params!.allowedValues).toEqual(statuses);
+    expect(found.get('AllowedValues:paid')!.config.params!.allowedValues).toEqual(['no', 'yes']);
+    expect(found.has('AllowedValues:orderId')).toBe(false);
+  });
+
+  it('should suggest bounds widened from the observed quantiles', () => {
+    const range = found.get('NumericalRange:price')!;
+    const { min, max, method } = range.config.params!;
+    expect(method).toBe('bounds');
+    expect(min).toBeGreaterThanOrEqual(0);
+    expect(min).toBeLessThan(100);
+    expect(max).toBeGreaterThan(296);
+  });
+
+  it('should suggest format checks from format hints', () => {
+    expect(found.get('Format:email')!.config.params).toEqual({ format: 'email' });
+  });
+
+  it('should order by confidence and carry scores between 0 and 1', () => {
+    const confidences = suggestions.map((s) => s.confidence);
+    expect([...confidences].sort((a, b) => b - a)).toEqual(confidences);
+    confidences.forEach((c) => {
+      expect(c).toBeGreaterThan(0);
+      expect(c).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it('should skip covered columns and dismissed suggestions', () => {
+    const remaining = byId(recommendRules(profile, [{ strategy: 'Uniqueness', column: 'orderId' }], ['Format:email']));
+    expect(remaining.has('Uniqueness:orderId')).toBe(false);
+    expect(remaining.has('Format:email')).toBe(false);
+    expect(remaining.has('Completeness:orderId')).toBe(true);
+  });
+
+  it('should earn more confidence from more rows', () => {
+    const small = byId(recommendRules(profileDataset('orders', rows.slice(0, 10)))).get('Completeness:orderId')!;
+    expect(small.confidence).toBeLessThan(found.get('Completeness:orderId')!.confidence);
+  });
+});
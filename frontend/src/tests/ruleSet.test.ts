@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { ValidationRule } from '../core/MockDataService';
+import { parseRuleSet, serializeRuleSet } from '../core/ruleSet';
+import { ValidationEngine } from '../core/ValidationEngine';
+
+describe('ruleSet', () => {
+  const strategies = new ValidationEngine().getStrategyNames();
+
+  it('should round-trip an exported rule set', () => {
+    const rules = [
+      { id: 'r1', strategy: 'Completeness', column: 'email', enabled: true },
+      { id: 'r2', strategy: 'NumericalRange', column: 'price', threshold: 3, enabled: false },
+    ];
+    const result = parseRuleSet(serializeRuleSet('orders', rules), strategies);
+    expect(result.errors).toEqual([]);
+    expect(result.dataset).toBe('orders');
+    expect(result.rules).toEqual(rules);
+  });
+
+  it('should drop storage-only fields on export', () => {
+    const stored: ValidationRule = {
+      id: 'r1',
+      strategy: 'Uniqueness',
+      column: 'orderId',
+      dataset: 'orders',
+      enabled: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    const json = serializeRuleSet('orders', [stored]);
+    expect(json).not.toContain('createdAt');
+    expect(json).not.toContain('updatedAt');
+    expect(JSON.parse(json).rules[0]).toEqual({ id: 'r1', strategy: 'Uniqueness', column: 'orderId', enabled: true });
+  });
+
+  it('should accept a bare array and report invalid rules', () => {
+    const result = parseRuleSet(
+      JSON.stringify([
+        { strategy: 'Completeness', column: 'email' },
+        { strategy: 'Bogus', column: 'email' },
+        { strategy: 'NumericalRange', column: 'price', threshold: 'high' },
+        { strategy: 'Uniqueness' },
+      ]),
+      strategies
+    );
+    expect(result.rules).toEqual([{ strategy: 'Completeness', column: 'email', enabled: true }]);
+    expect(result.errors).toEqual([
+      'Rule 2: unknown strategy "Bogus"',
+      'Rule 3: threshold must be a number',
+      'Rule 4: missing column',
+    ]);
+  });
+
+  it('should round-trip score weights and dimensions and reject bad ones', () => {
+    const rules = [{ id: 'r1', strategy: 'Completeness', column: 'email', enabled: true, weight: 2, dimension: 'timeliness' as const }];
+    expect(parseRuleSet(serializeRuleSet('orders', rules), strategies).rules).toEqual(rules);
+
+    const result = parseRuleSet(
+      JSON.stringify([
+        { strategy: 'Completeness', column: 'email', weight: -1 },
+        { strategy: 'Completeness', column: 'email', dimension: 'freshness' },
+      ]),
+      strategies
+    );
+    expect(result.errors).toEqual(['Rule 1: weight must be a non-negative number', 'Rule 2: unknown dimension "freshness"']);
+  });
+
+  it('should round-trip severity thresholds and escalation and reject bad ones', () => {
+    const rules = [
+      {
+        id: 'r1',
+        strategy: 'Format',
+        column: 'email',
+        params: { format: 'email', severity: { unit: 'count' as const, warning: 0, critical: 10 } },
+        enabled: true,
+        escalation: [{ afterRuns: 3, severity: 'critical' as const }],
+      },
+    ];
+    expect(parseRuleSet(serializeRuleSet('orders', rules), strategies).rules).toEqual(rules);
+
+    const result = parseRuleSet(
+      JSON.stringify([
+        { strategy: 'Completeness', column: 'email', params: { severity: { unit: 'percent', warning: 5 } } },
+        { strategy: 'Completeness', column: 'email', escalation: [{ afterRuns: 0, severity: 'critical' }] },
+      ]),
+      strategies
+    );
+    expect(result.errors).toEqual([
+      'Rule 1: params.severity needs a unit of "rate" or "count" and non-negative warning/critical cut-offs',
+      'Rule 2: escalation must be a list of { afterRuns, severity } steps',
+    ]);
+  });
+
+  it('should reject malformed documents', () => {
+    expect(parseRuleSet('{', strategies).errors[0]).toContain('Invalid JSON');
+    expect(parseRuleSet('{"rules": {}}', strategies).errors).toEqual(['Expected a "rules" array']);
+    expect(parseRuleSet('{"version": 99, "rules": []}', strategies).errors[0]).toContain('Unsupported');
+  });
+});
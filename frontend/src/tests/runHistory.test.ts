@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { ValidationRun } from '../core/MockDataService';
+import { buildRunTrend, compareRuns } from '../core/runHistory';
+import { ValidationConfig, ValidationEngine } from '../core/ValidationEngine';
+
+const engine = new ValidationEngine();
+
+const makeRun = (id: string, startedAt: string, data: any[], rules: ValidationConfig[]): ValidationRun => {
+  const results = engine.validateAll(data, rules);
+  return {
+    id,
+    dataset: 'orders',
+    startedAt: new Date(startedAt),
+    finishedAt: new Date(startedAt),
+    rowCount: data.length,
+    dqScore: 100 - results.filter((r) => !r.isValid).length,
+    rules,
+    results,
+  };
+};
+
+describe('runHistory', () => {
+  const email: ValidationConfig = { id: 'r-email', strategy: 'Completeness', column: 'email' };
+  const orderId: ValidationConfig = { id: 'r-order', strategy: 'Uniqueness', column: 'orderId' };
+
+  const clean = [
+    { orderId: 'A', email: 'a@x.io' },
+    { orderId: 'B', email: 'b@x.io' },
+  ];
+  const broken = [
+    { orderId: 'A', email: '' },
+    { orderId: 'A', email: 'b@x.io' },
+  ];
+
+  it('should build one chart point per run with failure rates in percent', () => {
+    const runs = [
+      makeRun('1', '2024-01-01T00:00:00Z', clean, [email]),
+      makeRun('2', '2024-01-02T00:00:00Z', broken, [email, orderId]),
+    ];
+    const trend = buildRunTrend(runs);
+
+    expect(trend.rules.map((r) => r.id)).toEqual(['r-email', 'r-order']);
+    expect(trend.points[0]).toEqual({ runId: '1', startedAt: Date.parse('2024-01-01T00:00:00Z'), dqScore: 100, 'r-email': 0 });
+    expect(trend.points[1]['r-email']).toBe(50);
+    expect(trend.points[1]['r-order']).toBe(100);
+  });
+
+  it('should classify how each rule changed between two runs', () => {
+    const before = makeRun('1', '2024-01-01T00:00:00Z', broken, [email, orderId]);
+    const after = makeRun('2', '2024-01-02T00:00:00Z', clean, [email, { ...orderId, params: { trim: true } }]);
+    const changes = Object.fromEntries(compareRuns(before, after).map((c) => [c.ruleId, c]));
+
+    expect(changes['r-email'].change).toBe('fixed');
+    expect(changes['r-email'].configChanged).toBe(false);
+    expect(changes['r-order'].configChanged).toBe(true);
+    expect(compareRuns(after, before).find((c) => c.ruleId === 'r-email')!.change).toBe('regressed');
+  });
+
+  it('should report rules present in only one run', () => {
+    const before = makeRun('1', '2024-01-01T00:00:00Z', clean, [email]);
+    const after = makeRun('2', '2024-01-02T00:00:00Z', clean, [orderId]);
+    const changes = compareRuns(before, after);
+
+    expect(changes.find((c) => c.ruleId === 'r-email')).toMatchObject({ change: 'removed', after: undefined });
+    expect(changes.find((c) => c.ruleId === 'r-order')).toMatchObject({ change: 'added', before: undefined });
+  });
+
+  it('should compare failure rates of rules failing in both runs', () => {
+    const worse = [...broken, { orderId: 'C', email: '' }, { orderId: 'D', email: '' }];
+    const before = makeRun('1', '2024-01-01T00:00:00Z', broken, [email]);
+    const after = makeRun('2', '2024-01-02T00:00:00Z', worse, [email]);
+
+    expect(compareRuns(before, after)[0].change).toBe('worsened');
+    expect(compareRuns(after, before)[0].change).toBe('improved');
+    expect(compareRuns(before, before)[0].change).toBe('unchanged');
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { FrequentItems, HyperLogLog, KllSketch, RunningStats } from '../core/sketches';
+import { describeColumn, generateDistributionData, percentile } from '../core/statsUtils';
+import { UniquenessStrategy } from '../core/ValidationEngine';
+
+// Small LCG so the fixtures are the same on every run.
+const lcg = (seed: number) => () => {
+  seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+  return seed / 4294967296;
+};
+
+const normals = (count: number, seed = 1) => {
+  const random = lcg(seed);
+  return Array.from({ length: count }, () => {
+    const u = random() || 1e-12;
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random()) * 15 + 100;
+  });
+};
+
+describe('sketches', () => {
+  describe('RunningStats', () => {
+    it('should match the exact moments', () => {
+      const values = normals(5000);
+      const running = new RunningStats();
+      values.forEach((value) => running.push(value));
+      const exact = describeColumn(values);
+
+      expect(running.count).toBe(5000);
+      expect(running.mean).toBeCloseTo(exact.mean, 9);
+      expect(running.variance).toBeCloseTo(exact.variance, 6);
+      expect(running.sampleVariance).toBeCloseTo(exact.sampleVariance, 6);
+      expect(running.skewness).toBeCloseTo(exact.skewness, 9);
+      expect(running.kurtosis).toBeCloseTo(exact.kurtosis, 9);
+      expect(running.min).toBe(exact.min);
+      expect(running.max).toBe(exact.max);
+    });
+
+    it('should report zero spread for a single value', () => {
+      const running = new RunningStats();
+      running.push(7);
+      expect(running.variance).toBe(0);
+      expect(running.sampleVariance).toBe(0);
+      expect(running.skewness).toBe(0);
+    });
+  });
+
+  describe('KllSketch', () => {
+    it('should be exact before the first compaction', () => {
+      const values = normals(150);
+      const sketch = new KllSketch();
+      values.forEach((value) => sketch.update(value));
+
+      expect(sketch.isExact).toBe(true);
+      [5, 25, 50, 75, 99].forEach((p) => expect(sketch.quantile(p / 100)).toBe(percentile(values, p)));
+    });
+
+    it('should keep rank error within 2% on 100k values', () => {
+      const values = normals(100_000, 7);
+      const sketch = new KllSketch();
+      values.forEach((value) => sketch.update(value));
+      const sorted = [...values].sort((a, b) => a - b);
+      const trueRank = (value: number) => {
+        let lo = 0;
+        let hi = sorted.length;
+        while (lo < hi) {
+          const mid = (lo + hi) >> 1;
+          if (sorted[mid] <= value) lo = mid + 1;
+          else hi = mid;
+        }
+        return lo / sorted.length;
+      };
+
+      expect(sketch.isExact).toBe(false);
+      expect(sketch.weightedItems().length).toBeLessThan(1000);
+      [0.01, 0.1, 0.25, 0.5, 0.75, 0.9, 0.99].forEach((p) => {
+        expect(Math.abs(trueRank(sketch.quantile(p)) - p)).toBeLessThan(0.02);
+      });
+      expect(Math.abs(sketch.rank(sorted[30_000]) - 0.3)).toBeLessThan(0.02);
+    });
+
+    it('should return NaN when empty', () => {
+      expect(new KllSketch().quantile(0.5)).toBeNaN();
+    });
+  });
+
+  describe('HyperLogLog', () => {
+    it('should count small sets exactly enough', () => {
+      const hll = new HyperLogLog();
+      ['a', 'b', 'c', 'a', 'b'].forEach((value) => hll.add(value));
+      expect(hll.count()).toBe(3);
+    });
+
+    it('should estimate 100k distinct values within 3%', () => {
+      const hll = new HyperLogLog();
+      for (let i = 0; i < 100_000; i++) {
+        hll.add(`key-${i}`);
+        hll.add(`key-${i % 1000}`);
+      }
+      expect(Math.abs(hll.count() / 100_000 - 1)).toBeLessThan(0.03);
+      expect(hll.standardError).toBeCloseTo(0.0081, 4);
+    });
+
+    it('should tell numbers and strings apart', () => {
+      const hll = new HyperLogLog();
+      hll.add(1);
+      hll.add('1');
+      expect(hll.count()).toBe(2);
+    });
+  });
+
+  describe('FrequentItems', () => {
+    it('should count exactly within its capacity', () => {
+      const items = new FrequentItems(3);
+      ['b', 'a', 'b', 'c', 'b', 'a'].forEach((item) => items.add(item));
+      expect(items.isExact).toBe(true);
+      expect(items.top(2)).toEqual([{ value: 'b', count: 3 }, { value: 'a', count: 2 }]);
+    });
+
+    it('should keep heavy hitters among many rare items', () => {
+      const items = new FrequentItems(10);
+      for (let i = 0; i < 10_000; i++) items.add(i % 4 === 0 ? 'paid' : `rare-${i}`);
+      const [top] = items.top(1);
+      expect(items.isExact).toBe(false);
+      expect(top.value).toBe('paid');
+      expect(2500 - top.count).toBeLessThanOrEqual(10_000 / 11);
+    });
+  });
+
+  describe('UniquenessStrategy past the exact key limit', () => {
+    it('should estimate repeats once the key map is full', () => {
+      const rows = Array.from({ length: 5000 }, (_, i) => ({ id: i % 4000 }));
+      const strategy = new UniquenessStrategy(100);
+      const accumulator = strategy.stream('id');
+      accumulator.add(rows.slice(0, 2500), 0);
+      accumulator.add(rows.slice(2500), 2500);
+      const result = accumulator.result(rows.length);
+
+      expect(result.isValid).toBe(false);
+      expect(result.message).toMatch(/^≈\d+ repeated id values estimated over 5000 keyed rows/);
+      const repeats = Number(result.message.match(/^≈(\d+)/)![1]);
+      expect(Math.abs(repeats - 1000)).toBeLessThan(100);
+      // Repeats of keys still in the map are confirmed exactly.
+      expect(result.failedRows).toHaveLength(200);
+      expect(result.message).toContain('200 rows confirmed');
+    });
+  });
+
+  describe('generateDistributionData', () => {
+    it('should handle columns too large to spread into Math.min', () => {
+      const values = Array.from({ length: 300_000 }, (_, i) => i % 1000);
+      const histogram = generateDistributionData(values, 10);
+      expect(histogram).toHaveLength(10);
+      expect(histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(300_000);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import {
+  binCounts,
+  calculateStats,
+  chiSquareSurvival,
+  chiSquareTest,
+  describeColumn,
+  detectDrift,
+  jensenShannonDivergence,
+  kolmogorovSmirnov,
+  percentile,
+  populationStabilityIndex,
+  sharedBinEdges,
+  variance,
+} from '../core/statsUtils';
+
+describe('statsUtils', () => {
+  describe('calculateStats', () => {
+    it('should interpolate the median and quartiles of even-length input', () => {
+      const stats = calculateStats([4, 1, 3, 2]);
+      expect(stats.median).toBe(2.5);
+      expect(stats.q1).toBe(1.75);
+      expect(stats.q3).toBe(3.25);
+      expect(stats.min).toBe(1);
+      expect(stats.max).toBe(4);
+    });
+
+    it('should keep population standard deviation', () => {
+      expect(calculateStats([1, 2, 3, 4]).stdDev).toBeCloseTo(Math.sqrt(1.25));
+    });
+
+    it('should return zeros for empty input', () => {
+      expect(calculateStats([])).toEqual({ mean: 0, median: 0, stdDev: 0, min: 0, max: 0, q1: 0, q3: 0 });
+    });
+  });
+
+  describe('percentile', () => {
+    it('should interpolate arbitrary percentiles', () => {
+      const values = [1, 2, 3, 4];
+      expect(percentile(values, 0)).toBe(1);
+      expect(percentile(values, 100)).toBe(4);
+      expect(percentile(values, 95)).toBeCloseTo(3.85);
+    });
+
+    it('should return the only value for a single-element input', () => {
+      expect(percentile([7], 5)).toBe(7);
+      expect(percentile([7], 99)).toBe(7);
+    });
+  });
+
+  describe('variance', () => {
+    it('should distinguish population and sample variance', () => {
+      expect(variance([1, 2, 3, 4])).toBeCloseTo(1.25);
+      expect(variance([1, 2, 3, 4], true)).toBeCloseTo(5 / 3);
+    });
+
+    it('should return 0 when the sample is too small', () => {
+      expect(variance([5], true)).toBe(0);
+      expect(variance([])).toBe(0);
+    });
+  });
+
+  describe('describeColumn', () => {
+    it('should count nulls, non-numeric values and distinct values', () => {
+      const stats = describeColumn([1, 2, 2, null, undefined, '', NaN, 'n/a', 3]);
+      expect(stats.count).toBe(4);
+      expect(stats.nullCount).toBe(3);
+      expect(stats.nanCount).toBe(2);
+      expect(stats.distinctCount).toBe(5);
+      expect(stats.mean).toBe(2);
+    });
+
+    it('should report the default percentiles', () => {
+      const values = Array.from({ length: 101 }, (_, i) => i);
+      const stats = describeColumn(values);
+      expect(stats.percentiles).toEqual({ p5: 5, p25: 25, p50: 50, p75: 75, p95: 95, p99: 99 });
+      expect(stats.median).toBe(stats.percentiles.p50);
+    });
+
+    it('should measure skewness and excess kurtosis', () => {
+      const symmetric = describeColumn([1, 2, 3, 4]);
+      expect(symmetric.skewness).toBeCloseTo(0);
+      expect(symmetric.kurtosis).toBeCloseTo(-1.36);
+
+      expect(describeColumn([1, 2, 3, 10]).skewness).toBeGreaterThan(1);
+      expect(describeColumn([10, 17, 18, 19]).skewness).toBeLessThan(-1);
+    });
+
+    it('should handle all-equal input without NaN', () => {
+      const stats = describeColumn([5, 5, 5, 5]);
+      expect(stats.stdDev).toBe(0);
+      expect(stats.sampleVariance).toBe(0);
+      expect(stats.skewness).toBe(0);
+      expect(stats.kurtosis).toBe(0);
+      expect(stats.distinctCount).toBe(1);
+      expect(stats.percentiles.p99).toBe(5);
+    });
+
+    it('should handle a single value', () => {
+      const stats = describeColumn([42], [50]);
+      expect(stats).toMatchObject({ mean: 42, median: 42, min: 42, max: 42, variance: 0, sampleVariance: 0, skewness: 0 });
+      expect(stats.percentiles).toEqual({ p50: 42 });
+    });
+
+    it('should return zeroed statistics when no value is numeric', () => {
+      const stats = describeColumn([null, 'x']);
+      expect(stats.count).toBe(0);
+      expect(stats.mean).toBe(0);
+      expect(stats.percentiles.p95).toBe(0);
+    });
+  });
+
+  describe('drift metrics', () => {
+    const range = (from: number, count: number) => Array.from({ length: count }, (_, i) => from + i);
+
+    it('should bin both samples on the same edges', () => {
+      const edges = sharedBinEdges([0, 10], [20], 4);
+      expect(edges).toEqual([0, 5, 10, 15, 20]);
+      expect(binCounts([0, 10], edges)).toEqual([1, 0, 1, 0]);
+      expect(binCounts([20], edges)).toEqual([0, 0, 0, 1]);
+    });
+
+    it('should see no KL drift between identical samples', () => {
+      expect(detectDrift(range(0, 50), range(0, 50))).toBeCloseTo(0);
+      expect(detectDrift(range(0, 50), range(100, 50))).toBeGreaterThan(1);
+    });
+
+    it('should compute PSI over matching bins', () => {
+      expect(populationStabilityIndex([0.5, 0.5], [0.5, 0.5])).toBe(0);
+      expect(populationStabilityIndex([0.5, 0.5], [0.7, 0.3])).toBeCloseTo(0.2 * Math.log(1.4) - 0.2 * Math.log(0.6));
+      expect(isFinite(populationStabilityIndex([1, 0], [0, 1]))).toBe(true);
+    });
+
+    it('should bound Jensen-Shannon divergence to [0, 1]', () => {
+      expect(jensenShannonDivergence([0.3, 0.7], [0.3, 0.7])).toBe(0);
+      expect(jensenShannonDivergence([1, 0], [0, 1])).toBeCloseTo(1);
+    });
+
+    it('should run a two-sample Kolmogorov-Smirnov test', () => {
+      const same = kolmogorovSmirnov(range(0, 100), range(0, 100));
+      expect(same.statistic).toBe(0);
+      expect(same.pValue).toBe(1);
+
+      const shifted = kolmogorovSmirnov(range(0, 100), range(50, 100));
+      expect(shifted.statistic).toBeCloseTo(0.5);
+      expect(shifted.pValue).toBeLessThan(0.001);
+    });
+
+    it('should compute chi-square p-values', () => {
+      expect(chiSquareSurvival(3.841, 1)).toBeCloseTo(0.05, 3);
+      expect(chiSquareSurvival(5.991, 2)).toBeCloseTo(0.05, 3);
+      expect(chiSquareSurvival(0, 3)).toBe(1);
+
+      expect(chiSquareTest([50, 50], [50, 50]).pValue).toBeCloseTo(1);
+      const changed = chiSquareTest([50, 50, 0], [10, 50, 40]);
+      expect(changed.degreesOfFreedom).toBe(2);
+      expect(changed.pValue).toBeLessThan(0.001);
+    });
+  });
+});
@@ -1,5 +1,18 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { ValidationEngine } from '../core/ValidationEngine';
+import {
+  CategoryDetails,
+  DriftDetails,
+  ExpressionDetails,
+  FreshnessDetails,
+  OrphanDetails,
+  OutlierDetails,
+  SchemaDetails,
+  ValidationEngine,
+  captureBaseline,
+  gradeSeverity,
+  inferSchema,
+  learnAllowedValues,
+} from '../core/ValidationEngine';
 
 describe('ValidationEngine - Strategy Pattern', () => {
   let engine: ValidationEngine;
@@ -50,6 +63,49 @@ describe('ValidationEngine - Strategy Pattern', () => {
       const result = engine.validate('NumericalRange', normalData, 'price', 3);
       expect(result.isValid).toBe(true);
     });
+
+    it('should not divide by zero when every value is equal', () => {
+      const flat = [{ price: 5 }, { price: 5 }, { price: 5 }];
+      const result = engine.validate('NumericalRange', flat, 'price');
+      expect(result.isValid).toBe(true);
+      expect(result.message).not.toContain('NaN');
+    });
+
+    it('should flag the masked outlier with IQR fences where z-score misses it', () => {
+      expect(engine.validate('NumericalRange', testData, 'price', 3).isValid).toBe(true);
+
+      const result = engine.validate('NumericalRange', testData, 'price', undefined, { method: 'iqr' });
+      expect(result.failedRows).toEqual([3]);
+      const details = result.details as OutlierDetails;
+      expect(details.bounds).toEqual({ lower: 50, upper: 210 });
+      expect(details.scores).toEqual([{ row: 3, value: 50000, score: (50000 - 150) / 40 }]);
+      expect(result.message).toContain('outside IQR fences [50.00, 210.00]');
+    });
+
+    it('should flag outliers by modified z-score using the median absolute deviation', () => {
+      const result = engine.validate('NumericalRange', testData, 'price', undefined, { method: 'mad' });
+      expect(result.failedRows).toEqual([3]);
+      const details = result.details as OutlierDetails;
+      expect(details.center).toBe(120);
+      expect(details.scale).toBe(20);
+      expect(details.threshold).toBe(3.5);
+    });
+
+    it('should fall back to mean absolute deviation when MAD is zero', () => {
+      const data = [10, 10, 10, 10, 10, 11, 500].map((price) => ({ price }));
+      const result = engine.validate('NumericalRange', data, 'price', undefined, { method: 'mad' });
+      expect(result.failedRows).toEqual([6]);
+    });
+
+    it('should check explicit min/max bounds', () => {
+      const result = engine.validate('NumericalRange', testData, 'price', undefined, {
+        method: 'bounds',
+        min: 110,
+        max: 10000,
+      });
+      expect(result.failedRows).toEqual([0, 3]);
+      expect((result.details as OutlierDetails).scores.map((s) => s.score)).toEqual([10, 40000]);
+    });
   });
 
   describe('UniquenessStrategy', () => {
@@ -69,6 +125,444 @@ describe('ValidationEngine - Strategy Pattern', () => {
       expect(result.isValid).toBe(true);
       expect(result.failedRows.length).toBe(0);
     });
+
+    it('should report each duplicate group with its row indices', () => {
+      const result = engine.validate('Uniqueness', testData, 'orderId');
+      expect(result.details).toEqual({
+        kind: 'duplicates',
+        columns: ['orderId'],
+        groups: [{ key: ['A2'], rows: [1, 4] }],
+      });
+    });
+
+    it('should detect duplicates over a composite key', () => {
+      const orders = [
+        { customerId: 'C1', orderDate: '2024-01-01', productName: 'Lamp' },
+        { customerId: 'C1', orderDate: '2024-01-01', productName: 'Mouse' },
+        { customerId: 'C1', orderDate: '2024-01-01', productName: 'Lamp' },
+      ];
+      const result = engine.validate('Uniqueness', orders, 'customerId', undefined, {
+        columns: ['customerId', 'orderDate', 'productName'],
+      });
+      expect(result.failedRows).toEqual([0, 2]);
+      expect(result.message).toContain('(customerId, orderDate, productName)');
+    });
+
+    it('should normalise whitespace and case when configured', () => {
+      const data = [{ orderId: 'ORD-1025 ' }, { orderId: 'ord-1025' }, { orderId: 'ORD-1026' }];
+      expect(engine.validate('Uniqueness', data, 'orderId').isValid).toBe(true);
+      expect(engine.validate('Uniqueness', data, 'orderId', undefined, { trim: true }).isValid).toBe(true);
+
+      const result = engine.validate('Uniqueness', data, 'orderId', undefined, { trim: true, caseInsensitive: true });
+      expect(result.failedRows).toEqual([0, 1]);
+    });
+
+    it('should treat nulls as distinct unless configured otherwise', () => {
+      const data = [{ a: 1, b: null }, { a: 1, b: null }, { a: 1, b: 2 }];
+      const params = { columns: ['a', 'b'] };
+      expect(engine.validate('Uniqueness', data, 'a', undefined, params).isValid).toBe(true);
+
+      const result = engine.validate('Uniqueness', data, 'a', undefined, { ...params, nulls: 'equal' });
+      expect(result.failedRows).toEqual([0, 1]);
+    });
+  });
+
+  describe('FormatStrategy', () => {
+    it('should flag malformed emails and skip empty values', () => {
+      const data = [...testData, { id: 6, email: 'not-an-email', price: 90, orderId: 'A6' }];
+      const result = engine.validate('Format', data, 'email', undefined, { format: 'email' });
+      expect(result.isValid).toBe(false);
+      expect(result.failedRows).toEqual([5]);
+      expect(result.evaluatedRows).toBe(5);
+      expect(result.message).toContain('"not-an-email"');
+    });
+
+    it('should validate against a custom regex from the rule config', () => {
+      const data = [{ orderId: 'ORD-1001' }, { orderId: 'ORD-XYZ' }, { orderId: 'ORD-1002' }];
+      const result = engine.validate('Format', data, 'orderId', undefined, { pattern: '^ORD-\\d{4}$' });
+      expect(result.failedRows).toEqual([1]);
+      expect(result.message).toContain('"ORD-XYZ"');
+    });
+
+    it('should support the built-in uuid, iso8601, e164 and url formats', () => {
+      const check = (format: string, values: string[]) =>
+        engine.validate('Format', values.map((v) => ({ v })), 'v', undefined, { format }).failedRows;
+
+      expect(check('uuid', ['123e4567-e89b-12d3-a456-426614174000', '123e4567'])).toEqual([1]);
+      expect(check('iso8601', ['2024-01-05T10:00:00.000Z', '2024-02-30x', '05/01/2024'])).toEqual([1, 2]);
+      expect(check('e164', ['+14155552671', '4155552671', '+0123'])).toEqual([1, 2]);
+      expect(check('url', ['https://example.com/a', 'ftp://example.com', 'example'])).toEqual([1, 2]);
+    });
+
+    it('should report misconfigured rules instead of throwing', () => {
+      const unknown = engine.validate('Format', testData, 'email', undefined, { format: 'postcode' });
+      expect(unknown.isValid).toBe(false);
+      expect(unknown.message).toContain('unknown format');
+
+      const badRegex = engine.validate('Format', testData, 'email', undefined, { pattern: '(' });
+      expect(badRegex.message).toContain('Invalid format rule');
+    });
+  });
+
+  describe('AllowedValuesStrategy', () => {
+    const orders = [
+      { status: 'completed' },
+      { status: 'shipped' },
+      { status: 'refunded' },
+      { status: 'Shipped' },
+      { status: 'refunded' },
+      { status: null },
+    ];
+
+    it('should count unexpected categories and list vanished ones separately', () => {
+      const result = engine.validate('AllowedValues', orders, 'status', undefined, {
+        allowedValues: ['completed', 'shipped', 'pending'],
+      });
+      expect(result.isValid).toBe(false);
+      expect(result.failedRows).toEqual([2, 3, 4]);
+      expect(result.evaluatedRows).toBe(5);
+      expect(result.details).toEqual({
+        kind: 'categories',
+        unexpected: [{ value: 'refunded', count: 2 }, { value: 'Shipped', count: 1 }],
+        vanished: ['pending'],
+      });
+      expect(result.message).toContain('"refunded" (2)');
+      expect(result.message).toContain('no longer occur: "pending"');
+    });
+
+    it('should match case-insensitively when configured', () => {
+      const result = engine.validate('AllowedValues', orders, 'status', undefined, {
+        allowedValues: ['COMPLETED', 'Shipped', 'Refunded'],
+        caseInsensitive: true,
+      });
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should learn the domain from a baseline snapshot', () => {
+      const allowedValues = learnAllowedValues(orders.slice(0, 2), 'status');
+      expect(allowedValues).toEqual(['completed', 'shipped']);
+
+      const result = engine.validate('AllowedValues', orders, 'status', undefined, { allowedValues });
+      expect((result.details as CategoryDetails).unexpected.map((u) => u.value)).toEqual(['refunded', 'Shipped']);
+    });
+
+    it('should warn when no domain is configured', () => {
+      const result = engine.validate('AllowedValues', orders, 'status');
+      expect(result.severity).toBe('warning');
+      expect(result.message).toContain('No allowed values');
+    });
+  });
+
+  describe('ReferentialIntegrityStrategy', () => {
+    const customers = [{ id: 'C1' }, { id: 'C2' }, { id: 'C3' }];
+    const orders = [
+      { customerId: 'C1' },
+      { customerId: 'C9' },
+      { customerId: 'C2' },
+      { customerId: 'C9' },
+      { customerId: null },
+    ];
+    const context = { datasets: { customers } };
+
+    it('should report orphan rows with their values', () => {
+      const result = engine.validateRule(orders, {
+        strategy: 'ReferentialIntegrity',
+        column: 'customerId',
+        params: { referenceDataset: 'customers', referenceColumn: 'id' },
+      }, context);
+
+      expect(result.isValid).toBe(false);
+      expect(result.failedRows).toEqual([1, 3]);
+      expect(result.evaluatedRows).toBe(4);
+      expect(result.severity).toBe('critical');
+      expect(result.message).toContain('missing from customers.id: "C9" (2)');
+      expect((result.details as OrphanDetails).unreferenced).toBeUndefined();
+    });
+
+    it('should optionally report parents that nothing references', () => {
+      const result = engine.validateRule(orders.slice(0, 3).filter((o) => o.customerId !== 'C9'), {
+        strategy: 'ReferentialIntegrity',
+        column: 'customerId',
+        params: { referenceDataset: 'customers', referenceColumn: 'id', checkReverse: true },
+      }, context);
+
+      expect(result.isValid).toBe(false);
+      expect(result.failedRows).toEqual([]);
+      expect(result.severity).toBe('info');
+      expect((result.details as OrphanDetails).unreferenced).toEqual(['C3']);
+    });
+
+    it('should warn when the referenced dataset was not loaded', () => {
+      const result = engine.validateRule(orders, {
+        strategy: 'ReferentialIntegrity',
+        column: 'customerId',
+        params: { referenceDataset: 'customers' },
+      });
+      expect(result.severity).toBe('warning');
+      expect(result.message).toContain('not available');
+    });
+  });
+
+  describe('DriftStrategy', () => {
+    const amounts = (offset: number) => Array.from({ length: 200 }, (_, i) => ({ amount: offset + (i % 50) }));
+    const statuses = (counts: Record<string, number>) =>
+      Object.entries(counts).flatMap(([status, count]) => Array.from({ length: count }, () => ({ status })));
+
+    it('should warn when no baseline has been saved', () => {
+      const result = engine.validate('Drift', amounts(0), 'amount');
+      expect(result.isValid).toBe(false);
+      expect(result.severity).toBe('warning');
+      expect(result.message).toContain('No drift baseline');
+    });
+
+    it('should capture numeric and categorical baselines', () => {
+      const numeric = captureBaseline([...amounts(0), { amount: null }], 'amount');
+      expect(numeric.kind).toBe('numeric');
+      expect(numeric.size).toBe(200);
+
+      const categorical = captureBaseline(statuses({ paid: 3, open: 1 }), 'status');
+      expect(categorical).toMatchObject({ kind: 'categorical', counts: { paid: 3, open: 1 } });
+    });
+
+    it('should pass when the column still matches its baseline', () => {
+      const baselines = { amount: captureBaseline(amounts(0), 'amount') };
+      const result = engine.validateRule(amounts(0), { strategy: 'Drift', column: 'amount' }, { baselines });
+      expect(result.isValid).toBe(true);
+      expect((result.details as DriftDetails).value).toBe(0);
+    });
+
+    it('should raise a PSI alert for a shifted distribution', () => {
+      const baselines = { amount: captureBaseline(amounts(0), 'amount') };
+      const result = engine.validateRule(amounts(40), { strategy: 'Drift', column: 'amount' }, { baselines });
+      const details = result.details as DriftDetails;
+
+      expect(result.isValid).toBe(false);
+      expect(result.severity).toBe('critical');
+      expect(details.metric).toBe('psi');
+      expect(details.bins).toHaveLength(10);
+      expect(result.message).toContain('amount distribution drifted from baseline (PSI=');
+    });
+
+    it('should compare numeric columns with the KS test and Jensen-Shannon', () => {
+      const baselines = { amount: captureBaseline(amounts(0), 'amount') };
+
+      const ks = engine.validateRule(amounts(10), { strategy: 'Drift', column: 'amount', params: { metric: 'ks' } }, { baselines });
+      expect(ks.isValid).toBe(false);
+      expect((ks.details as DriftDetails).pValue).toBeLessThan(0.05);
+
+      const js = engine.validateRule(
+        amounts(1),
+        { strategy: 'Drift', column: 'amount', threshold: 0.5, params: { metric: 'js' } },
+        { baselines }
+      );
+      expect(js.isValid).toBe(true);
+    });
+
+    it('should use chi-square for categorical baselines', () => {
+      const baselines = { status: captureBaseline(statuses({ paid: 80, open: 20 }), 'status') };
+
+      const stable = engine.validateRule(statuses({ paid: 78, open: 22 }), { strategy: 'Drift', column: 'status' }, { baselines });
+      expect(stable.isValid).toBe(true);
+      expect((stable.details as DriftDetails).metric).toBe('chi2');
+
+      const shifted = engine.validateRule(
+        statuses({ paid: 40, open: 30, refunded: 30 }),
+        { strategy: 'Drift', column: 'status' },
+        { baselines }
+      );
+      expect(shifted.isValid).toBe(false);
+      expect((shifted.details as DriftDetails).bins.map((b) => b.label)).toEqual(['open', 'paid', 'refunded']);
+    });
+
+    it('should reject the KS test on a categorical baseline', () => {
+      const baselines = { status: captureBaseline(statuses({ paid: 1 }), 'status') };
+      const result = engine.validateRule(statuses({ paid: 1 }), { strategy: 'Drift', column: 'status', params: { metric: 'ks' } }, { baselines });
+      expect(result.severity).toBe('warning');
+      expect(result.message).toContain('needs a numeric baseline');
+    });
+  });
+
+  describe('SchemaStrategy', () => {
+    const orders = [
+      { orderId: 'ORD-1', email: 'a@x.io', price: 10, orderDate: '2024-01-02', note: null },
+      { orderId: 'ORD-2', email: 'b@x.io', price: 12.5, orderDate: '2024-01-03T10:00:00Z', note: 'gift' },
+    ];
+    const schema = inferSchema(orders);
+    const check = (data: any[], allowNewColumns?: boolean) =>
+      engine.validateRule(data, { strategy: 'Schema', column: '*', params: { schema, allowNewColumns } });
+
+    it('should infer types, nullability and format hints', () => {
+      expect(schema).toEqual([
+        { name: 'orderId', type: 'string', nullable: false },
+        { name: 'email', type: 'string', nullable: false, format: 'email' },
+        { name: 'price', type: 'number', nullable: false },
+        { name: 'orderDate', type: 'date', nullable: false },
+        { name: 'note', type: 'string', nullable: true },
+      ]);
+      expect(inferSchema([{ id: 1 }, { id: 'x' }, { id: null }])).toEqual([{ name: 'id', type: 'any', nullable: true }]);
+    });
+
+    it('should pass data that matches the contract', () => {
+      const result = check(orders);
+      expect(result.isValid).toBe(true);
+      expect(result.message).toBe('All 2 rows match the 5-column schema contract');
+    });
+
+    it('should flag type changes such as prices arriving as strings', () => {
+      const result = check([orders[0], { ...orders[1], price: '12.50' }]);
+      const details = result.details as SchemaDetails;
+
+      expect(result.isValid).toBe(false);
+      expect(result.severity).toBe('critical');
+      expect(result.failedRows).toEqual([1]);
+      expect(details.violations).toEqual([{ kind: 'type', column: 'price', expected: 'number', actual: ['string'], rows: [1] }]);
+      expect(result.message).toContain('price expected number, got string in 1 rows');
+    });
+
+    it('should flag missing and unexpected columns', () => {
+      const renamed = orders.map(({ email, ...row }) => ({ ...row, emailAddress: email }));
+      const result = check(renamed);
+      const kinds = (result.details as SchemaDetails).violations.map((v) => `${v.kind}:${v.column}`);
+
+      expect(kinds).toEqual(['missing:email', 'unexpected:emailAddress']);
+      expect(result.severity).toBe('critical');
+      expect(check(orders.map((row) => ({ ...row, coupon: 'X' })), true).isValid).toBe(true);
+    });
+
+    it('should warn on empty values in non-nullable columns', () => {
+      const result = check([orders[0], { ...orders[1], email: '' }]);
+      expect(result.severity).toBe('warning');
+      expect((result.details as SchemaDetails).violations).toEqual([{ kind: 'nullability', column: 'email', rows: [1] }]);
+      expect(result.failureRate).toBe(0.5);
+    });
+
+    it('should warn when no contract has been captured', () => {
+      const result = engine.validate('Schema', orders, '*');
+      expect(result.severity).toBe('warning');
+      expect(result.message).toContain('No schema contract');
+    });
+  });
+
+  describe('FreshnessStrategy', () => {
+    const now = new Date('2024-03-10T12:00:00Z');
+    const orders = [
+      { orderDate: '2024-03-08T09:00:00Z' },
+      { orderDate: '2024-03-09T18:00:00Z' },
+      { orderDate: '2024-03-10T06:00:00Z' },
+    ];
+    const check = (data: any[], threshold?: number, params = {}) =>
+      engine.validateRule(data, { strategy: 'Freshness', column: 'orderDate', threshold, params }, { now });
+
+    it('should pass data within the SLA', () => {
+      const result = check(orders);
+      expect(result.isValid).toBe(true);
+      expect(result.message).toBe('Latest orderDate is 6.0 hours old, within the 24.0 hours SLA');
+      expect((result.details as FreshnessDetails).latest).toBe('2024-03-10T06:00:00.000Z');
+    });
+
+    it('should grade stale data by how late it is', () => {
+      const stale = check(orders, 4);
+      expect(stale.isValid).toBe(false);
+      expect(stale.severity).toBe('warning');
+      expect(stale.failedRows).toEqual([]);
+      expect(stale.message).toContain('2.0 hours past the 4.0 hours SLA');
+      expect(check(orders, 2).severity).toBe('critical');
+    });
+
+    it('should fail future-dated and unparseable rows', () => {
+      const result = check([...orders, { orderDate: '2024-03-11T00:00:00Z' }, { orderDate: 'yesterday' }, { orderDate: '' }]);
+      const details = result.details as FreshnessDetails;
+
+      expect(result.failedRows).toEqual([3, 4]);
+      expect(result.evaluatedRows).toBe(5);
+      expect(result.severity).toBe('critical');
+      expect(details.futureRows).toBe(1);
+      expect(details.unparseableRows).toBe(1);
+      expect(check([...orders, { orderDate: '2024-03-11T00:00:00Z' }], undefined, { maxFutureHours: 24 }).isValid).toBe(true);
+    });
+
+    it('should report days without rows when daily coverage is on', () => {
+      const gappy = [{ orderDate: '2024-03-05T10:00:00Z' }, ...orders];
+      const result = check(gappy, undefined, { dailyCoverage: true });
+
+      expect(result.isValid).toBe(false);
+      expect(result.severity).toBe('warning');
+      expect((result.details as FreshnessDetails).missingDays).toEqual(['2024-03-06', '2024-03-07']);
+      expect(check(gappy).isValid).toBe(true);
+    });
+
+    it('should stream to the same result', () => {
+      const stream = engine.createStream([{ strategy: 'Freshness', column: 'orderDate', threshold: 4 }], { now });
+      stream.push(orders.slice(0, 2));
+      stream.push(orders.slice(2));
+      expect(stream.finish()[0].message).toBe(check(orders, 4).message);
+    });
+  });
+
+  describe('ExpressionStrategy', () => {
+    const orders = [
+      { status: 'shipped', quantity: 2, price: 10 },
+      { status: 'shipped', quantity: 0, price: 10 },
+      { status: 'pending', quantity: 0, price: 10 },
+      { status: 'shipped', quantity: null, price: 10 },
+    ];
+    const check = (expression: string) => engine.validateRule(orders, { strategy: 'Expression', column: 'status', params: { expression } });
+
+    it('should fail rows where the expression is false and skip unknown ones', () => {
+      const result = check("status == 'shipped' implies quantity > 0");
+      const details = result.details as ExpressionDetails;
+
+      expect(result.failedRows).toEqual([1]);
+      expect(result.evaluatedRows).toBe(3);
+      expect(details.columns).toEqual(['status', 'quantity']);
+      expect(details.unknownRows).toBe(1);
+      expect(result.message).toBe("1 rows (33.3%) violate status == 'shipped' implies quantity > 0 (1 rows could not be evaluated)");
+    });
+
+    it('should pass when every row satisfies the expression', () => {
+      const result = check('price * coalesce(quantity, 0) < 100');
+      expect(result.isValid).toBe(true);
+      expect(result.message).toBe('All 4 rows satisfy price * coalesce(quantity, 0) < 100');
+    });
+
+    it('should warn about invalid or missing expressions without evaluating', () => {
+      const invalid = check('quantity >');
+      expect(invalid.severity).toBe('warning');
+      expect(invalid.evaluatedRows).toBe(0);
+      expect(invalid.message).toBe('Invalid expression at column 11: Expected a value but the expression ended');
+      expect(check('').message).toBe('No expression configured for status');
+    });
+  });
+
+  describe('severity thresholds', () => {
+    it('should grade failures by rate or count', () => {
+      const rate = { unit: 'rate' as const, warning: 0.01, critical: 0.1 };
+      expect(gradeSeverity(0, 100, rate)).toBe('info');
+      expect(gradeSeverity(1, 100, rate)).toBe('info');
+      expect(gradeSeverity(2, 100, rate)).toBe('warning');
+      expect(gradeSeverity(11, 100, rate)).toBe('critical');
+      expect(gradeSeverity(5, 0, rate)).toBe('info');
+
+      const count = { unit: 'count' as const, warning: 0, critical: 10 };
+      expect(gradeSeverity(1, 1_000_000, count)).toBe('warning');
+      expect(gradeSeverity(11, 1_000_000, count)).toBe('critical');
+      expect(gradeSeverity(50, 100, { unit: 'rate', critical: 0.9 })).toBe('info');
+    });
+
+    it('should let a rule override the strategy defaults', () => {
+      // One missing email in five rows is critical by default.
+      expect(engine.validate('Completeness', testData, 'email').severity).toBe('critical');
+      const lenient = engine.validate('Completeness', testData, 'email', undefined, {
+        severity: { unit: 'rate', warning: 0.1, critical: 0.5 },
+      });
+      expect(lenient.isValid).toBe(false);
+      expect(lenient.severity).toBe('warning');
+
+      const duplicates = engine.validate('Uniqueness', testData, 'orderId', undefined, {
+        severity: { unit: 'count', warning: 0, critical: 5 },
+      });
+      expect(duplicates.severity).toBe('warning');
+    });
   });
 
   describe('ValidationEngine', () => {
@@ -97,5 +591,28 @@ describe('ValidationEngine - Strategy Pattern', () => {
       expect(results[1].isValid).toBe(false);
       expect(results[2].failedRows).toContain(3);
     });
+
+    it('should tie each result to the rule that produced it', () => {
+      const results = engine.validateAll(testData, [
+        { id: 'email-complete', strategy: 'Completeness', column: 'email' },
+        { strategy: 'Completeness', column: 'orderId' },
+        { id: 'price-range', strategy: 'NumericalRange', column: 'price', threshold: 1.5 },
+      ]);
+
+      expect(results.map((r) => r.ruleId)).toEqual(['email-complete', 'Completeness:orderId', 'price-range']);
+      expect(results[0]).toMatchObject({ strategy: 'Completeness', column: 'email', evaluatedRows: 5 });
+      expect(results[0].failureRate).toBeCloseTo(0.2);
+      expect(results[1]).toMatchObject({ column: 'orderId', failureRate: 0 });
+      expect(results[2].threshold).toBe(1.5);
+    });
+
+    it('should skip disabled rules in validateAll', () => {
+      const results = engine.validateAll(testData, [
+        { strategy: 'Completeness', column: 'email', enabled: false },
+        { strategy: 'Uniqueness', column: 'orderId' },
+      ]);
+      expect(results.length).toBe(1);
+      expect(results[0].message).toContain('orderId');
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,52 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeAll } from 'vitest';
+import { dataService } from '../core/MockDataService';
+import { RULE_REMOVED_NOTE } from '../core/alertLifecycle';
+import { rowsForAlert } from '../core/rowFindings';
+import { ValidationConfig, ValidationEngine } from '../core/ValidationEngine';
+import { recordRun } from '../core/validationRunner';
+
+const engine = new ValidationEngine();
+const configs: ValidationConfig[] = [{ id: 'email', strategy: 'Completeness', column: 'email' }];
+
+/** Records a run of the Completeness rule over `rows` as if the worker had validated them. */
+const record = (rows: { email: string }[], dataset = 'orders', rules = configs) =>
+  recordRun(dataset, { startedAt: new Date(), rowCount: rows.length, configs: rules }, rows.length, engine.validateAll(rows, rules));
+
+describe('recordRun', () => {
+  beforeAll(async () => {
+    await dataService.init();
+    await dataService.importDataset('orders', [{ email: 'a@x.io' }]);
+  });
+
+  it('should point alerts at the run whose rows they are about', async () => {
+    await record([{ email: '' }, { email: 'b@x.io' }, { email: 'c@x.io' }]);
+    await record([{ email: 'a@x.io' }, { email: '' }, { email: '' }]);
+    let [alert] = await dataService.getAlerts('orders');
+    let runs = await dataService.getRuns('orders');
+
+    expect(alert.occurrences).toBe(2);
+    expect(alert.runId).toBe(runs[1].id);
+    expect(rowsForAlert(runs, alert)).toMatchObject({ latest: true, rows: [1, 2] });
+
+    // Once the rule passes, the resolved alert still opens the rows it failed on.
+    await record([{ email: 'a@x.io' }, { email: 'b@x.io' }, { email: 'c@x.io' }]);
+    [alert] = await dataService.getAlerts('orders');
+    runs = await dataService.getRuns('orders');
+
+    expect(alert.status).toBe('resolved');
+    expect(rowsForAlert(runs, alert)).toMatchObject({ run: runs[1], latest: false, rows: [1, 2] });
+  });
+
+  it('should resolve the open alerts of rules that were deleted or disabled', async () => {
+    await dataService.importDataset('customers', [{ email: '' }]);
+    await record([{ email: '' }], 'customers');
+    expect((await dataService.getAlerts('customers'))[0].status).toBe('open');
+
+    await record([{ email: '' }], 'customers', [{ ...configs[0], enabled: false }]);
+    const [alert] = await dataService.getAlerts('customers');
+
+    expect(alert.status).toBe('resolved');
+    expect(alert.resolutionNote).toBe(RULE_REMOVED_NOTE);
+  });
+});
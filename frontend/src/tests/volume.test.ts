@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { DAY_MS, VolumePoint, checkVolume, dailyCounts, ewma, volumeBaseline, volumeTrend } from '../core/volume';
+import { ValidationEngine, VolumeDetails } from '../core/ValidationEngine';
+
+// 2024-01-01 is a Monday.
+const MONDAY = Date.parse('2024-01-01T00:00:00Z');
+const day = (n: number) => MONDAY + n * DAY_MS;
+const series = (counts: number[]): VolumePoint[] => counts.map((count, n) => ({ time: day(n), count }));
+
+describe('volume', () => {
+  it('should track an EWMA and its variance', () => {
+    expect(ewma([10, 10, 10])).toEqual({ mean: 10, variance: 0 });
+    const { mean, variance } = ewma([10, 20]);
+    expect(mean).toBeCloseTo(13);
+    expect(variance).toBeCloseTo(21);
+  });
+
+  it('should wait for enough history', () => {
+    expect(volumeBaseline(series([100, 100]), day(2))).toBeNull();
+    expect(checkVolume(series([100, 100]), { time: day(2), count: 5 })).toBeNull();
+  });
+
+  it('should prefer same-weekday baselines once there are enough of them', () => {
+    // Three weeks of busy Mondays and quiet other days.
+    const weeks = series(Array.from({ length: 21 }, (_, n) => (n % 7 === 0 ? 1000 : 100)));
+    const monday = checkVolume(weeks, { time: day(21), count: 1000 })!;
+    expect(monday.method).toBe('weekday');
+    expect(monday.expected).toBe(1000);
+    expect(monday.anomaly).toBeNull();
+
+    const tuesday = checkVolume(weeks, { time: day(22), count: 1000 })!;
+    expect(tuesday.anomaly).toBe('spike');
+  });
+
+  it('should fall back to the EWMA and flag drops', () => {
+    const check = checkVolume(series([1000, 1010, 990, 1005]), { time: day(4), count: 500 })!;
+    expect(check.method).toBe('ewma');
+    expect(check.anomaly).toBe('drop');
+    expect(check.deviation).toBeLessThan(-3);
+    // σ never drops below the Poisson noise of the expected count.
+    expect(checkVolume(series([4, 4, 4]), { time: day(3), count: 7 })!.anomaly).toBeNull();
+  });
+
+  it('should fill days without rows with zero', () => {
+    const points = dailyCounts(new Map([[100, 3], [103, 1]]));
+    expect(points.map((p) => p.count)).toEqual([3, 0, 0, 1]);
+    expect(points[1].time).toBe(101 * DAY_MS);
+  });
+
+  it('should describe the trend against history', () => {
+    expect(volumeTrend([], { time: day(1), count: 10 })).toBeNull();
+    expect(volumeTrend(series([100]), { time: day(1), count: 100 })!.direction).toBe('stable');
+    expect(volumeTrend(series([100]), { time: day(1), count: 120 })).toMatchObject({ direction: 'up', change: 0.2, anomaly: null });
+    expect(volumeTrend(series([100, 100, 100]), { time: day(3), count: 50 })).toMatchObject({ direction: 'down', anomaly: 'drop' });
+  });
+
+  describe('VolumeStrategy', () => {
+    const engine = new ValidationEngine();
+    const rows = (count: number) => Array.from({ length: count }, (_, id) => ({ id }));
+
+    it('should check the run row count against history', () => {
+      const context = { now: new Date(day(4)), volumeHistory: series([1000, 1020, 980, 1010]) };
+      const ok = engine.validateRule(rows(990), { strategy: 'Volume', column: '*' }, context);
+      expect(ok.isValid).toBe(true);
+
+      const partial = engine.validateRule(rows(500), { strategy: 'Volume', column: '*' }, context);
+      expect(partial.isValid).toBe(false);
+      expect(partial.severity).toBe('critical');
+      expect(partial.message).toMatch(/^Row count dropped to 500, outside/);
+      expect((partial.details as VolumeDetails).checks[0].anomaly).toBe('drop');
+    });
+
+    it('should not alert before there is history', () => {
+      const result = engine.validateRule(rows(10), { strategy: 'Volume', column: '*' }, { volumeHistory: [] });
+      expect(result.isValid).toBe(true);
+      expect(result.evaluatedRows).toBe(0);
+      expect(result.message).toBe('Volume baseline needs 3 earlier runs, 0 so far');
+    });
+
+    it('should flag days with duplicated or missing loads', () => {
+      const orders: { orderDate: string }[] = [];
+      for (let n = 0; n < 14; n++) {
+        // Day 6 was loaded twice; day 12 never arrived.
+        const count = n === 6 ? 40 : n === 12 ? 0 : 20;
+        for (let i = 0; i < count; i++) orders.push({ orderDate: new Date(day(n) + i * 60_000).toISOString() });
+      }
+      // Rows of the current day are still loading and are left out.
+      orders.push({ orderDate: new Date(day(14)).toISOString() });
+
+      const result = engine.validateRule(
+        orders,
+        { strategy: 'Volume', column: 'orderDate', params: { volumeBy: 'day' } },
+        { now: new Date(day(14) + 3_600_000) }
+      );
+      const labels = (result.details as VolumeDetails).checks.map((c) => `${c.label}:${c.anomaly}`);
+
+      expect(labels).toEqual(['2024-01-07:spike', '2024-01-13:drop']);
+      expect(result.failedRows).toHaveLength(40);
+      expect(result.evaluatedRows).toBe(280);
+      expect(result.isValid).toBe(false);
+    });
+  });
+});